@@ -1,45 +1,329 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import AudioRecorder from './components/AudioRecorder';
 import TranscriptionDisplay from './components/TranscriptionDisplay';
-import { AppState, Language } from './types';
-import { transcribeAudio } from './services/geminiService';
-import { getMimeType } from './utils/fileUtils';
-import { AlertCircle } from 'lucide-react';
+import HistoryPanel from './components/HistoryPanel';
+import BatchQueue from './components/BatchQueue';
+import RecordingRecovery from './components/RecordingRecovery';
+import { AppState, BatchJob, HistorySession, Language, RecordingDraft, RecordingExtras, TranscriptionProgress, TranscriptionResult, TranscriptionSettings } from './types';
+import { transcribeInChunks } from './services/chunkedTranscription';
+import { getGlossary } from './services/glossaryService';
+import { DEFAULT_STYLE_ID, getStyle } from './services/styleService';
+import { getProvider, loadProviderSettings, ProviderSettings, saveProviderSettings } from './services/transcriptionProvider';
+import { loadPreprocessOptions } from './services/audioPreprocessor';
+import { createSession, deleteSessions, getSession, saveSession, updateSession } from './services/historyService';
+import { ApiError, ERROR_DESCRIPTIONS, isAbortError, toApiError } from './services/errors';
+import { deleteDraft, listDrafts, loadDraftBlob } from './services/recordingDrafts';
+import { assignUsageToSession, confirmJobCost, estimateAudioSeconds, estimateTranscriptionUsage, trackUsage } from './services/usageService';
+import { getMimeType, saveBlob } from './utils/fileUtils';
+import { useUndoableState } from './hooks/useUndoableState';
+import { useBatchQueue } from './hooks/useBatchQueue';
+import { SearchFocus } from './utils/searchUtils';
+import { AlertCircle, AlertTriangle, Layers, RotateCcw } from 'lucide-react';
+
+// A recording whose final pass failed, shown from its live transcript until the pass is retried
+interface LivePreview {
+  error: ApiError;
+  sessionId: string | null;
+  audioBlob: Blob;
+  language: Language;
+  extras: RecordingExtras;
+}
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [transcript, setTranscript] = useState<string>('');
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const {
+    state: transcript,
+    set: setTranscript,
+    reset: resetTranscript,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<TranscriptionResult | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionSpeech, setSessionSpeech] = useState<Blob | null>(null);
+  const [searchFocus, setSearchFocus] = useState<SearchFocus | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [livePreview, setLivePreview] = useState<LivePreview | null>(null);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const [drafts, setDrafts] = useState<RecordingDraft[]>([]);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const provider = useMemo(() => getProvider(providerSettings), [providerSettings]);
+  const batch = useBatchQueue(() => setHistoryVersion(v => v + 1));
+  const batchRemaining = batch.jobs.filter(job => job.status === 'queued' || job.status === 'processing').length;
+  // Switching sessions would unmount the recorder or be overwritten by the transcription in progress
+  const isBusy = appState === AppState.RECORDING || appState === AppState.PROCESSING;
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+  };
+
+  // Release the object URL of the previous recording
+  useEffect(() => {
+    return () => {
+      if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+    };
+  }, [recordingUrl]);
+
+  // Interrupted recordings are offered for recovery whenever we're back at the start screen
+  useEffect(() => {
+    if (appState !== AppState.IDLE) return;
+    listDrafts()
+      .then(setDrafts)
+      .catch(error => console.error("Failed to load recording backups:", error));
+  }, [appState]);
+
+  // Persist edits to the open session, debounced so typing doesn't write on every commit
+  useEffect(() => {
+    if (!sessionId || !transcript) return;
+    const timeout = window.setTimeout(() => {
+      updateSession(sessionId, { transcript })
+        .then(() => setHistoryVersion(v => v + 1))
+        .catch(error => console.error("Failed to save session:", error));
+    }, 800);
+    return () => window.clearTimeout(timeout);
+  }, [sessionId, transcript]);
+
+  // Shows a finished transcript and records it as a new history session
+  // Resolves to the saved session's id, or null if it did not make it into history
+  const completeSession = useCallback(async (result: TranscriptionResult, audioBlob: Blob | null, mimeType: string, name?: string): Promise<string | null> => {
+    resetTranscript(result);
+    setSessionSpeech(null);
+    setAppState(AppState.COMPLETED);
+
+    const session = createSession(result, audioBlob, mimeType, name);
+
+    try {
+      await saveSession(session);
+      setSessionId(session.id);
+      setHistoryVersion(v => v + 1);
+      return session.id;
+    } catch (error) {
+      // The transcript is still usable; it just won't appear in history
+      console.error("Failed to save session to history:", error);
+      setSessionId(null);
+      return null;
+    }
+  }, [resetTranscript]);
+
+  // The crash-recovery copy is only dropped once the recording is safely in history
+  const finishDraft = (draftId: string | undefined, savedId: string | null) => {
+    if (!draftId || !savedId) return;
+    deleteDraft(draftId).catch(error => console.error("Failed to delete recording backup:", error));
+  };
+
+  // Resolves to the id of the session it saved, if any
+  const handleRecordingComplete = useCallback(async (audioBlob: Blob, language: Language, extras: RecordingExtras = {}): Promise<string | null | undefined> => {
+    const { liveTranscript, draftId, glossaryId, styleId, speakerHints, liveUsageIds = [] } = extras;
+    const style = getStyle(styleId);
+
+    // Declining keeps a recording's backup, so it can still be transcribed later from the start screen
+    if (!(await confirmJobCost(estimateTranscriptionUsage(await estimateAudioSeconds(audioBlob))))) {
+      setAppState(AppState.IDLE);
+      listDrafts().then(setDrafts).catch(() => undefined);
+      return;
+    }
+
+    setRecordingUrl(URL.createObjectURL(audioBlob));
+    setSessionId(null);
+
+    // Uploads and recordings carry their type; fall back to what the recorder would use
+    const mimeType = audioBlob.type || getMimeType();
+
+    const controller = new AbortController();
+    transcriptionAbortRef.current = controller;
+    const usage = trackUsage('transcription');
+    const attachUsage = (savedId: string | null) => {
+      if (savedId) assignUsageToSession([...liveUsageIds, ...usage.ids], savedId);
+      return savedId;
+    };
 
-  const handleRecordingComplete = useCallback(async (audioBlob: Blob, language: Language) => {
     try {
       setAppState(AppState.PROCESSING);
-      setErrorMsg(null);
-      
-      // If it's a file upload, use its type, otherwise use recorded mimetype
-      const mimeType = audioBlob instanceof File ? audioBlob.type : getMimeType();
+      setError(null);
+      setLivePreview(null);
+      setProgress(null);
       
-      const text = await transcribeAudio(audioBlob, mimeType, language);
+      const result = await transcribeInChunks(audioBlob, mimeType, language, {
+        onProgress: setProgress,
+        signal: controller.signal,
+        preprocess: loadPreprocessOptions(),
+        glossary: getGlossary(glossaryId),
+        speakerHints,
+        style,
+        onUsage: usage.onUsage,
+      });
       
-      setTranscript(text);
-      setAppState(AppState.COMPLETED);
+      const savedId = attachUsage(await completeSession(result, audioBlob, mimeType));
+      finishDraft(draftId, savedId);
+      return savedId;
     } catch (err) {
+      if (isAbortError(err)) {
+        setAppState(AppState.IDLE);
+        setProgress(null);
+        return;
+      }
       console.error(err);
-      setErrorMsg("We encountered an issue processing your audio. Please check your connection and try again.");
+
+      // The final pass failed, but live partials from the recording are better than nothing. They are
+      // rougher than a final pass, so say so, and keep the recording's backup until a retry succeeds.
+      const liveSegments = liveTranscript ? [...liveTranscript.confirmed, ...liveTranscript.provisional] : [];
+      if (liveSegments.length > 0) {
+        const savedId = attachUsage(await completeSession(
+          { segments: liveSegments, language, timestamp: new Date().toISOString(), styleId: style.singlePass ? DEFAULT_STYLE_ID : style.id },
+          audioBlob,
+          mimeType,
+          `Live preview ${new Date().toLocaleString()}`
+        ));
+        setLivePreview({ error: toApiError(err), sessionId: savedId, audioBlob, language, extras });
+        return savedId;
+      }
+
+      setError(toApiError(err));
       setAppState(AppState.ERROR);
+    } finally {
+      if (transcriptionAbortRef.current === controller) transcriptionAbortRef.current = null;
     }
-  }, []);
+  }, [completeSession]);
+
+  const handleCancelTranscription = () => {
+    transcriptionAbortRef.current?.abort();
+  };
+
+  // Runs the final pass again; its session replaces the live preview's
+  const handleRetryFinalPass = async () => {
+    if (!livePreview) return;
+    const { sessionId: previewId, audioBlob, language, extras } = livePreview;
+    setLivePreview(null);
+    const savedId = await handleRecordingComplete(audioBlob, language, extras);
+    if (previewId && savedId && savedId !== previewId) {
+      deleteSessions([previewId])
+        .then(() => setHistoryVersion(v => v + 1))
+        .catch(error => console.error("Failed to remove live preview session:", error));
+    }
+  };
+
+  const handleOpenSession = (session: HistorySession, focus?: SearchFocus) => {
+    if (isBusy) return;
+    resetTranscript(session.transcript);
+    setSearchFocus(focus || null);
+    setRecordingUrl(session.audioBlob ? URL.createObjectURL(session.audioBlob) : null);
+    setSessionSpeech(session.speechBlob);
+    setSessionId(session.id);
+    setError(null);
+    setLivePreview(null);
+    setProgress(null);
+    setAppState(AppState.COMPLETED);
+    setIsHistoryOpen(false);
+  };
+
+  // Re-imported JSON exports become new sessions without audio
+  const handleImportTranscript = async (result: TranscriptionResult, name: string) => {
+    if (isBusy) return;
+    setRecordingUrl(null);
+    setSessionId(null);
+    setError(null);
+    setLivePreview(null);
+    setProgress(null);
+    setIsHistoryOpen(false);
+    await completeSession(result, null, '', name);
+  };
+
+  const handleRecoverDraft = async (draft: RecordingDraft) => {
+    const blob = await loadDraftBlob(draft);
+    if (blob.size === 0) {
+      alert("This recording backup is empty and will be removed.");
+      await deleteDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      return;
+    }
+    handleRecordingComplete(blob, draft.language, { draftId: draft.id });
+  };
+
+  const handleDownloadDraft = async (draft: RecordingDraft) => {
+    const blob = await loadDraftBlob(draft);
+    const extension = draft.mimeType.includes('mp4') ? 'm4a' : 'webm';
+    saveBlob(blob, `ScribeFlow-Recording-${draft.startedAt.slice(0, 19).replace(/[:T]/g, '-')}.${extension}`);
+  };
+
+  const handleDiscardDraft = async (draft: RecordingDraft) => {
+    if (!window.confirm("Discard this recording? It cannot be recovered afterwards.")) return;
+    await deleteDraft(draft.id);
+    setDrafts(prev => prev.filter(d => d.id !== draft.id));
+  };
+
+  const handleBatchStart = async (files: File[], language: Language, settings: TranscriptionSettings) => {
+    const durations = await Promise.all(files.map(estimateAudioSeconds));
+    if (!(await confirmJobCost(durations.map(estimateTranscriptionUsage)))) return;
+    batch.addFiles(files, language, settings);
+    setError(null);
+    setAppState(AppState.BATCH);
+  };
+
+  const handleOpenBatchJob = async (job: BatchJob) => {
+    // Prefer the saved session so edits made since the batch finished are kept
+    const session = job.sessionId ? await getSession(job.sessionId).catch(() => undefined) : undefined;
+    if (session) {
+      handleOpenSession(session);
+      return;
+    }
+    if (!job.transcript) return;
+    resetTranscript(job.transcript);
+    setRecordingUrl(URL.createObjectURL(job.file));
+    setSessionSpeech(null);
+    setSessionId(null);
+    setAppState(AppState.COMPLETED);
+  };
+
+  const handleSessionsDeleted = (ids: string[]) => {
+    // The open transcript stays on screen but is no longer backed by a saved session
+    if (sessionId && ids.includes(sessionId)) setSessionId(null);
+  };
+
+  const handleSpeechGenerated = (speech: Blob) => {
+    setSessionSpeech(speech);
+    if (sessionId) {
+      updateSession(sessionId, { speechBlob: speech })
+        .catch(error => console.error("Failed to save generated audio:", error));
+    }
+  };
 
   const handleReset = () => {
-    setAppState(AppState.IDLE);
-    setTranscript('');
-    setErrorMsg(null);
+    // Return to the queue while a batch is still around
+    setAppState(batch.jobs.length > 0 ? AppState.BATCH : AppState.IDLE);
+    resetTranscript(null);
+    setRecordingUrl(null);
+    setSessionId(null);
+    setSessionSpeech(null);
+    setError(null);
+    setLivePreview(null);
+    setProgress(null);
   };
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
-      <Header />
+      <Header
+        providerSettings={providerSettings}
+        onProviderSettingsChange={handleProviderSettingsChange}
+        onOpenHistory={() => setIsHistoryOpen(true)}
+        isHistoryDisabled={isBusy}
+      />
+
+      <HistoryPanel
+        isOpen={isHistoryOpen && !isBusy}
+        currentSessionId={sessionId}
+        refreshKey={historyVersion}
+        onClose={() => setIsHistoryOpen(false)}
+        onOpenSession={handleOpenSession}
+        onImportTranscript={handleImportTranscript}
+        onSessionsDeleted={handleSessionsDeleted}
+      />
       
       <main className="flex-1 flex flex-col items-center justify-start pt-12 pb-12 px-4 sm:px-6">
         
@@ -57,12 +341,15 @@ const App: React.FC = () => {
         )}
 
         {/* Error Alert */}
-        {appState === AppState.ERROR && errorMsg && (
+        {appState === AppState.ERROR && error && (
           <div className="mb-8 w-full max-w-md bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3 text-red-800">
              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
              <div>
-               <h3 className="font-semibold text-sm">Processing Error</h3>
-               <p className="text-sm mt-1">{errorMsg}</p>
+               <h3 className="font-semibold text-sm">{ERROR_DESCRIPTIONS[error.kind].title}</h3>
+               <p className="text-sm mt-1">{ERROR_DESCRIPTIONS[error.kind].message}</p>
+               {error.kind === 'unknown' && error.message && (
+                 <p className="text-xs mt-1 text-red-600/80 break-words">{error.message}</p>
+               )}
                <button 
                  onClick={handleReset}
                  className="mt-3 text-xs font-bold uppercase tracking-wide text-red-700 hover:text-red-900"
@@ -73,21 +360,86 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {/* Final pass failed: the transcript on screen is the live preview */}
+        {appState === AppState.COMPLETED && livePreview && (
+          <div className="mb-6 w-full max-w-5xl bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start space-x-3 text-amber-900">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <h3 className="font-semibold text-sm">This is the live preview, not the final transcript</h3>
+              <p className="text-sm mt-1">
+                The final transcription failed: {ERROR_DESCRIPTIONS[livePreview.error.kind].title}. You are seeing the rougher
+                text made while recording. The recording is kept and can be transcribed again.
+              </p>
+            </div>
+            <button
+              onClick={handleRetryFinalPass}
+              className="flex-shrink-0 flex items-center px-3 py-1.5 text-xs font-bold uppercase tracking-wide text-amber-800 hover:bg-amber-100 rounded-lg"
+            >
+              <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
+              Retry
+            </button>
+          </div>
+        )}
+
+        {appState === AppState.IDLE && (
+          <RecordingRecovery
+            drafts={drafts}
+            onTranscribe={handleRecoverDraft}
+            onDownload={handleDownloadDraft}
+            onDiscard={handleDiscardDraft}
+          />
+        )}
+
+        {/* Batch still running in the background */}
+        {appState === AppState.IDLE && batch.jobs.length > 0 && (
+          <button
+            onClick={() => setAppState(AppState.BATCH)}
+            className="mb-6 flex items-center px-4 py-2 bg-blue-50 border border-blue-200 text-blue-700 text-sm font-medium rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            <Layers className="w-4 h-4 mr-2" />
+            {batchRemaining > 0 ? `Batch queue: ${batchRemaining} file(s) remaining` : 'Batch queue finished'} · View
+          </button>
+        )}
+
         {/* Main Content Area */}
         <div className="w-full">
-          {appState !== AppState.COMPLETED ? (
+          {appState === AppState.BATCH ? (
+            <div className="animate-in fade-in duration-300">
+                <BatchQueue
+                  queue={batch}
+                  onOpenJob={handleOpenBatchJob}
+                  onAddFiles={() => setAppState(AppState.IDLE)}
+                  onClose={() => setAppState(AppState.IDLE)}
+                />
+            </div>
+          ) : appState !== AppState.COMPLETED || !transcript ? (
             <div className="animate-in fade-in zoom-in duration-300">
                 <AudioRecorder 
                   appState={appState}
+                  progress={progress}
                   onStateChange={setAppState}
                   onRecordingComplete={handleRecordingComplete}
+                  onBatchStart={handleBatchStart}
+                  onCancel={handleCancelTranscription}
                 />
             </div>
           ) : (
              <div className="animate-in slide-in-from-bottom-8 duration-500">
                 <TranscriptionDisplay 
+                  key={sessionId || 'unsaved'}
                   transcript={transcript}
+                  sessionId={sessionId}
+                  voices={provider.voices}
+                  recordingUrl={recordingUrl}
+                  onTranscriptChange={setTranscript}
+                  onUndo={undo}
+                  onRedo={redo}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  initialSpeech={sessionSpeech}
+                  onSpeechGenerated={handleSpeechGenerated}
                   onReset={handleReset}
+                  focus={searchFocus}
                 />
              </div>
           )}
@@ -96,7 +448,7 @@ const App: React.FC = () => {
       </main>
       
       <footer className="py-6 text-center text-slate-400 text-sm">
-        <p>&copy; {new Date().getFullYear()} ScribeFlow. Powered by Google Gemini 2.5 Flash.</p>
+        <p>&copy; {new Date().getFullYear()} ScribeFlow. Powered by {provider.name}.</p>
       </footer>
     </div>
   );
@@ -0,0 +1,36 @@
+import { spawn } from 'node:child_process';
+import { MonoAudio, SPEECH_SAMPLE_RATE } from '../utils/audioUtils';
+
+// Node has no audio decoder of its own, so long files are decoded with ffmpeg when it is installed.
+// The samples then go through the same splitting as in the app.
+
+export const isFfmpegAvailable = (): Promise<boolean> => new Promise(resolve => {
+  const child = spawn('ffmpeg', ['-version'], { stdio: 'ignore' });
+  child.on('error', () => resolve(false));
+  child.on('close', code => resolve(code === 0));
+});
+
+// Mono float PCM at the speech sample rate, read from the file so containers that need seeking (m4a) work
+export const decodeWithFfmpeg = (file: string, signal?: AbortSignal): Promise<MonoAudio> => new Promise((resolve, reject) => {
+  const child = spawn(
+    'ffmpeg',
+    ['-v', 'error', '-i', file, '-vn', '-ac', '1', '-ar', String(SPEECH_SAMPLE_RATE), '-f', 'f32le', 'pipe:1'],
+    { stdio: ['ignore', 'pipe', 'pipe'], signal }
+  );
+  const chunks: Buffer[] = [];
+  let stderr = '';
+  child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+  child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+  child.on('error', reject);
+  child.on('close', code => {
+    if (code !== 0) {
+      reject(new Error(`ffmpeg could not decode the file${stderr.trim() ? `: ${stderr.trim().split('\n')[0]}` : '.'}`));
+      return;
+    }
+    const data = Buffer.concat(chunks);
+    // Copied so the samples start on a 4-byte boundary
+    const samples = new Float32Array(Math.floor(data.length / 4));
+    new Uint8Array(samples.buffer).set(data.subarray(0, samples.length * 4));
+    resolve({ samples, sampleRate: SPEECH_SAMPLE_RATE, duration: samples.length / SPEECH_SAMPLE_RATE });
+  });
+});
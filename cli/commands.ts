@@ -0,0 +1,232 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getProvider, loadProviderSettings, ProviderId, TranscriptionProvider } from '../services/transcriptionProvider';
+import { EXPORTERS, DEFAULT_EXPORT_OPTIONS, Exporter } from '../services/exportService';
+import { glossaryFromCsv } from '../services/glossaryService';
+import { transcribeInChunks } from '../services/chunkedTranscription';
+import { parseTranscriptJson } from '../services/jsonExporter';
+import { isAbortError, toApiError } from '../services/errors';
+import { chunkText } from '../utils/textUtils';
+import { createWavBlob } from '../utils/fileUtils';
+import { transcriptToPlainText } from '../utils/transcriptUtils';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { Glossary, Language, SpeakerHints, TranscriptionResult, TranscriptStyle } from '../types';
+import { createOutputNamer, expandInputs, getAudioMimeType } from './files';
+import { decodeWithFfmpeg, isFfmpegAvailable } from './audio';
+
+export const EXIT = {
+  ok: 0,
+  failed: 1, // at least one file could not be processed
+  usage: 2, // bad arguments
+  noInput: 3, // nothing matched the inputs
+  config: 4, // missing API key or unknown provider
+  cancelled: 130, // Ctrl+C
+};
+
+export class CliError extends Error {
+  exitCode: number;
+
+  constructor(message: string, exitCode: number) {
+    super(message);
+    this.name = 'CliError';
+    this.exitCode = exitCode;
+  }
+}
+
+export const LANGUAGES: Language[] = ['Mixed', 'Urdu', 'English', 'Siraiki'];
+
+// Inline requests are capped at about 20 MB. Longer recordings are split like in the app, which needs ffmpeg
+const MAX_AUDIO_BYTES = 20 * 1024 * 1024;
+
+// The PDF exporter renders through a browser canvas
+const BROWSER_ONLY_FORMATS = ['pdf'];
+
+export interface CommonOptions {
+  provider?: string;
+  quiet: boolean;
+  signal: AbortSignal;
+}
+
+export interface TranscribeOptions extends CommonOptions {
+  inputs: string[];
+  language: Language;
+  formats: string[];
+  outDir?: string;
+  glossaryFile?: string;
+  speakerHints?: SpeakerHints;
+  style: TranscriptStyle;
+  concurrency: number;
+}
+
+export interface TtsOptions extends CommonOptions {
+  input: string;
+  voice?: string;
+  speed?: number;
+  style?: string;
+  out?: string; // file, directory, or "-" for stdout
+}
+
+export interface FileResult {
+  input: string;
+  ok: boolean;
+  outputs: string[];
+  transcript?: TranscriptionResult;
+  error?: { kind: string; message: string };
+}
+
+const log = (options: CommonOptions, message: string) => {
+  if (!options.quiet) process.stderr.write(`${message}\n`);
+};
+
+const resolveProvider = (providerId: string | undefined): TranscriptionProvider => {
+  const settings = loadProviderSettings();
+  const id = (providerId || settings.providerId) as ProviderId;
+  if (!['gemini', 'openai', 'mock'].includes(id)) {
+    throw new CliError(`Unknown provider "${id}". Use gemini, openai or mock.`, EXIT.config);
+  }
+  if (id === 'gemini' && !process.env.API_KEY && !settings.geminiProxyUrl) {
+    throw new CliError("GEMINI_API_KEY is not set (or set GEMINI_PROXY_URL to use the proxy server).", EXIT.config);
+  }
+  // The app takes the OpenAI key from its settings screen; here it comes from the environment
+  return getProvider({ ...settings, providerId: id, openaiApiKey: process.env.OPENAI_API_KEY || '' });
+};
+
+export const resolveExporters = (formats: string[]): Exporter[] =>
+  formats.map(format => {
+    const id = format.trim().toLowerCase();
+    if (BROWSER_ONLY_FORMATS.includes(id)) {
+      throw new CliError(`The ${id} format is only available in the browser.`, EXIT.usage);
+    }
+    const exporter = EXPORTERS.find(e => e.id === id);
+    if (!exporter) {
+      const known = EXPORTERS.map(e => e.id).filter(e => !BROWSER_ONLY_FORMATS.includes(e));
+      throw new CliError(`Unknown format "${format}". Available: ${known.join(', ')}.`, EXIT.usage);
+    }
+    return exporter;
+  });
+
+// "docx-bilingual" becomes "meeting.bilingual.docx" so it does not collide with the plain DOCX
+const outputExtension = (exporter: Exporter): string =>
+  exporter.id === exporter.extension ? exporter.extension : `${exporter.id.replace(`${exporter.extension}-`, '')}.${exporter.extension}`;
+
+const loadGlossary = async (file: string): Promise<Glossary> => {
+  try {
+    return glossaryFromCsv(path.basename(file, path.extname(file)), await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new CliError(`Could not read glossary ${file}: ${error instanceof Error ? error.message : error}`, EXIT.usage);
+  }
+};
+
+export const runTranscribe = async (options: TranscribeOptions): Promise<FileResult[]> => {
+  const provider = resolveProvider(options.provider);
+  const exporters = resolveExporters(options.formats);
+  const glossary = options.glossaryFile ? await loadGlossary(options.glossaryFile) : undefined;
+
+  const files = await expandInputs(options.inputs);
+  if (files.length === 0) {
+    throw new CliError("No audio files matched the inputs.", EXIT.noInput);
+  }
+  if (options.outDir) await mkdir(options.outDir, { recursive: true });
+  const outputPath = createOutputNamer(options.outDir);
+
+  const canDecode = await isFfmpegAvailable();
+  if (!canDecode) {
+    log(options, "ffmpeg was not found: files are sent whole, so files over 20 MB are skipped and subtitle timings may be missing.");
+  }
+
+  let done = 0;
+  return mapWithConcurrency(files, options.concurrency, async (file): Promise<FileResult> => {
+    const result: FileResult = { input: file, ok: false, outputs: [] };
+    try {
+      const mimeType = getAudioMimeType(file) || 'application/octet-stream';
+      if (!canDecode && (await stat(file)).size > MAX_AUDIO_BYTES) {
+        throw new CliError("File is larger than 20 MB; install ffmpeg to split it, or compress it first.", EXIT.failed);
+      }
+
+      const audio = new Blob([await readFile(file)], { type: mimeType });
+      const transcript = await transcribeInChunks(audio, mimeType, options.language, {
+        provider,
+        decode: async () => (canDecode ? decodeWithFfmpeg(file, options.signal) : null),
+        glossary,
+        speakerHints: options.speakerHints,
+        style: options.style,
+        signal: options.signal,
+      });
+      result.transcript = transcript;
+
+      for (const exporter of exporters) {
+        if (exporter.isAvailable && !exporter.isAvailable(transcript)) {
+          log(options, `  skipped ${exporter.id} for ${path.basename(file)}: needs data the CLI does not produce`);
+          continue;
+        }
+        const blob = await exporter.export(transcript, DEFAULT_EXPORT_OPTIONS);
+        const target = outputPath(file, outputExtension(exporter));
+        await writeFile(target, new Uint8Array(await blob.arrayBuffer()));
+        result.outputs.push(target);
+      }
+      result.ok = true;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const apiError = toApiError(error);
+      result.error = { kind: error instanceof CliError ? 'input' : apiError.kind, message: apiError.message };
+    }
+
+    done++;
+    log(options, `[${done}/${files.length}] ${result.ok ? 'ok  ' : 'FAIL'} ${file}${result.error ? ` (${result.error.message})` : ''}`);
+    return result;
+  });
+};
+
+const readTtsText = async (file: string): Promise<string> => {
+  const content = await readFile(file, 'utf8').catch(() => {
+    throw new CliError(`Cannot read ${file}.`, EXIT.noInput);
+  });
+  // JSON exports are read turn by turn with speaker names, like the app does
+  return path.extname(file).toLowerCase() === '.json'
+    ? transcriptToPlainText(parseTranscriptJson(content))
+    : content;
+};
+
+export const runTts = async (options: TtsOptions): Promise<FileResult> => {
+  const provider = resolveProvider(options.provider);
+  const text = await readTtsText(options.input);
+  const voice = options.voice || provider.voices[0]?.id;
+  if (voice && !provider.voices.some(v => v.id === voice)) {
+    throw new CliError(`Unknown voice "${voice}". Available: ${provider.voices.map(v => v.id).join(', ')}.`, EXIT.usage);
+  }
+
+  const chunks = chunkText(text).filter(chunk => chunk.trim());
+  if (chunks.length === 0) {
+    throw new CliError("The input has no text to read.", EXIT.noInput);
+  }
+
+  const pcmChunks: Uint8Array[] = [];
+  let sampleRate = 24000;
+  for (const [index, chunk] of chunks.entries()) {
+    log(options, `[${index + 1}/${chunks.length}] synthesizing ${chunk.length} characters`);
+    const speech = await provider.synthesize(chunk, { voiceName: voice, speed: options.speed, style: options.style, signal: options.signal });
+    sampleRate = speech.sampleRate;
+    pcmChunks.push(speech.pcm);
+  }
+
+  const pcm = new Uint8Array(pcmChunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of pcmChunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  const wav = new Uint8Array(await createWavBlob(pcm, sampleRate).arrayBuffer());
+
+  if (options.out === '-') {
+    process.stdout.write(wav);
+    return { input: options.input, ok: true, outputs: ['-'] };
+  }
+
+  let target = options.out || createOutputNamer(undefined)(options.input, 'wav');
+  if (options.out && !options.out.toLowerCase().endsWith('.wav')) {
+    await mkdir(options.out, { recursive: true });
+    target = createOutputNamer(options.out)(options.input, 'wav');
+  }
+  await writeFile(target, wav);
+  return { input: options.input, ok: true, outputs: [target] };
+};
@@ -0,0 +1,110 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+// Turns command-line inputs (files, directories, quoted glob patterns) into a list of audio files
+
+const MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.webm': 'audio/webm',
+  '.aiff': 'audio/aiff',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.mkv': 'video/x-matroska',
+};
+
+export const getAudioMimeType = (file: string): string | undefined => MIME_TYPES[path.extname(file).toLowerCase()];
+
+const isGlob = (pattern: string) => /[*?[]/.test(pattern);
+
+// "**" spans directories, "*" and "?" stay within one, "[abc]" is a character class
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await walk(full));
+    else if (entry.isFile()) files.push(full);
+  }
+  return files;
+};
+
+const expandGlob = async (pattern: string): Promise<string[]> => {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(isGlob);
+  const base = segments.slice(0, firstGlob).join('/') || '.';
+  const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+
+  const files = await walk(base).catch(() => []);
+  return files.filter(file => matcher.test(path.relative(base, file).split(path.sep).join('/')));
+};
+
+// Directories are searched recursively for audio files; files named explicitly are always included
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const found: string[] = [];
+
+  for (const input of inputs) {
+    if (isGlob(input)) {
+      found.push(...(await expandGlob(input)).filter(file => getAudioMimeType(file)));
+      continue;
+    }
+    const info = await stat(input).catch(() => null);
+    if (info?.isDirectory()) {
+      found.push(...(await walk(input)).filter(file => getAudioMimeType(file)));
+    } else if (info?.isFile()) {
+      found.push(input);
+    }
+  }
+
+  return Array.from(new Set(found.map(file => path.resolve(file)))).sort();
+};
+
+// Output path for an input, numbered when two inputs share a name
+export const createOutputNamer = (outDir: string | undefined) => {
+  const used = new Set<string>();
+  return (input: string, extension: string): string => {
+    const dir = outDir || path.dirname(input);
+    const name = path.basename(input, path.extname(input));
+    let file = path.join(dir, `${name}.${extension}`);
+    for (let n = 2; used.has(file.toLowerCase()); n++) {
+      file = path.join(dir, `${name} (${n}).${extension}`);
+    }
+    used.add(file.toLowerCase());
+    return file;
+  };
+};
@@ -0,0 +1,168 @@
+import { parseArgs } from 'node:util';
+import { isAbortError } from '../services/errors';
+import { BUILT_IN_STYLES, DEFAULT_STYLE } from '../services/styleService';
+import { Language, TranscriptStyle } from '../types';
+import { CliError, EXIT, FileResult, LANGUAGES, runTranscribe, runTts } from './commands';
+
+// ScribeFlow command-line tool. Uses the same providers, prompts and exporters as the app.
+
+const STYLE_IDS = BUILT_IN_STYLES.map(style => style.id).join(', ');
+
+const USAGE = `Usage:
+  scribeflow transcribe <files, directories or "globs"...> [options]
+  scribeflow tts <transcript.txt|transcript.json> [options]
+
+Transcribe options:
+  --lang <language>       Mixed (default), Urdu, English or Siraiki
+  --format <list>         Comma-separated: docx (default), md, txt, json, srt, vtt, ass
+  --out <dir>             Output directory (default: next to each input)
+  --glossary <file.csv>   Glossary exported from the app, or a plain list of terms
+  --speakers <n>          Expected number of speakers
+  --names <list>          Comma-separated speaker names
+  --profile <id>          Transcription style: ${STYLE_IDS}
+  --concurrency <n>       Files processed at once (default 2)
+
+TTS options:
+  --voice <id>            Provider voice, e.g. Kore
+  --speed <n>             Pace, 1 is normal
+  --style <text>          Delivery directions, e.g. "calm news reader"
+  --out <file|dir|->      WAV file, directory, or - for stdout
+
+Common options:
+  --provider <id>         gemini, openai or mock (default: TRANSCRIPTION_PROVIDER or gemini)
+  --json                  Print results as JSON on stdout
+  --quiet                 No progress output on stderr
+  --help
+
+Exit codes: 0 success, 1 some files failed, 2 bad arguments, 3 no input,
+4 configuration problem (e.g. missing API key), 130 cancelled.
+`;
+
+const parseLanguage = (value: string | undefined): Language => {
+  if (!value) return 'Mixed';
+  const language = LANGUAGES.find(l => l.toLowerCase() === value.toLowerCase());
+  if (!language) throw new CliError(`Unknown language "${value}". Use ${LANGUAGES.join(', ')}.`, EXIT.usage);
+  return language;
+};
+
+// User templates live in the browser, so only the built-in styles are available here
+const parseStyle = (value: string | undefined): TranscriptStyle => {
+  if (!value) return DEFAULT_STYLE;
+  const style = BUILT_IN_STYLES.find(s => s.id === value.toLowerCase());
+  if (!style) throw new CliError(`Unknown style "${value}". Use ${STYLE_IDS}.`, EXIT.usage);
+  return style;
+};
+
+const parsePositive = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new CliError(`--${name} must be a positive number.`, EXIT.usage);
+  return parsed;
+};
+
+const printResults = (results: FileResult[], json: boolean) => {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+    return;
+  }
+  for (const result of results) {
+    if (result.ok) result.outputs.forEach(output => process.stdout.write(`${output}\n`));
+  }
+};
+
+const main = async (argv: string[], signal: AbortSignal): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === 'help') {
+    process.stdout.write(USAGE);
+    return command ? EXIT.ok : EXIT.usage;
+  }
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      allowPositionals: true,
+      options: {
+        lang: { type: 'string' },
+        format: { type: 'string' },
+        out: { type: 'string' },
+        glossary: { type: 'string' },
+        speakers: { type: 'string' },
+        names: { type: 'string' },
+        profile: { type: 'string' },
+        concurrency: { type: 'string' },
+        voice: { type: 'string' },
+        speed: { type: 'string' },
+        style: { type: 'string' },
+        provider: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        quiet: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error), EXIT.usage);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT.ok;
+  }
+  const common = { provider: values.provider, quiet: values.quiet, signal };
+
+  if (command === 'transcribe') {
+    if (positionals.length === 0) throw new CliError("Give at least one file, directory or glob.", EXIT.usage);
+    const names = (values.names || '').split(',').map(name => name.trim()).filter(Boolean);
+    const expectedCount = parsePositive(values.speakers, 'speakers');
+    const results = await runTranscribe({
+      ...common,
+      inputs: positionals,
+      language: parseLanguage(values.lang),
+      formats: (values.format || 'docx').split(',').filter(Boolean),
+      outDir: values.out,
+      glossaryFile: values.glossary,
+      speakerHints: expectedCount || names.length > 0 ? { expectedCount: expectedCount ?? null, names } : undefined,
+      style: parseStyle(values.profile),
+      concurrency: parsePositive(values.concurrency, 'concurrency') || 2,
+    });
+    printResults(results, values.json);
+    return results.every(result => result.ok) ? EXIT.ok : EXIT.failed;
+  }
+
+  if (command === 'tts') {
+    if (positionals.length !== 1) throw new CliError("Give exactly one text or JSON transcript file.", EXIT.usage);
+    const result = await runTts({
+      ...common,
+      input: positionals[0],
+      voice: values.voice,
+      speed: parsePositive(values.speed, 'speed'),
+      style: values.style,
+      out: values.out,
+    });
+    if (values.out !== '-') printResults([result], values.json);
+    return EXIT.ok;
+  }
+
+  throw new CliError(`Unknown command "${command}".\n\n${USAGE}`, EXIT.usage);
+};
+
+// The providers read the Gemini key from API_KEY, as injected into the browser build
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+main(process.argv.slice(2), controller.signal)
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    if (isAbortError(error)) {
+      process.stderr.write("Cancelled.\n");
+      process.exitCode = EXIT.cancelled;
+    } else if (error instanceof CliError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exitCode = error.exitCode;
+    } else {
+      process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+      process.exitCode = EXIT.failed;
+    }
+  });
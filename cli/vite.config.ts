@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line tool for Node. Dependencies stay external and load from node_modules;
+// unlike the app build, nothing from the environment is baked in.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'cli/dist',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'scribeflow.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
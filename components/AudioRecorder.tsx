@@ -1,61 +1,247 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Loader2, Upload, FileAudio, X } from 'lucide-react';
-import { AppState, Language } from '../types';
+import { Mic, Square, Loader2, Upload, FileAudio, X, Radio, Wand2, ArrowRight, Pause, Play, Settings2, AlertTriangle, BookOpen, SlidersHorizontal } from 'lucide-react';
+import { AppState, Glossary, Language, SpeakerHints, TranscriptStyle, TranscriptionSettings, LiveTranscript, RecordingDraft, RecordingExtras, RecordingSubState, TranscriptionProgress } from '../types';
 import { getMimeType } from '../utils/fileUtils';
+import { LiveTranscriber, startLiveTranscription } from '../services/liveTranscription';
+import { trackUsage } from '../services/usageService';
+import LiveTranscriptView from './LiveTranscriptView';
+import LevelMeter from './LevelMeter';
+import GlossaryManager from './GlossaryManager';
+import StyleManager from './StyleManager';
+import { getGlossary, loadGlossaries } from '../services/glossaryService';
+import { DEFAULT_STYLE_ID, getStyle, loadStyles } from '../services/styleService';
+import {
+  buildAudioConstraints,
+  listMicrophones,
+  loadMicrophoneSettings,
+  MicrophoneOption,
+  MicrophoneSettings,
+  saveMicrophoneSettings,
+} from '../services/microphoneSettings';
+import { appendDraftChunk, createDraft, createDraftId } from '../services/recordingDrafts';
+import { getStorageUsage } from '../services/historyService';
+import {
+  loadPreprocessOptions,
+  PreprocessedAudio,
+  PreprocessOptions,
+  preprocessAudio,
+  savePreprocessOptions,
+} from '../services/audioPreprocessor';
+
+// Chunks are written to IndexedDB at this interval, bounding what a crash can lose
+const TIMESLICE_MS = 5000;
+// Recordings are stopped automatically at this length
+const MAX_RECORDING_SECONDS = 4 * 60 * 60;
+const MAX_DURATION_WARNING_SECONDS = 5 * 60;
+// Roughly an hour of Opus audio plus headroom
+const LOW_STORAGE_BYTES = 200 * 1024 * 1024;
 
 interface AudioRecorderProps {
   appState: AppState;
-  onRecordingComplete: (blob: Blob, language: Language) => void;
+  progress?: TranscriptionProgress | null;
+  onRecordingComplete: (blob: Blob, language: Language, extras?: RecordingExtras) => void;
+  onBatchStart: (files: File[], language: Language, settings: TranscriptionSettings) => void; // more than one file was selected
+  onCancel: () => void; // aborts the transcription in progress
   onStateChange: (state: AppState) => void;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComplete, onStateChange }) => {
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, progress, onRecordingComplete, onBatchStart, onCancel, onStateChange }) => {
   const [mode, setMode] = useState<'record' | 'upload'>('record');
   const [language, setLanguage] = useState<Language>('Mixed');
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [glossaryId, setGlossaryId] = useState('');
+  const [showGlossaryManager, setShowGlossaryManager] = useState(false);
+  const [styles, setStyles] = useState<TranscriptStyle[]>(loadStyles);
+  const [styleId, setStyleId] = useState(DEFAULT_STYLE_ID);
+  const [showStyleManager, setShowStyleManager] = useState(false);
+  const [speakerCount, setSpeakerCount] = useState('');
+  const [speakerNames, setSpeakerNames] = useState('');
   const [duration, setDuration] = useState(0);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(loadPreprocessOptions);
+  const [preview, setPreview] = useState<PreprocessedAudio | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [liveEnabled, setLiveEnabled] = useState(false);
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(loadMicrophoneSettings);
+  const [microphones, setMicrophones] = useState<MicrophoneOption[]>([]);
+  const [showMicSettings, setShowMicSettings] = useState(false);
+  const [activeStream, setActiveStream] = useState<MediaStream | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [subState, setSubState] = useState<RecordingSubState>(RecordingSubState.STANDARD);
+  const [liveTranscript, setLiveTranscript] = useState<LiveTranscript>({ confirmed: [], provisional: [] });
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const timerIntervalRef = useRef<number | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  // Recorded time excluding pauses: completed stretches plus the one in progress
+  const elapsedBeforeRef = useRef(0);
+  const resumedAtRef = useRef(0);
+  // Crash-recovery copy of the recording; writes are chained so chunks land in order
+  const draftRef = useRef<RecordingDraft | null>(null);
+  const draftWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
+  const isMountedRef = useRef(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    const secs = Math.floor(seconds % 60);
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const refreshMicrophones = () => {
+    listMicrophones()
+      .then(setMicrophones)
+      .catch(error => console.warn("Could not list microphones:", error));
+  };
+
+  useEffect(() => {
+    refreshMicrophones();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshMicrophones);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshMicrophones);
+  }, []);
+
+  const updateMicSettings = (patch: Partial<MicrophoneSettings>) => {
+    const next = { ...micSettings, ...patch };
+    saveMicrophoneSettings(next);
+    setMicSettings(next);
+  };
+
+  const startTimer = () => {
+    resumedAtRef.current = Date.now();
+    timerIntervalRef.current = window.setInterval(() => {
+      setDuration(Math.floor((elapsedBeforeRef.current + Date.now() - resumedAtRef.current) / 1000));
+    }, 250);
+  };
+
+  const elapsedSeconds = () =>
+    (elapsedBeforeRef.current + (timerIntervalRef.current ? Date.now() - resumedAtRef.current : 0)) / 1000;
+
+  const handleDraftError = (error: unknown) => {
+    console.error("Failed to back up recording:", error);
+    draftRef.current = null;
+    setStorageWarning("Backup storage is full or unavailable. The recording continues, but won't be recoverable if the tab closes.");
+  };
+
+  const stopTimer = () => {
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+      timerIntervalRef.current = null;
+    }
+    elapsedBeforeRef.current += Date.now() - resumedAtRef.current;
+  };
+
+  const getTranscriptionSettings = (): TranscriptionSettings => {
+    const count = parseInt(speakerCount, 10);
+    const names = speakerNames.split(/[,،\n]/).map(name => name.trim()).filter(Boolean);
+    const speakerHints: SpeakerHints | undefined = count > 0 || names.length > 0
+      ? { expectedCount: count > 0 ? count : null, names }
+      : undefined;
+    return { glossaryId: glossaryId || undefined, styleId, speakerHints };
+  };
+
   // Recording Logic
   const startRecording = async () => {
+    const settings = getTranscriptionSettings();
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(micSettings) });
+      if (!isMountedRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      // Device labels only become available once permission has been granted
+      refreshMicrophones();
       const mimeType = getMimeType();
       
       const mediaRecorder = new MediaRecorder(stream, { mimeType });
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
+      const draftId = createDraftId();
+      const liveUsage = trackUsage('live');
+      draftRef.current = null;
+      setStorageWarning(null);
+      draftWritesRef.current = createDraft(draftId, mimeType, language)
+        .then(draft => { draftRef.current = draft; })
+        .catch(handleDraftError);
+
+      getStorageUsage().then(usage => {
+        if (usage && usage.quotaBytes - usage.usedBytes < LOW_STORAGE_BYTES) {
+          setStorageWarning("Browser storage is almost full. Long recordings may not be fully backed up; free space in History.");
+        }
+      }).catch(() => undefined);
+
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
+          const index = chunksRef.current.length;
           chunksRef.current.push(e.data);
+          const seconds = elapsedSeconds();
+          draftWritesRef.current = draftWritesRef.current.then(async () => {
+            if (!draftRef.current) return;
+            draftRef.current = await appendDraftChunk(draftRef.current, index, e.data, seconds);
+          }).catch(handleDraftError);
         }
       };
 
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
         const blob = new Blob(chunksRef.current, { type: mimeType });
-        onRecordingComplete(blob, language);
+        // The last chunk arrives just before stop; make sure the backup has it
+        await draftWritesRef.current;
+        const backedUp = draftRef.current !== null;
+        draftRef.current = null;
         stream.getTracks().forEach(track => track.stop());
+        setActiveStream(null);
+        setIsPaused(false);
+
+        // Partials are handed over as a fallback in case the final pass fails
+        let partials: LiveTranscript | undefined;
+        if (liveTranscriberRef.current) {
+          partials = await liveTranscriberRef.current.stop();
+          liveTranscriberRef.current = null;
+        }
+        onRecordingComplete(blob, language, {
+          ...settings,
+          liveTranscript: partials,
+          draftId: backedUp ? draftId : undefined,
+          liveUsageIds: liveUsage.ids,
+        });
       };
 
-      mediaRecorder.start();
+      mediaRecorder.start(TIMESLICE_MS);
+      setActiveStream(stream);
+      setIsPaused(false);
       onStateChange(AppState.RECORDING);
-      
+      setSubState(RecordingSubState.STANDARD);
+      setLiveTranscript({ confirmed: [], provisional: [] });
       setDuration(0);
-      timerIntervalRef.current = window.setInterval(() => {
-        setDuration(prev => prev + 1);
-      }, 1000);
+      elapsedBeforeRef.current = 0;
+      startTimer();
 
+      if (liveEnabled) {
+        try {
+          const transcriber = await startLiveTranscription(stream, {
+            language,
+            glossary: getGlossary(glossaryId),
+            speakerHints: settings.speakerHints,
+            style: getStyle(styleId),
+            onUpdate: setLiveTranscript,
+            onUsage: liveUsage.onUsage,
+          });
+          // The recording may have been stopped, or the recorder closed, while the audio tap was starting
+          if (!isMountedRef.current || mediaRecorder.state === 'inactive') {
+            transcriber.stop();
+            return;
+          }
+          transcriber.setPaused(mediaRecorder.state === 'paused');
+          liveTranscriberRef.current = transcriber;
+          setSubState(RecordingSubState.LIVE_TRANSCRIBING);
+        } catch (err) {
+          // Recording continues normally; only the live preview is unavailable
+          console.warn("Live transcription unavailable:", err);
+        }
+      }
     } catch (err) {
       console.error("Error accessing microphone:", err);
       alert("Could not access microphone. Please ensure permissions are granted.");
@@ -64,49 +250,125 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      mediaRecorderRef.current.stop();
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-      }
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      // A paused recorder already stopped the timer
+      if (recorder.state === 'recording') stopTimer();
+      recorder.stop();
       onStateChange(AppState.PROCESSING);
     }
   };
 
+  const togglePause = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+    if (recorder.state === 'recording') {
+      recorder.pause();
+      stopTimer();
+      liveTranscriberRef.current?.setPaused(true);
+      setIsPaused(true);
+    } else if (recorder.state === 'paused') {
+      recorder.resume();
+      startTimer();
+      liveTranscriberRef.current?.setPaused(false);
+      setIsPaused(false);
+    }
+  };
+
   // File Upload Logic
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (file.type.startsWith('audio/') || file.type.startsWith('video/')) {
-        setSelectedFile(file);
-      } else {
-        alert("Please select a valid audio or video file.");
-      }
+  const addFiles = (files: File[]) => {
+    const valid = files.filter(file => file.type.startsWith('audio/') || file.type.startsWith('video/'));
+    if (valid.length < files.length) {
+      alert(`${files.length - valid.length} file(s) skipped. Please select valid audio or video files.`);
     }
+    if (valid.length > 0) setSelectedFiles(prev => [...prev, ...valid]);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []));
+    event.target.value = ''; // allow selecting the same file again
   };
 
-  const processFile = () => {
-    if (selectedFile) {
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const processFiles = () => {
+    if (selectedFiles.length === 1) {
       onStateChange(AppState.PROCESSING);
-      onRecordingComplete(selectedFile, language);
+      onRecordingComplete(selectedFiles[0], language, getTranscriptionSettings());
+    } else if (selectedFiles.length > 1) {
+      onBatchStart(selectedFiles, language, getTranscriptionSettings());
+      setSelectedFiles([]);
     }
   };
 
-  const clearFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeFile = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const updatePreprocessOptions = (patch: Partial<PreprocessOptions>) => {
+    const next = { ...preprocessOptions, ...patch };
+    savePreprocessOptions(next);
+    setPreprocessOptions(next);
   };
 
-  // Cleanup
+  // Before/after preview for a single selected file. The result is cached, so
+  // starting the transcription afterwards doesn't process the file twice.
+  const previewFile = selectedFiles.length === 1 && preprocessOptions.enabled ? selectedFiles[0] : null;
+  useEffect(() => {
+    setPreview(null);
+    if (!previewFile) return;
+
+    let cancelled = false;
+    setIsPreviewing(true);
+    preprocessAudio(previewFile, preprocessOptions)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(error => console.warn("Could not preprocess file for preview:", error))
+      .finally(() => { if (!cancelled) setIsPreviewing(false); });
+    return () => { cancelled = true; };
+  }, [previewFile, preprocessOptions]);
+
+  const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+  // Cleanup. Leaving mid-recording (e.g. opening a session from history) must release the microphone;
+  // the recording is dropped, but its draft stays available for recovery.
   useEffect(() => {
+    isMountedRef.current = true;
     return () => {
+      isMountedRef.current = false;
       if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      const recorder = mediaRecorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        recorder.stream.getTracks().forEach(track => track.stop());
+        mediaRecorderRef.current = null;
+      }
+      // Stops the PCM tap and any further passes
+      liveTranscriberRef.current?.stop();
+      liveTranscriberRef.current = null;
     };
   }, []);
 
   const isRecording = appState === AppState.RECORDING;
   const isProcessing = appState === AppState.PROCESSING;
 
+  // Max-duration guard
+  useEffect(() => {
+    if (isRecording && duration >= MAX_RECORDING_SECONDS) stopRecording();
+  }, [isRecording, duration]);
+
+  // Closing the tab mid-recording loses at most the last timeslice, but warn anyway
+  useEffect(() => {
+    if (!isRecording) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isRecording]);
+
   return (
     <div className="flex flex-col items-center justify-center p-6 bg-white rounded-2xl shadow-sm border border-slate-100 w-full max-w-lg mx-auto transition-all duration-300">
       
@@ -131,25 +393,201 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
               }`}
             >
               <Upload className="w-4 h-4 mr-2" />
-              Upload File
+              Upload Files
             </button>
           </div>
 
-          {/* Language Selector */}
+          {/* Language and Style Selectors */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col space-y-1.5">
+              <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Audio Language</label>
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm appearance-none"
+                style={{ backgroundImage: 'none' }} // Remove default arrow if needed, but standard is fine
+              >
+                <option value="Mixed">Mixed (Siraiki, Urdu & English)</option>
+                <option value="Siraiki">Siraiki Only</option>
+                <option value="Urdu">Urdu Only</option>
+                <option value="English">English Only</option>
+              </select>
+            </div>
+
+            <div className="flex flex-col space-y-1.5">
+              <div className="flex items-center justify-between">
+                <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Style</label>
+                <button
+                  onClick={() => setShowStyleManager(true)}
+                  className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5 mr-1" />
+                  Manage
+                </button>
+              </div>
+              <select
+                value={styleId}
+                onChange={(e) => setStyleId(e.target.value)}
+                title={styles.find(style => style.id === styleId)?.description}
+                className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm appearance-none"
+              >
+                {styles.map(style => (
+                  <option key={style.id} value={style.id}>{style.name || 'Untitled'}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Glossary Selector */}
           <div className="flex flex-col space-y-1.5">
-            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Audio Language</label>
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Glossary</label>
+              <button
+                onClick={() => setShowGlossaryManager(true)}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+              >
+                <BookOpen className="w-3.5 h-3.5 mr-1" />
+                Manage
+              </button>
+            </div>
             <select
-              value={language}
-              onChange={(e) => setLanguage(e.target.value as Language)}
+              value={glossaryId}
+              onChange={(e) => setGlossaryId(e.target.value)}
               className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm appearance-none"
-              style={{ backgroundImage: 'none' }} // Remove default arrow if needed, but standard is fine
             >
-              <option value="Mixed">Mixed (Siraiki, Urdu & English)</option>
-              <option value="Siraiki">Siraiki Only</option>
-              <option value="Urdu">Urdu Only</option>
-              <option value="English">English Only</option>
+              <option value="">No glossary</option>
+              {glossaries.map(glossary => (
+                <option key={glossary.id} value={glossary.id}>{glossary.name}</option>
+              ))}
             </select>
           </div>
+
+          {/* Speaker Hints */}
+          <div className="flex flex-col space-y-1.5">
+            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Speakers (optional)</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                max={20}
+                value={speakerCount}
+                onChange={(e) => setSpeakerCount(e.target.value)}
+                placeholder="Auto"
+                title="Expected number of speakers"
+                className="w-20 p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm"
+              />
+              <input
+                dir="auto"
+                value={speakerNames}
+                onChange={(e) => setSpeakerNames(e.target.value)}
+                placeholder="Names, comma separated"
+                className="flex-1 min-w-0 p-2.5 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all text-sm"
+              />
+            </div>
+          </div>
+
+          {/* Audio Preprocessing */}
+          <div className="p-2.5 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="flex items-center text-sm text-slate-700">
+                <Wand2 className="w-4 h-4 mr-2 text-blue-600" />
+                Optimize audio before upload
+              </span>
+              <input
+                type="checkbox"
+                checked={preprocessOptions.enabled}
+                onChange={(e) => updatePreprocessOptions({ enabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-600"
+              />
+            </label>
+            {preprocessOptions.enabled && (
+              <div className="flex items-center gap-4 pl-6 text-xs text-slate-500">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={preprocessOptions.trimSilence}
+                    onChange={(e) => updatePreprocessOptions({ trimSilence: e.target.checked })}
+                    className="mr-1.5 accent-blue-600"
+                  />
+                  Trim long silences
+                </label>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={preprocessOptions.normalize}
+                    onChange={(e) => updatePreprocessOptions({ normalize: e.target.checked })}
+                    className="mr-1.5 accent-blue-600"
+                  />
+                  Normalize volume
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Live Transcription Toggle */}
+          {mode === 'record' && (
+            <label className="flex items-center justify-between p-2.5 bg-slate-50 border border-slate-200 rounded-lg cursor-pointer">
+              <span className="flex items-center text-sm text-slate-700">
+                <Radio className="w-4 h-4 mr-2 text-blue-600" />
+                Live transcription while recording
+              </span>
+              <input
+                type="checkbox"
+                checked={liveEnabled}
+                onChange={(e) => setLiveEnabled(e.target.checked)}
+                className="w-4 h-4 accent-blue-600"
+              />
+            </label>
+          )}
+
+          {/* Microphone Settings */}
+          {mode === 'record' && (
+            <div className="p-2.5 bg-slate-50 border border-slate-200 rounded-lg space-y-2">
+              <button
+                onClick={() => setShowMicSettings(prev => !prev)}
+                className="w-full flex items-center justify-between text-sm text-slate-700"
+              >
+                <span className="flex items-center">
+                  <Settings2 className="w-4 h-4 mr-2 text-blue-600" />
+                  Microphone
+                </span>
+                <span className="text-xs text-slate-500 truncate max-w-[55%]">
+                  {microphones.find(mic => mic.deviceId === micSettings.deviceId)?.label || 'System default'}
+                </span>
+              </button>
+              {showMicSettings && (
+                <div className="space-y-2 pt-1">
+                  <select
+                    value={micSettings.deviceId}
+                    onChange={(e) => updateMicSettings({ deviceId: e.target.value })}
+                    className="w-full p-2 bg-white border border-slate-200 rounded-lg text-slate-700 text-sm"
+                  >
+                    <option value="">System default</option>
+                    {microphones.map(mic => (
+                      <option key={mic.deviceId} value={mic.deviceId}>{mic.label}</option>
+                    ))}
+                  </select>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 pl-1 text-xs text-slate-500">
+                    {([
+                      ['echoCancellation', 'Echo cancellation'],
+                      ['noiseSuppression', 'Noise suppression'],
+                      ['autoGainControl', 'Auto gain'],
+                    ] as const).map(([key, label]) => (
+                      <label key={key} className="flex items-center cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={micSettings[key]}
+                          onChange={(e) => updateMicSettings({ [key]: e.target.checked })}
+                          className="mr-1.5 accent-blue-600"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -162,7 +600,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
                 <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
              </div>
              <p className="text-slate-600 font-medium">Transcribing {mode === 'record' ? 'recording' : 'file'}...</p>
-             <p className="text-slate-400 text-sm mt-1">This might take a moment.</p>
+             {progress && progress.totalChunks > 1 ? (
+               <div className="w-56 mt-3">
+                 <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                   <div
+                     className="h-full bg-blue-600 transition-all duration-500"
+                     style={{ width: `${(progress.completedChunks / progress.totalChunks) * 100}%` }}
+                   />
+                 </div>
+                 <p className="text-slate-400 text-sm mt-2 text-center">
+                   Chunk {Math.min(progress.completedChunks + 1, progress.totalChunks)} of {progress.totalChunks}
+                 </p>
+               </div>
+             ) : (
+               <p className="text-slate-400 text-sm mt-1">This might take a moment.</p>
+             )}
+             <button
+               onClick={onCancel}
+               className="mt-6 px-4 py-2 text-sm font-medium text-slate-500 hover:text-red-600 border border-slate-200 hover:border-red-200 rounded-lg transition-colors"
+             >
+               Cancel
+             </button>
           </div>
         ) : mode === 'record' ? (
           <>
@@ -171,19 +629,49 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
                 {formatTime(duration)}
               </div>
               <div className="mt-2 text-sm text-slate-500 font-medium h-6">
-                {isRecording ? 'Recording...' : 'Ready to Record'}
+                {isRecording
+                  ? isPaused
+                    ? 'Paused'
+                    : subState === RecordingSubState.LIVE_TRANSCRIBING ? 'Recording & transcribing live...' : 'Recording...'
+                  : 'Ready to Record'}
               </div>
             </div>
 
+            {isRecording && activeStream && <LevelMeter stream={activeStream} paused={isPaused} />}
+
+            {isRecording && MAX_RECORDING_SECONDS - duration <= MAX_DURATION_WARNING_SECONDS && (
+              <p className="mb-4 text-xs text-amber-600 text-center">
+                Recording stops automatically in {formatTime(MAX_RECORDING_SECONDS - duration)}.
+              </p>
+            )}
+
+            {isRecording && storageWarning && (
+              <div className="mb-6 flex items-start text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2.5 max-w-sm">
+                <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+                {storageWarning}
+              </div>
+            )}
+
             <div className="flex items-center justify-center">
               {isRecording ? (
-                <button
-                  onClick={stopRecording}
-                  className="flex items-center justify-center w-20 h-20 rounded-full bg-slate-900 hover:bg-slate-800 text-white shadow-lg recording-pulse transition-all duration-200 active:scale-95"
-                  aria-label="Stop Recording"
-                >
-                  <Square className="w-8 h-8 fill-current" />
-                </button>
+                <div className="flex items-center gap-6">
+                  <button
+                    onClick={togglePause}
+                    className="flex items-center justify-center w-14 h-14 rounded-full bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 shadow-sm transition-all duration-200 active:scale-95"
+                    aria-label={isPaused ? 'Resume Recording' : 'Pause Recording'}
+                  >
+                    {isPaused ? <Play className="w-6 h-6 fill-current" /> : <Pause className="w-6 h-6 fill-current" />}
+                  </button>
+                  <button
+                    onClick={stopRecording}
+                    className={`flex items-center justify-center w-20 h-20 rounded-full bg-slate-900 hover:bg-slate-800 text-white shadow-lg transition-all duration-200 active:scale-95 ${isPaused ? '' : 'recording-pulse'}`}
+                    aria-label="Stop Recording"
+                  >
+                    <Square className="w-8 h-8 fill-current" />
+                  </button>
+                  {/* Balances the pause button so stop stays centred */}
+                  <div className="w-14" />
+                </div>
               ) : (
                 <button
                   onClick={startRecording}
@@ -195,49 +683,87 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
                 </button>
               )}
             </div>
+
+            {isRecording && subState === RecordingSubState.LIVE_TRANSCRIBING && (
+              <LiveTranscriptView transcript={liveTranscript} />
+            )}
           </>
         ) : (
-          <div className="w-full">
-            {!selectedFile ? (
-              <div 
-                onClick={() => fileInputRef.current?.click()}
-                className="w-full h-48 border-2 border-dashed border-slate-300 rounded-xl bg-slate-50 hover:bg-slate-100 hover:border-blue-400 transition-all cursor-pointer flex flex-col items-center justify-center group"
-              >
-                <div className="p-3 bg-white rounded-full shadow-sm mb-3 group-hover:scale-110 transition-transform">
-                  <Upload className="w-6 h-6 text-blue-500" />
-                </div>
-                <p className="text-sm font-medium text-slate-600">Click to upload audio</p>
-                <p className="text-xs text-slate-400 mt-1">MP3, WAV, M4A, MP4 supported</p>
-                <input 
-                  type="file" 
-                  ref={fileInputRef}
-                  className="hidden" 
-                  accept="audio/*,video/*"
-                  onChange={handleFileChange}
-                />
+          <div className="w-full space-y-3">
+            <div
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`w-full border-2 border-dashed rounded-xl transition-all cursor-pointer flex flex-col items-center justify-center group ${
+                selectedFiles.length > 0 ? 'h-24' : 'h-48'
+              } ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-slate-300 bg-slate-50 hover:bg-slate-100 hover:border-blue-400'}`}
+            >
+              <div className="p-3 bg-white rounded-full shadow-sm mb-3 group-hover:scale-110 transition-transform">
+                <Upload className="w-6 h-6 text-blue-500" />
               </div>
-            ) : (
+              <p className="text-sm font-medium text-slate-600">
+                {selectedFiles.length > 0 ? 'Add more files' : 'Click or drop audio files here'}
+              </p>
+              {selectedFiles.length === 0 && <p className="text-xs text-slate-400 mt-1">MP3, WAV, M4A, MP4 supported</p>}
+              <input 
+                type="file" 
+                ref={fileInputRef}
+                className="hidden" 
+                accept="audio/*,video/*"
+                multiple
+                onChange={handleFileChange}
+              />
+            </div>
+
+            {selectedFiles.length > 0 && (
               <div className="w-full bg-slate-50 rounded-xl p-4 border border-slate-200">
-                 <div className="flex items-start justify-between mb-4">
-                    <div className="flex items-center space-x-3 overflow-hidden">
-                       <div className="p-2 bg-blue-100 rounded-lg shrink-0">
-                          <FileAudio className="w-6 h-6 text-blue-600" />
-                       </div>
-                       <div className="min-w-0">
-                          <p className="text-sm font-semibold text-slate-800 truncate">{selectedFile.name}</p>
-                          <p className="text-xs text-slate-500">{(selectedFile.size / (1024 * 1024)).toFixed(2)} MB</p>
-                       </div>
-                    </div>
-                    <button onClick={clearFile} className="p-1 hover:bg-slate-200 rounded-full text-slate-500 hover:text-red-500 transition-colors">
-                       <X className="w-4 h-4" />
-                    </button>
-                 </div>
+                 <ul className="space-y-3 mb-4 max-h-60 overflow-y-auto custom-scrollbar">
+                   {selectedFiles.map((file, index) => (
+                     <li key={`${file.name}-${index}`} className="flex items-start justify-between">
+                        <div className="flex items-center space-x-3 overflow-hidden">
+                           <div className="p-2 bg-blue-100 rounded-lg shrink-0">
+                              <FileAudio className="w-6 h-6 text-blue-600" />
+                           </div>
+                           <div className="min-w-0">
+                              <p className="text-sm font-semibold text-slate-800 truncate">{file.name}</p>
+                              <p className="text-xs text-slate-500">{(file.size / (1024 * 1024)).toFixed(2)} MB</p>
+                           </div>
+                        </div>
+                        <button onClick={() => removeFile(index)} className="p-1 hover:bg-slate-200 rounded-full text-slate-500 hover:text-red-500 transition-colors">
+                           <X className="w-4 h-4" />
+                        </button>
+                     </li>
+                   ))}
+                 </ul>
+
+                 {previewFile && (
+                   <div className="mb-4 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs text-slate-500">
+                     {isPreviewing ? (
+                       <span className="flex items-center">
+                         <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                         Optimizing audio...
+                       </span>
+                     ) : preview ? (
+                       <span className="flex items-center flex-wrap gap-1">
+                         <span>{formatMegabytes(preview.originalSize)} · {formatTime(preview.originalDuration)}</span>
+                         <ArrowRight className="w-3.5 h-3.5 text-slate-400" />
+                         <span className="font-medium text-green-700">
+                           {formatMegabytes(preview.wav.size)} · {formatTime(preview.audio.duration)}
+                         </span>
+                         <span className="text-slate-400">(mono 16 kHz WAV)</span>
+                       </span>
+                     ) : (
+                       <span>This file can't be optimized in the browser and will be sent as is.</span>
+                     )}
+                   </div>
+                 )}
                  
                  <button 
-                   onClick={processFile}
+                   onClick={processFiles}
                    className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-md hover:shadow-lg transition-all active:translate-y-0.5 flex items-center justify-center"
                  >
-                   Start Transcription
+                   {selectedFiles.length > 1 ? `Transcribe ${selectedFiles.length} Files` : 'Start Transcription'}
                  </button>
               </div>
             )}
@@ -248,9 +774,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ appState, onRecordingComp
       <div className="mt-8 text-center text-xs text-slate-400 max-w-xs">
          {mode === 'record' 
            ? "Speak clearly. The AI will detect speech based on your language selection."
-           : "Upload a clear audio file. Large files may take longer to process."
+           : "Upload clear audio files. Select several to transcribe them as a batch."
          }
       </div>
+
+      <GlossaryManager
+        isOpen={showGlossaryManager}
+        onClose={(updated) => {
+          setGlossaries(updated);
+          if (!updated.some(glossary => glossary.id === glossaryId)) setGlossaryId('');
+          setShowGlossaryManager(false);
+        }}
+      />
+
+      <StyleManager
+        isOpen={showStyleManager}
+        onClose={(updated) => {
+          setStyles(updated);
+          if (!updated.some(style => style.id === styleId)) setStyleId(DEFAULT_STYLE_ID);
+          setShowStyleManager(false);
+        }}
+      />
     </div>
   );
 };
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import {
+  AlertCircle, Archive, Ban, CheckCircle2, Clock, FileAudio, FolderOpen, Loader2, Plus, RotateCcw, Trash2, X,
+} from 'lucide-react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { BatchQueue as BatchQueueState, MAX_BATCH_CONCURRENCY } from '../hooks/useBatchQueue';
+import { downloadTranscriptsZip, EXPORTERS } from '../services/exportService';
+
+interface BatchQueueProps {
+  queue: BatchQueueState;
+  onOpenJob: (job: BatchJob) => void;
+  onAddFiles: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  queued: { label: 'Queued', className: 'text-slate-500', icon: <Clock className="w-4 h-4" /> },
+  processing: { label: 'Processing', className: 'text-blue-600', icon: <Loader2 className="w-4 h-4 animate-spin" /> },
+  done: { label: 'Done', className: 'text-green-600', icon: <CheckCircle2 className="w-4 h-4" /> },
+  failed: { label: 'Failed', className: 'text-red-600', icon: <AlertCircle className="w-4 h-4" /> },
+  cancelled: { label: 'Cancelled', className: 'text-slate-400', icon: <Ban className="w-4 h-4" /> },
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ queue, onOpenJob, onAddFiles, onClose }) => {
+  const [zipFormat, setZipFormat] = useState('docx');
+  const [isZipping, setIsZipping] = useState(false);
+  const { jobs } = queue;
+
+  const count = (status: BatchJobStatus) => jobs.filter(job => job.status === status).length;
+  const doneJobs = jobs.filter(job => job.status === 'done' && job.transcript);
+  const activeCount = count('queued') + count('processing');
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      await downloadTranscriptsZip(
+        doneJobs.map(job => ({ name: baseName(job.file.name), transcript: job.transcript! })),
+        zipFormat
+      );
+    } catch (error) {
+      console.error("Failed to build ZIP:", error);
+      alert("Failed to create the ZIP file. Please try again.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (activeCount > 0 && !window.confirm(`Cancel ${activeCount} unfinished file(s) and clear the queue?`)) return;
+    queue.clear();
+    onClose();
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap items-center justify-between gap-3 bg-slate-50/50">
+        <div>
+          <h2 className="font-semibold text-slate-800">Batch Transcription</h2>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {count('done')} of {jobs.length} done
+            {count('failed') > 0 && ` · ${count('failed')} failed`}
+            {activeCount > 0 && ` · ${activeCount} remaining`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center text-xs text-slate-500">
+            Parallel
+            <select
+              value={queue.concurrency}
+              onChange={(e) => queue.setConcurrency(parseInt(e.target.value, 10))}
+              className="ml-1.5 p-1 bg-white border border-slate-200 rounded text-slate-700 text-xs"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onAddFiles}
+            className="flex items-center px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add Files
+          </button>
+          <button
+            onClick={handleClear}
+            className="px-3 py-1.5 text-slate-500 hover:text-red-600 text-sm font-medium transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-100 max-h-[480px] overflow-y-auto custom-scrollbar">
+        {jobs.map(job => {
+          const status = STATUS_STYLES[job.status];
+          return (
+            <li key={job.id} className="px-6 py-3 flex items-center gap-3">
+              <div className="p-2 bg-blue-50 rounded-lg shrink-0">
+                <FileAudio className="w-5 h-5 text-blue-600" />
+              </div>
+
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium text-slate-800 truncate">{job.file.name}</p>
+                <p className={`flex items-center text-xs mt-0.5 ${status.className}`}>
+                  {status.icon}
+                  <span className="ml-1">
+                    {status.label}
+                    {job.status === 'processing' && job.progress && job.progress.totalChunks > 1 &&
+                      ` · chunk ${Math.min(job.progress.completedChunks + 1, job.progress.totalChunks)} of ${job.progress.totalChunks}`}
+                  </span>
+                  <span className="ml-2 text-slate-400">{(job.file.size / (1024 * 1024)).toFixed(1)} MB · {job.language}</span>
+                </p>
+                {job.error && <p className="text-xs text-red-500 mt-0.5 truncate" title={job.error}>{job.error}</p>}
+              </div>
+
+              <div className="flex items-center shrink-0">
+                {job.status === 'done' && (
+                  <button onClick={() => onOpenJob(job)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded" title="Open">
+                    <FolderOpen className="w-4 h-4" />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => queue.retry(job.id)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded" title="Retry">
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+                {(job.status === 'queued' || job.status === 'processing') ? (
+                  <button onClick={() => queue.cancel(job.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded" title="Cancel">
+                    <X className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button onClick={() => queue.remove(job.id)} className="p-1.5 text-slate-400 hover:text-red-600 rounded" title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="px-6 py-4 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          {count('failed') > 0 && (
+            <button
+              onClick={queue.retryFailed}
+              className="flex items-center text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              <RotateCcw className="w-4 h-4 mr-1.5" />
+              Retry failed
+            </button>
+          )}
+          {activeCount > 0 && (
+            <button
+              onClick={queue.cancelAll}
+              className="flex items-center text-sm font-medium text-slate-500 hover:text-red-600 ml-3"
+            >
+              <Ban className="w-4 h-4 mr-1.5" />
+              Cancel all
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={zipFormat}
+            onChange={(e) => setZipFormat(e.target.value)}
+            className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+          >
+            {EXPORTERS.filter(exporter => !exporter.isAvailable).map(exporter => (
+              <option key={exporter.id} value={exporter.id}>{exporter.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleDownloadZip}
+            disabled={doneJobs.length === 0 || isZipping}
+            className="flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+          >
+            {isZipping ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+            Download all as ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
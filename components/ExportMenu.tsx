@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, FileDown, Loader2 } from 'lucide-react';
+import { TranscriptionResult } from '../types';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  downloadTranscript,
+  ExportCategory,
+  EXPORTERS,
+  ExportOptions,
+} from '../services/exportService';
+import { SubtitleOptions } from '../services/subtitleService';
+
+interface ExportMenuProps {
+  transcript: TranscriptionResult;
+}
+
+const SECTIONS: { category: ExportCategory; title: string }[] = [
+  { category: 'document', title: 'Documents' },
+  { category: 'data', title: 'Data' },
+  { category: 'subtitle', title: 'Subtitles' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ transcript }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleDownload = async (id: string) => {
+    setExportingId(id);
+    try {
+      await downloadTranscript(transcript, id, options);
+      setIsOpen(false);
+    } catch (error) {
+      console.error(`Export to ${id} failed:`, error);
+      alert("Failed to export the transcript. Please try again.");
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const updateSubtitles = (patch: Partial<SubtitleOptions>) => {
+    setOptions(prev => ({ ...prev, subtitles: { ...prev.subtitles, ...patch } }));
+  };
+
+  const updateNumber = (key: 'maxCharsPerLine' | 'maxLinesPerCue', value: string) => {
+    const num = parseInt(value, 10);
+    if (!isNaN(num) && num > 0) updateSubtitles({ [key]: num });
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+      >
+        <FileDown className="w-4 h-4 mr-2" />
+        Export
+        <ChevronDown className="w-3.5 h-3.5 ml-1" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 max-h-[70vh] overflow-y-auto custom-scrollbar bg-white rounded-xl shadow-lg border border-slate-200 p-3 z-20 space-y-3">
+          {SECTIONS.map(section => (
+            <div key={section.category} className="space-y-1">
+              <p className="px-3 text-[11px] font-semibold uppercase tracking-wide text-slate-400">{section.title}</p>
+              {EXPORTERS.filter(exporter => exporter.category === section.category && (exporter.isAvailable?.(transcript) ?? true)).map(exporter => (
+                <button
+                  key={exporter.id}
+                  onClick={() => handleDownload(exporter.id)}
+                  disabled={exportingId !== null}
+                  className="w-full flex items-center justify-between text-left px-3 py-2 rounded-lg text-sm text-slate-700 hover:bg-slate-100 disabled:opacity-60 transition-colors"
+                >
+                  {exporter.label}
+                  {exportingId === exporter.id && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-400" />}
+                </button>
+              ))}
+            </div>
+          ))}
+
+          <div className="pt-3 border-t border-slate-100 space-y-2">
+            <label className="flex items-center justify-between text-xs text-slate-500 cursor-pointer">
+              Add BOM to .txt (Windows Notepad)
+              <input
+                type="checkbox"
+                checked={options.textBom}
+                onChange={(e) => setOptions(prev => ({ ...prev, textBom: e.target.checked }))}
+                className="accent-blue-600"
+              />
+            </label>
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <label htmlFor="subtitle-chars">Subtitle characters per line</label>
+              <input
+                id="subtitle-chars"
+                type="number"
+                min={10}
+                max={80}
+                value={options.subtitles.maxCharsPerLine}
+                onChange={(e) => updateNumber('maxCharsPerLine', e.target.value)}
+                className="w-16 p-1 bg-slate-50 border border-slate-200 rounded text-slate-700 text-right"
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <label htmlFor="subtitle-lines">Subtitle lines per cue</label>
+              <input
+                id="subtitle-lines"
+                type="number"
+                min={1}
+                max={3}
+                value={options.subtitles.maxLinesPerCue}
+                onChange={(e) => updateNumber('maxLinesPerCue', e.target.value)}
+                className="w-16 p-1 bg-slate-50 border border-slate-200 rounded text-slate-700 text-right"
+              />
+            </div>
+            <label className="flex items-center justify-between text-xs text-slate-500 cursor-pointer">
+              Include speaker names in subtitles
+              <input
+                type="checkbox"
+                checked={options.subtitles.includeSpeakers}
+                onChange={(e) => updateSubtitles({ includeSpeakers: e.target.checked })}
+                className="accent-blue-600"
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
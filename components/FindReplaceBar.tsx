@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, Replace, X } from 'lucide-react';
+import { SearchOptions } from '../utils/searchUtils';
+
+interface FindReplaceBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  hitCount: number;
+  exactHitCount: number; // hits that aren't spelling variants; only these are replaced all at once
+  currentIndex: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "flex-1 min-w-0 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({
+  query, onQueryChange, replacement, onReplacementChange, options, onOptionsChange,
+  hitCount, exactHitCount, currentIndex, onPrevious, onNext, onReplace, onReplaceAll, onClose,
+}) => {
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-slate-50/50 space-y-2" onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-2">
+        <input
+          ref={queryRef}
+          dir="auto"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Find in transcript"
+          className={inputClass}
+        />
+        <span className="w-16 text-center text-xs text-slate-500 whitespace-nowrap">
+          {query.trim() ? (hitCount > 0 ? `${currentIndex + 1} of ${hitCount}` : 'No results') : ''}
+        </span>
+        <button onClick={onPrevious} disabled={hitCount === 0} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-40" title="Previous (Shift+Enter)">
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button onClick={onNext} disabled={hitCount === 0} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-40" title="Next (Enter)">
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          dir="auto"
+          value={replacement}
+          onChange={(e) => onReplacementChange(e.target.value)}
+          placeholder="Replace with"
+          className={inputClass}
+        />
+        <button
+          onClick={onReplace}
+          disabled={hitCount === 0}
+          className="flex items-center px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg disabled:opacity-40"
+        >
+          <Replace className="w-3.5 h-3.5 mr-1" />
+          Replace
+        </button>
+        <button
+          onClick={onReplaceAll}
+          disabled={exactHitCount === 0}
+          className="px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg disabled:opacity-40"
+          title={exactHitCount < hitCount ? "Spelling variants are skipped; replace them one at a time" : undefined}
+        >
+          {exactHitCount < hitCount ? `Replace ${exactHitCount} exact` : 'Replace all'}
+        </button>
+      </div>
+
+      <label className="flex items-center text-xs text-slate-500 cursor-pointer w-fit">
+        <input
+          type="checkbox"
+          checked={options.fuzzyRoman}
+          onChange={(e) => onOptionsChange({ ...options, fuzzyRoman: e.target.checked })}
+          className="mr-1.5 accent-blue-600"
+        />
+        Match Roman Urdu spelling variants
+      </label>
+    </div>
+  );
+};
+
+export default FindReplaceBar;
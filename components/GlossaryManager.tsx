@@ -0,0 +1,225 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import { Glossary, GlossaryEntry, ReplacementRule } from '../types';
+import {
+  createGlossary,
+  createGlossaryEntry,
+  createReplacementRule,
+  glossaryFromCsv,
+  glossaryToCsv,
+  loadGlossaries,
+  saveGlossaries,
+} from '../services/glossaryService';
+import { saveBlob } from '../utils/fileUtils';
+
+interface GlossaryManagerProps {
+  isOpen: boolean;
+  onClose: (glossaries: Glossary[]) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ isOpen, onClose }) => {
+  const [glossaries, setGlossaries] = useState<Glossary[]>(loadGlossaries);
+  const [selectedId, setSelectedId] = useState<string | null>(() => glossaries[0]?.id || null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = glossaries.find(glossary => glossary.id === selectedId) || null;
+
+  const persist = (next: Glossary[]) => {
+    saveGlossaries(next);
+    setGlossaries(next);
+  };
+
+  const updateSelected = (patch: Partial<Glossary>) => {
+    if (!selected) return;
+    persist(glossaries.map(glossary =>
+      glossary.id === selected.id ? { ...glossary, ...patch, updatedAt: new Date().toISOString() } : glossary
+    ));
+  };
+
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) => {
+    if (!selected) return;
+    updateSelected({ entries: selected.entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)) });
+  };
+
+  const updateRule = (id: string, patch: Partial<ReplacementRule>) => {
+    if (!selected) return;
+    updateSelected({ rules: selected.rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) });
+  };
+
+  const handleCreate = () => {
+    const glossary = createGlossary(`Glossary ${glossaries.length + 1}`);
+    persist([...glossaries, glossary]);
+    setSelectedId(glossary.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete the glossary "${selected.name}"?`)) return;
+    const remaining = glossaries.filter(glossary => glossary.id !== selected.id);
+    persist(remaining);
+    setSelectedId(remaining[0]?.id || null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const glossary = glossaryFromCsv(file.name.replace(/\.csv$/i, ''), await file.text());
+      persist([...glossaries, glossary]);
+      setSelectedId(glossary.id);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Failed to import glossary.");
+    }
+  };
+
+  const handleExport = () => {
+    if (!selected) return;
+    // BOM so Excel opens the Urdu columns as UTF-8
+    const blob = new Blob(['﻿', glossaryToCsv(selected)], { type: 'text/csv;charset=utf-8' });
+    saveBlob(blob, `${selected.name}.csv`);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={() => onClose(glossaries)} />
+
+      <div className="relative w-full max-w-4xl max-h-[85vh] bg-white rounded-2xl shadow-xl flex flex-col overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-700">
+            <BookOpen className="w-5 h-5 text-blue-600" />
+            <span className="font-semibold text-sm uppercase tracking-wide">Glossaries</span>
+          </div>
+          <button onClick={() => onClose(glossaries)} className="p-1 hover:bg-slate-100 rounded-full text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 border-r border-slate-100 flex flex-col">
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+              {glossaries.map(glossary => (
+                <li key={glossary.id}>
+                  <button
+                    onClick={() => setSelectedId(glossary.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${
+                      glossary.id === selectedId ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    {glossary.name}
+                    <span className="block text-xs text-slate-400 font-normal">
+                      {glossary.entries.length} terms · {glossary.rules.length} rules
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-slate-100 space-y-1">
+              <button onClick={handleCreate} className="w-full flex items-center px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg">
+                <Plus className="w-4 h-4 mr-2" />
+                New glossary
+              </button>
+              <button onClick={() => importInputRef.current?.click()} className="w-full flex items-center px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg">
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </button>
+              <input ref={importInputRef} type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+            {!selected ? (
+              <p className="text-sm text-slate-400 text-center mt-12">
+                Create a glossary with names, places and terms the transcription should spell correctly.
+              </p>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    className={`${inputClass} font-semibold`}
+                  />
+                  <button onClick={handleExport} className="p-2 text-slate-400 hover:text-blue-600 rounded" title="Export CSV">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={handleDelete} className="p-2 text-slate-400 hover:text-red-600 rounded" title="Delete glossary">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <section className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Terms</h3>
+                  {selected.entries.length > 0 && (
+                    <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 text-xs text-slate-400 px-1">
+                      <span>Term</span><span>Urdu / Siraiki spelling</span><span>English spelling</span><span>Pronunciation hint</span><span />
+                    </div>
+                  )}
+                  {selected.entries.map(entry => (
+                    <div key={entry.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                      <input value={entry.term} onChange={(e) => updateEntry(entry.id, { term: e.target.value })} className={inputClass} />
+                      <input dir="rtl" value={entry.urduSpelling} onChange={(e) => updateEntry(entry.id, { urduSpelling: e.target.value })} className={inputClass} />
+                      <input value={entry.latinSpelling} onChange={(e) => updateEntry(entry.id, { latinSpelling: e.target.value })} className={inputClass} />
+                      <input value={entry.pronunciation} onChange={(e) => updateEntry(entry.id, { pronunciation: e.target.value })} className={inputClass} />
+                      <button
+                        onClick={() => updateSelected({ entries: selected.entries.filter(e => e.id !== entry.id) })}
+                        className="p-1.5 text-slate-400 hover:text-red-600 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateSelected({ entries: [...selected.entries, createGlossaryEntry()] })}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add term
+                  </button>
+                </section>
+
+                <section className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Replacement rules</h3>
+                  <p className="text-xs text-slate-400">Applied to the transcript after transcription, in order.</p>
+                  {selected.rules.map(rule => (
+                    <div key={rule.id} className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+                      <input dir="auto" placeholder="Find" value={rule.find} onChange={(e) => updateRule(rule.id, { find: e.target.value })} className={inputClass} />
+                      <input dir="auto" placeholder="Replace with" value={rule.replace} onChange={(e) => updateRule(rule.id, { replace: e.target.value })} className={inputClass} />
+                      <label className="flex items-center text-xs text-slate-500 cursor-pointer whitespace-nowrap">
+                        <input
+                          type="checkbox"
+                          checked={rule.wholeWord}
+                          onChange={(e) => updateRule(rule.id, { wholeWord: e.target.checked })}
+                          className="mr-1.5 accent-blue-600"
+                        />
+                        Whole word
+                      </label>
+                      <button
+                        onClick={() => updateSelected({ rules: selected.rules.filter(r => r.id !== rule.id) })}
+                        className="p-1.5 text-slate-400 hover:text-red-600 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateSelected({ rules: [...selected.rules, createReplacementRule()] })}
+                    className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add rule
+                  </button>
+                </section>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryManager;
@@ -1,7 +1,21 @@
-import React from 'react';
-import { Mic, FileText } from 'lucide-react';
+import React, { useState } from 'react';
+import { Mic, Settings, History, BarChart3 } from 'lucide-react';
+import ProviderSettings from './ProviderSettings';
+import UsageDashboard from './UsageDashboard';
+import { PROVIDER_OPTIONS, ProviderSettings as ProviderSettingsValue } from '../services/transcriptionProvider';
+
+interface HeaderProps {
+  providerSettings: ProviderSettingsValue;
+  onProviderSettingsChange: (settings: ProviderSettingsValue) => void;
+  onOpenHistory: () => void;
+  isHistoryDisabled?: boolean; // while recording or transcribing, when opening a session would drop the work
+}
+
+const Header: React.FC<HeaderProps> = ({ providerSettings, onProviderSettingsChange, onOpenHistory, isHistoryDisabled }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const providerName = PROVIDER_OPTIONS.find(option => option.id === providerSettings.providerId)?.name;
 
-const Header: React.FC = () => {
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-5xl mx-auto px-4 sm:px-6 h-16 flex items-center justify-between">
@@ -14,9 +28,40 @@ const Header: React.FC = () => {
           </span>
         </div>
         <div className="flex items-center space-x-4 text-sm text-slate-500">
-          <div className="flex items-center space-x-1">
-            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-            <span>Gemini AI Active</span>
+          <button
+            onClick={onOpenHistory}
+            disabled={isHistoryDisabled}
+            className="flex items-center space-x-1.5 px-2 py-1 rounded-lg hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            title={isHistoryDisabled ? "Available once the recording or transcription has finished" : "Past sessions"}
+          >
+            <History className="w-4 h-4" />
+            <span className="hidden sm:inline">History</span>
+          </button>
+          <button
+            onClick={() => setShowUsage(true)}
+            className="flex items-center space-x-1.5 px-2 py-1 rounded-lg hover:bg-slate-100 transition-colors"
+            title="Usage and costs"
+          >
+            <BarChart3 className="w-4 h-4" />
+            <span className="hidden sm:inline">Usage</span>
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className="flex items-center space-x-1.5 px-2 py-1 rounded-lg hover:bg-slate-100 transition-colors"
+              title="Choose AI provider"
+            >
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+              <span>{providerName} Active</span>
+              <Settings className="w-4 h-4" />
+            </button>
+            {showSettings && (
+              <ProviderSettings
+                settings={providerSettings}
+                onChange={onProviderSettingsChange}
+                onClose={() => setShowSettings(false)}
+              />
+            )}
           </div>
           <div className="hidden sm:flex items-center space-x-1 border-l pl-4 border-slate-200">
              <span className="font-medium text-slate-700">Siraiki</span>
@@ -27,6 +72,7 @@ const Header: React.FC = () => {
           </div>
         </div>
       </div>
+      <UsageDashboard isOpen={showUsage} onClose={() => setShowUsage(false)} />
     </header>
   );
 };
@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { X, Search, Trash2, Pencil, Check, FolderOpen, HardDrive, History, Upload } from 'lucide-react';
+import { HistorySession, TranscriptSegment, TranscriptionResult } from '../types';
+import {
+  deleteSessions,
+  estimateSessionSize,
+  getStorageUsage,
+  listSessions,
+  StorageUsage,
+  updateSession,
+} from '../services/historyService';
+import { parseTranscriptJson } from '../services/jsonExporter';
+import { DEFAULT_STYLE_ID, loadStyles } from '../services/styleService';
+import { formatTimestamp } from '../utils/transcriptUtils';
+import { findMatches, getSnippet, SearchFocus, TextMatch } from '../utils/searchUtils';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  currentSessionId: string | null;
+  refreshKey: number; // bumped by the parent whenever a session is saved
+  onClose: () => void;
+  onOpenSession: (session: HistorySession, focus?: SearchFocus) => void;
+  onImportTranscript: (transcript: TranscriptionResult, name: string) => void;
+  onSessionsDeleted: (ids: string[]) => void;
+}
+
+const CLEANUP_AGE_DAYS = 30;
+const MAX_HITS_SHOWN = 3;
+
+interface SessionHit {
+  segment: TranscriptSegment;
+  match: TextMatch;
+}
+
+interface SessionResult {
+  session: HistorySession;
+  hits: SessionHit[];
+  hitCount: number;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen, currentSessionId, refreshKey, onClose, onOpenSession, onImportTranscript, onSessionsDeleted,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [sessions, setSessions] = useState<HistorySession[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, storage] = await Promise.all([listSessions(), getStorageUsage()]);
+      setSessions(list);
+      setUsage(storage);
+    } catch (error) {
+      console.error("Failed to load history:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refreshKey, refresh]);
+
+  // Only non-standard styles are worth a mention in the list
+  const styleNames = useMemo(() => new Map(loadStyles().map(style => [style.id, style.name])), [isOpen]);
+  const describeStyle = (styleId?: string) =>
+    styleId && styleId !== DEFAULT_STYLE_ID ? ` · ${styleNames.get(styleId) || 'Deleted style'}` : '';
+
+  // Sessions whose name or transcript matches, with the matching turns
+  const filtered = useMemo((): SessionResult[] => {
+    if (!query.trim()) return sessions.map(session => ({ session, hits: [], hitCount: 0 }));
+
+    return sessions.flatMap(session => {
+      const hits = session.transcript.segments.flatMap(segment =>
+        findMatches(segment.text, query).map(match => ({ segment, match })));
+      if (hits.length === 0 && findMatches(session.name, query).length === 0) return [];
+      return [{ session, hits: hits.slice(0, MAX_HITS_SHOWN), hitCount: hits.length }];
+    });
+  }, [sessions, query]);
+
+  const removeSessions = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    await deleteSessions(ids);
+    setSelected(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    onSessionsDeleted(ids);
+    refresh();
+  };
+
+  const handleDelete = (session: HistorySession) => {
+    if (window.confirm(`Delete "${session.name}"? This cannot be undone.`)) {
+      removeSessions([session.id]);
+    }
+  };
+
+  const handleDeleteSelected = () => {
+    if (window.confirm(`Delete ${selected.size} selected session(s)? This cannot be undone.`)) {
+      removeSessions([...selected]);
+    }
+  };
+
+  const handleCleanupOld = () => {
+    const cutoff = new Date(Date.now() - CLEANUP_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const old = sessions.filter(session => session.createdAt < cutoff).map(session => session.id);
+    if (old.length === 0) {
+      window.alert(`No sessions older than ${CLEANUP_AGE_DAYS} days.`);
+      return;
+    }
+    if (window.confirm(`Delete ${old.length} session(s) older than ${CLEANUP_AGE_DAYS} days?`)) {
+      removeSessions(old);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow importing the same file again
+    if (!file) return;
+    try {
+      const transcript = parseTranscriptJson(await file.text());
+      onImportTranscript(transcript, file.name.replace(/\.json$/i, ''));
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Failed to import transcript.");
+    }
+  };
+
+  const startRename = (session: HistorySession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.name);
+  };
+
+  const commitRename = async () => {
+    if (renamingId && renameValue.trim()) {
+      await updateSession(renamingId, { name: renameValue.trim() });
+      refresh();
+    }
+    setRenamingId(null);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const usedPercent = usage && usage.quotaBytes > 0 ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={onClose} />
+
+      <aside className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-700">
+            <History className="w-5 h-5 text-blue-600" />
+            <span className="font-semibold text-sm uppercase tracking-wide">History</span>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100 space-y-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search sessions..."
+              className="w-full pl-9 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+            />
+          </div>
+
+          {usage && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-slate-500">
+                <span className="flex items-center"><HardDrive className="w-3.5 h-3.5 mr-1" /> Storage</span>
+                <span>{formatBytes(usage.usedBytes)} of {formatBytes(usage.quotaBytes)}</span>
+              </div>
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-blue-600'}`}
+                  style={{ width: `${usedPercent}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              <Upload className="w-3.5 h-3.5 mr-1" />
+              Import JSON
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleCleanupOld}
+              className="text-xs text-slate-500 hover:text-red-600 hover:underline"
+            >
+              Delete sessions older than {CLEANUP_AGE_DAYS} days
+            </button>
+            {selected.size > 0 && (
+              <button
+                onClick={handleDeleteSelected}
+                className="flex items-center text-xs font-medium text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="w-3.5 h-3.5 mr-1" />
+                Delete {selected.size}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {filtered.length === 0 ? (
+            <p className="p-8 text-center text-sm text-slate-400">
+              {sessions.length === 0 ? 'No saved sessions yet.' : 'No sessions match your search.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {filtered.map(({ session, hits, hitCount }) => (
+                <li
+                  key={session.id}
+                  className={`px-4 py-3 flex items-start gap-3 ${session.id === currentSessionId ? 'bg-blue-50/60' : 'hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(session.id)}
+                    onChange={() => toggleSelected(session.id)}
+                    className="mt-1 accent-blue-600"
+                  />
+
+                  <div className="min-w-0 flex-1">
+                    {renamingId === session.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          autoFocus
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          className="flex-1 px-2 py-1 border border-slate-300 rounded text-sm"
+                        />
+                        <button onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded">
+                          <Check className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => onOpenSession(session)}
+                        className="block w-full text-left text-sm font-semibold text-slate-800 truncate hover:text-blue-600"
+                      >
+                        {session.name}
+                      </button>
+                    )}
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {new Date(session.createdAt).toLocaleString()} · {session.language}{describeStyle(session.transcript.styleId)} · {formatBytes(estimateSessionSize(session))}
+                    </p>
+                    {hits.length === 0 ? (
+                      <p dir="auto" className="text-xs text-slate-400 mt-1 truncate">
+                        {session.transcript.segments[0]?.text}
+                      </p>
+                    ) : (
+                      <ul className="mt-1.5 space-y-1">
+                        {hits.map(({ segment, match }) => {
+                          const snippet = getSnippet(segment.text, match);
+                          return (
+                            <li key={`${segment.id}-${match.start}`}>
+                              <button
+                                onClick={() => onOpenSession(session, { segmentId: segment.id, query })}
+                                className="w-full flex items-start gap-2 text-left text-xs text-slate-500 hover:bg-blue-50 rounded px-1 py-0.5"
+                              >
+                                <span className="shrink-0 font-mono text-slate-400">{formatTimestamp(segment.start)}</span>
+                                <span dir="auto" className="min-w-0 line-clamp-2">
+                                  {snippet.before}
+                                  <mark className="bg-yellow-200 text-slate-800 rounded-sm">{snippet.match}</mark>
+                                  {snippet.after}
+                                </span>
+                              </button>
+                            </li>
+                          );
+                        })}
+                        {hitCount > hits.length && (
+                          <li className="text-xs text-slate-400 px-1">+{hitCount - hits.length} more</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+
+                  <div className="flex items-center shrink-0">
+                    <button onClick={() => onOpenSession(session)} className="p-1.5 text-slate-400 hover:text-blue-600 rounded" title="Open">
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => startRename(session)} className="p-1.5 text-slate-400 hover:text-slate-700 rounded" title="Rename">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(session)} className="p-1.5 text-slate-400 hover:text-red-600 rounded" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Copy, Loader2, RefreshCw, Sparkles, X } from 'lucide-react';
+import { InsightsLanguage, TranscriptionProgress, TranscriptionResult } from '../types';
+import { formatMinutes, generateInsights, INSIGHTS_LANGUAGES } from '../services/insightsService';
+import { describeError, isAbortError } from '../services/errors';
+import { confirmJobCost, estimateTextUsage, trackUsage } from '../services/usageService';
+import { transcriptToPlainText } from '../utils/transcriptUtils';
+
+interface InsightsPanelProps {
+  transcript: TranscriptionResult;
+  sessionId: string | null; // usage is recorded against it
+  onTranscriptChange: (transcript: TranscriptionResult) => void;
+}
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider mb-2">{children}</h3>
+);
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ transcript, sessionId, onTranscriptChange }) => {
+  const { insights } = transcript;
+  const [language, setLanguage] = useState<InsightsLanguage>(insights?.language || 'English');
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running request when leaving the transcript
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleGenerate = async () => {
+    // Minutes are a fraction of the transcript's length
+    const textLength = transcriptToPlainText(transcript).length;
+    if (!(await confirmJobCost(estimateTextUsage(textLength, textLength / 5)))) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completedChunks: 0, totalChunks: 0 });
+    setError(null);
+
+    try {
+      const generated = await generateInsights(transcript, language, {
+        onProgress: setProgress,
+        signal: controller.signal,
+        onUsage: trackUsage('insights', sessionId).onUsage,
+      });
+      onTranscriptChange({ ...transcript, insights: generated });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(err);
+      const { title, message } = describeError(err);
+      setError(`${title}: ${message}`);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!insights) return;
+    navigator.clipboard.writeText(formatMinutes(insights, transcript));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const isGenerating = progress !== null;
+
+  const controls = (
+    <div className="flex items-center gap-2">
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as InsightsLanguage)}
+        disabled={isGenerating}
+        className="p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+        title="Output language"
+      >
+        {INSIGHTS_LANGUAGES.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+      {isGenerating ? (
+        <div className="flex items-center px-3 py-2 text-sm text-slate-600">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin text-blue-600" />
+          {progress.totalChunks > 1 ? `Part ${Math.min(progress.completedChunks + 1, progress.totalChunks)} of ${progress.totalChunks}` : 'Generating...'}
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="ml-2 p-0.5 text-slate-400 hover:text-red-600 rounded"
+            title="Cancel"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleGenerate}
+          className="flex items-center px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+        >
+          {insights ? <RefreshCw className="w-4 h-4 mr-2" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {insights ? 'Regenerate' : 'Generate Summary'}
+        </button>
+      )}
+    </div>
+  );
+
+  if (!insights) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center py-16 gap-4">
+        <Sparkles className="w-8 h-8 text-blue-300" />
+        <p className="text-sm text-slate-500 max-w-sm">
+          Create a summary, key decisions, action items and meeting minutes from this transcript.
+        </p>
+        {controls}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-slate-800">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button
+          onClick={handleCopy}
+          className="flex items-center px-3 py-2 text-sm text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+        >
+          {copied ? <Check className="w-4 h-4 mr-1.5 text-green-600" /> : <Copy className="w-4 h-4 mr-1.5" />}
+          {copied ? 'Copied' : 'Copy minutes'}
+        </button>
+        {controls}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {insights.title && <h2 dir="auto" className="text-xl font-semibold">{insights.title}</h2>}
+
+      <section>
+        <SectionTitle>Summary</SectionTitle>
+        <p dir="auto" className="leading-relaxed whitespace-pre-line">{insights.summary}</p>
+      </section>
+
+      {insights.decisions.length > 0 && (
+        <section>
+          <SectionTitle>Key Decisions</SectionTitle>
+          <ul className="list-disc ps-5 space-y-1">
+            {insights.decisions.map((decision, i) => <li key={i} dir="auto">{decision}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {insights.actionItems.length > 0 && (
+        <section>
+          <SectionTitle>Action Items</SectionTitle>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-xs text-slate-400 border-b border-slate-100">
+                <th className="py-1.5 pe-3 font-medium">Task</th>
+                <th className="py-1.5 pe-3 font-medium">Owner</th>
+                <th className="py-1.5 font-medium">Due</th>
+              </tr>
+            </thead>
+            <tbody>
+              {insights.actionItems.map((item, i) => (
+                <tr key={i} className="border-b border-slate-50 align-top">
+                  <td dir="auto" className="py-2 pe-3">{item.task}</td>
+                  <td className="py-2 pe-3 text-blue-600 font-medium whitespace-nowrap">{item.owner || <span className="text-slate-400 font-normal">Unassigned</span>}</td>
+                  <td dir="auto" className="py-2 text-slate-500">{item.due || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {insights.topics.length > 0 && (
+        <section>
+          <SectionTitle>Minutes</SectionTitle>
+          <ol className="list-decimal ps-5 space-y-3">
+            {insights.topics.map((topic, i) => (
+              <li key={i}>
+                <p dir="auto" className="font-medium">{topic.title}</p>
+                <ul className="list-disc ps-5 mt-1 space-y-0.5 text-slate-600">
+                  {topic.notes.map((note, j) => <li key={j} dir="auto">{note}</li>)}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+
+      <p className="text-xs text-slate-400">
+        Generated {new Date(insights.generatedAt).toLocaleString()} in {insights.language}. Edits to the transcript are not reflected until you regenerate.
+      </p>
+    </div>
+  );
+};
+
+export default InsightsPanel;
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface LevelMeterProps {
+  stream: MediaStream;
+  paused?: boolean;
+}
+
+// Below this RMS the microphone is most likely not picking up speech
+const QUIET_LEVEL = 0.01;
+const QUIET_WARNING_MS = 5000;
+
+// Live waveform and input level of the microphone, drawn from an AnalyserNode
+const LevelMeter: React.FC<LevelMeterProps> = ({ stream, paused = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [level, setLevel] = useState(0);
+  const [isQuiet, setIsQuiet] = useState(false);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    let quietSince = performance.now();
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const rms = pausedRef.current ? 0 : Math.sqrt(sum / samples.length);
+
+      const now = performance.now();
+      if (rms >= QUIET_LEVEL || pausedRef.current) quietSince = now;
+      setIsQuiet(now - quietSince > QUIET_WARNING_MS);
+      // Perceptual scale: speech sits around 0.05-0.2 RMS
+      setLevel(Math.min(1, Math.sqrt(rms * 5)));
+
+      const { width, height } = canvas;
+      ctx.clearRect(0, 0, width, height);
+      ctx.strokeStyle = pausedRef.current ? '#CBD5E1' : '#2563EB';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      for (let i = 0; i < samples.length; i++) {
+        const x = (i / (samples.length - 1)) * width;
+        const y = height / 2 - (pausedRef.current ? 0 : samples[i]) * height * 1.5;
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+    draw();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="w-full max-w-xs mx-auto mb-6">
+      <canvas ref={canvasRef} width={320} height={48} className="w-full h-12" />
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden mt-1">
+        <div
+          className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${level * 100}%` }}
+        />
+      </div>
+      {isQuiet && (
+        <p className="text-xs text-amber-600 mt-2 text-center">
+          No sound detected. Check that the right microphone is selected and not muted.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { LiveTranscript } from '../types';
+
+interface LiveTranscriptViewProps {
+  transcript: LiveTranscript;
+}
+
+const LiveTranscriptView: React.FC<LiveTranscriptViewProps> = ({ transcript }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isEmpty = transcript.confirmed.length === 0 && transcript.provisional.length === 0;
+
+  // Keep the newest text in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [transcript]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className="w-full max-h-48 overflow-y-auto custom-scrollbar mt-6 p-4 bg-slate-50 rounded-xl border border-slate-100 text-sm leading-relaxed"
+    >
+      {isEmpty ? (
+        <div className="flex items-center justify-center text-slate-400">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Listening...
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          {transcript.confirmed.map(segment => (
+            <p key={segment.id} dir="auto" className="text-slate-800">
+              <span className="font-semibold text-blue-600 mr-1.5">{segment.speaker}:</span>
+              {segment.text}
+            </p>
+          ))}
+          {transcript.provisional.map(segment => (
+            <p key={segment.id} dir="auto" className="text-slate-400 italic" title="Provisional - may change">
+              <span className="font-semibold mr-1.5">{segment.speaker}:</span>
+              {segment.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveTranscriptView;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { PROVIDER_OPTIONS, ProviderId, ProviderSettings as Settings } from '../services/transcriptionProvider';
+
+interface ProviderSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 text-sm";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<Settings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-lg border border-slate-200 p-4 space-y-4 text-left z-50">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold text-sm uppercase tracking-wide text-slate-700">AI Provider</span>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-col space-y-1.5">
+        <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Provider</label>
+        <select
+          value={settings.providerId}
+          onChange={(e) => update({ providerId: e.target.value as ProviderId })}
+          className={inputClass}
+        >
+          {PROVIDER_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.providerId === 'gemini' && (
+        <div className="space-y-3">
+          <div className="flex flex-col space-y-1.5">
+            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Proxy URL</label>
+            <input
+              value={settings.geminiProxyUrl}
+              onChange={(e) => update({ geminiProxyUrl: e.target.value })}
+              placeholder="Empty to call Gemini directly"
+              className={inputClass}
+            />
+          </div>
+          {settings.geminiProxyUrl && (
+            <div className="flex flex-col space-y-1.5">
+              <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Proxy Token</label>
+              <input
+                type="password"
+                value={settings.geminiProxyToken}
+                onChange={(e) => update({ geminiProxyToken: e.target.value })}
+                placeholder="Only if the server requires one"
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {settings.providerId === 'openai' && (
+        <div className="space-y-3">
+          <div className="flex flex-col space-y-1.5">
+            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Base URL</label>
+            <input
+              type="url"
+              value={settings.openaiBaseUrl}
+              onChange={(e) => update({ openaiBaseUrl: e.target.value })}
+              placeholder="http://localhost:8000/v1"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col space-y-1.5">
+            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">API Key</label>
+            <input
+              type="password"
+              value={settings.openaiApiKey}
+              onChange={(e) => update({ openaiApiKey: e.target.value })}
+              placeholder="Optional for self-hosted servers"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex flex-col space-y-1.5">
+              <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">STT Model</label>
+              <input
+                value={settings.openaiTranscriptionModel}
+                onChange={(e) => update({ openaiTranscriptionModel: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col space-y-1.5">
+              <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">TTS Model</label>
+              <input
+                value={settings.openaiSpeechModel}
+                onChange={(e) => update({ openaiSpeechModel: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex flex-col space-y-1.5">
+            <label className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Chat Model</label>
+            <input
+              value={settings.openaiChatModel}
+              onChange={(e) => update({ openaiChatModel: e.target.value })}
+              placeholder="Used for translation"
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.providerId === 'mock' && (
+        <p className="text-xs text-slate-400">
+          Returns sample transcripts and tones without contacting any service.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AlertTriangle, Download, FileText, Trash2 } from 'lucide-react';
+import { RecordingDraft } from '../types';
+
+interface RecordingRecoveryProps {
+  drafts: RecordingDraft[];
+  onTranscribe: (draft: RecordingDraft) => void;
+  onDownload: (draft: RecordingDraft) => void;
+  onDiscard: (draft: RecordingDraft) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60).toString().padStart(2, '0');
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${mins}:${secs}` : `${mins}:${secs}`;
+};
+
+// Offers recordings that were interrupted (tab closed, crash, failed transcription) for recovery
+const RecordingRecovery: React.FC<RecordingRecoveryProps> = ({ drafts, onTranscribe, onDownload, onDiscard }) => {
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="mb-8 w-full max-w-lg space-y-2">
+      {drafts.map(draft => (
+        <div key={draft.id} className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-amber-900">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5 text-amber-600" />
+            <div className="min-w-0 flex-1">
+              <h3 className="font-semibold text-sm">Recover unfinished recording</h3>
+              <p className="text-sm mt-1">
+                Started {new Date(draft.startedAt).toLocaleString()} · {formatDuration(draft.durationSeconds)} ·{' '}
+                {(draft.sizeBytes / (1024 * 1024)).toFixed(1)} MB
+              </p>
+              <div className="flex items-center gap-4 mt-3">
+                <button
+                  onClick={() => onTranscribe(draft)}
+                  className="flex items-center text-xs font-bold uppercase tracking-wide text-amber-800 hover:text-amber-950"
+                >
+                  <FileText className="w-3.5 h-3.5 mr-1" />
+                  Transcribe
+                </button>
+                <button
+                  onClick={() => onDownload(draft)}
+                  className="flex items-center text-xs font-bold uppercase tracking-wide text-amber-800 hover:text-amber-950"
+                >
+                  <Download className="w-3.5 h-3.5 mr-1" />
+                  Download
+                </button>
+                <button
+                  onClick={() => onDiscard(draft)}
+                  className="flex items-center text-xs font-bold uppercase tracking-wide text-amber-700 hover:text-red-700"
+                >
+                  <Trash2 className="w-3.5 h-3.5 mr-1" />
+                  Discard
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RecordingRecovery;
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, ChevronUp, Pencil, Play, X } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from '../utils/transcriptUtils';
+import { getReviewText, ReviewItem } from '../utils/uncertainty';
+
+interface ReviewBarProps {
+  item: ReviewItem | null;
+  segment: TranscriptSegment | null; // the turn the item is in
+  itemCount: number;
+  currentIndex: number;
+  canPlay: boolean; // false when there is no recording to play from
+  onPlay: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onAccept: () => void;
+  onCorrect: (text: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "flex-1 min-w-0 px-2.5 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500";
+const buttonClass = "flex items-center px-2.5 py-1.5 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg disabled:opacity-40";
+
+// Steps through uncertain words and low-confidence turns, one at a time
+const ReviewBar: React.FC<ReviewBarProps> = ({
+  item, segment, itemCount, currentIndex, canPlay, onPlay, onPrevious, onNext, onAccept, onCorrect, onClose,
+}) => {
+  const original = item && segment ? getReviewText(segment, item) : '';
+  const [correction, setCorrection] = useState(original);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Start each item from the text as transcribed
+  useEffect(() => {
+    setCorrection(original);
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [item?.key, original]);
+
+  const isChanged = correction.trim() !== '' && correction !== original;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'Enter' && item) {
+      e.preventDefault();
+      if (e.altKey) onPlay();
+      else if (isChanged) onCorrect(correction);
+      else onAccept();
+    }
+  };
+
+  if (!item || !segment) {
+    return (
+      <div className="px-6 py-3 border-b border-slate-100 bg-amber-50/50 flex items-center justify-between">
+        <span className="text-sm text-slate-500">Nothing left to review.</span>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-amber-50/50 space-y-2" onKeyDown={handleKeyDown}>
+      <div className="flex items-center gap-2 text-xs text-slate-500">
+        <span className="font-semibold uppercase tracking-wide text-amber-700">Review</span>
+        <span>{currentIndex + 1} of {itemCount}</span>
+        <span className="flex-1 min-w-0 truncate">
+          {segment.speaker} · {formatTimestamp(segment.start)} ·{' '}
+          {item.span ? 'unclear words' : `whole turn, ${Math.round(segment.confidence * 100)}% sure`}
+        </span>
+        <button onClick={onPrevious} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="Previous">
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button onClick={onNext} className="p-1.5 text-slate-500 hover:bg-slate-100 rounded" title="Next">
+          <ChevronDown className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={onPlay} disabled={!canPlay} className={buttonClass} title={canPlay ? "Play this part (Alt+Enter)" : "No recording to play"}>
+          <Play className="w-3.5 h-3.5 mr-1" />
+          Play
+        </button>
+        <input
+          ref={inputRef}
+          dir="auto"
+          value={correction}
+          onChange={(e) => setCorrection(e.target.value)}
+          className={inputClass}
+        />
+        <button onClick={onAccept} className={buttonClass} title="Keep as transcribed (Enter)">
+          <Check className="w-3.5 h-3.5 mr-1" />
+          Accept
+        </button>
+        <button onClick={() => onCorrect(correction)} disabled={!isChanged} className={buttonClass} title="Use the corrected text (Enter)">
+          <Pencil className="w-3.5 h-3.5 mr-1" />
+          Correct
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewBar;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { formatCost, summarizeBy, summarizeUsage, USAGE_OPERATION_LABELS, UsageOperation } from '../services/usageService';
+import { useUsage } from '../hooks/useUsage';
+import UsageBreakdown from './UsageBreakdown';
+
+interface SessionUsageProps {
+  sessionId: string | null;
+}
+
+// What the open session has cost so far: transcription plus any speech, translation and summaries made from it
+const SessionUsage: React.FC<SessionUsageProps> = ({ sessionId }) => {
+  const { records: sessionRecords, settings } = useUsage(sessionId ? { sessionId } : null);
+
+  if (sessionRecords.length === 0) {
+    return (
+      <p className="text-sm text-slate-400 text-center mt-12">
+        {sessionId
+          ? "No usage recorded for this session. Sessions transcribed before usage tracking was added have none."
+          : "Usage is tracked for transcripts saved to history."}
+      </p>
+    );
+  }
+
+  const total = summarizeUsage(sessionRecords, settings.prices);
+  const byOperation = summarizeBy(sessionRecords, settings.prices, record => record.operation);
+  const byModel = summarizeBy(sessionRecords, settings.prices, record => record.model);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Estimated cost</div>
+        <div className="text-2xl font-semibold text-slate-800">{formatCost(total.cost)}</div>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">By task</h3>
+        <UsageBreakdown
+          rows={byOperation.map(({ key, summary }) => ({ key, label: USAGE_OPERATION_LABELS[key as UsageOperation] || key, summary }))}
+          total={total}
+        />
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">By model</h3>
+        <UsageBreakdown rows={byModel.map(({ key, summary }) => ({ key, label: key, summary }))} />
+      </section>
+    </div>
+  );
+};
+
+export default SessionUsage;
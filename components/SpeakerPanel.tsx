@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Pencil, X } from 'lucide-react';
+import { TranscriptionResult } from '../types';
+import { formatTimestamp } from '../utils/transcriptUtils';
+import { getSpeakerStats, renameSpeaker, setSegmentSpeaker } from '../utils/transcriptEdits';
+
+interface SpeakerPanelProps {
+  transcript: TranscriptionResult;
+  onChange: (transcript: TranscriptionResult) => void;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ transcript, onChange }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const stats = getSpeakerStats(transcript);
+  const speakers = stats.map(entry => entry.speaker);
+
+  const startRename = (speaker: string) => {
+    setEditing(speaker);
+    setNameDraft(speaker);
+  };
+
+  const commitRename = () => {
+    const from = editing;
+    const to = nameDraft.trim();
+    setEditing(null);
+    if (!from || !to || to === from) return;
+    if (speakers.includes(to) && !window.confirm(`"${to}" already exists. Merge "${from}" into "${to}"?`)) return;
+    onChange(renameSpeaker(transcript, from, to));
+    if (expanded === from) setExpanded(to);
+  };
+
+  const handleMerge = (from: string, into: string) => {
+    if (!into) return;
+    onChange(renameSpeaker(transcript, from, into));
+    if (expanded === from) setExpanded(into);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-400">
+        Rename a speaker to relabel all of their turns. Renaming to an existing name, or merging, combines two labels.
+      </p>
+
+      {stats.map(entry => {
+        const isExpanded = expanded === entry.speaker;
+        return (
+          <div key={entry.speaker} className="border border-slate-200 rounded-xl">
+            <div className="flex items-center gap-3 px-4 py-3">
+              <button
+                onClick={() => setExpanded(isExpanded ? null : entry.speaker)}
+                className="p-0.5 text-slate-400 hover:text-slate-700 rounded"
+                title={isExpanded ? 'Hide turns' : 'Show turns'}
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+
+              <div className="min-w-0 flex-1">
+                {editing === entry.speaker ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      dir="auto"
+                      value={nameDraft}
+                      onChange={(e) => setNameDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded" title="Save">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditing(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => startRename(entry.speaker)}
+                    className="group flex items-center text-sm font-semibold text-blue-600 hover:text-blue-800"
+                    title="Rename speaker"
+                  >
+                    <span dir="auto" className="truncate">{entry.speaker}</span>
+                    <Pencil className="w-3.5 h-3.5 ml-1.5 opacity-0 group-hover:opacity-100" />
+                  </button>
+                )}
+
+                <div className="flex items-center gap-3 mt-1.5">
+                  <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 rounded-full" style={{ width: `${Math.round(entry.share * 100)}%` }} />
+                  </div>
+                  <span className="text-xs text-slate-500 whitespace-nowrap">
+                    {formatTimestamp(entry.talkTime)} · {Math.round(entry.share * 100)}% · {entry.turns} turns · {entry.words} words
+                  </span>
+                </div>
+              </div>
+
+              {speakers.length > 1 && (
+                <select
+                  value=""
+                  onChange={(e) => handleMerge(entry.speaker, e.target.value)}
+                  className="text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-1.5 focus:outline-none"
+                  title="Merge this speaker into another"
+                >
+                  <option value="">Merge into...</option>
+                  {speakers.filter(speaker => speaker !== entry.speaker).map(speaker => (
+                    <option key={speaker} value={speaker}>{speaker}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+
+            {isExpanded && (
+              <ul className="border-t border-slate-100 divide-y divide-slate-50 max-h-72 overflow-y-auto custom-scrollbar">
+                {transcript.segments.filter(segment => segment.speaker === entry.speaker).map(segment => (
+                  <li key={segment.id} className="flex items-start gap-3 px-4 py-2 text-sm">
+                    <span className="w-12 shrink-0 text-xs font-mono text-slate-400 pt-0.5">{formatTimestamp(segment.start)}</span>
+                    <span dir="auto" className="flex-1 min-w-0 text-slate-700 line-clamp-2">{segment.text}</span>
+                    <select
+                      value={segment.speaker}
+                      onChange={(e) => onChange(setSegmentSpeaker(transcript, segment.id, e.target.value))}
+                      className="shrink-0 text-xs text-slate-600 bg-transparent border border-slate-200 rounded p-1 focus:outline-none"
+                      title="Reassign this turn"
+                    >
+                      {speakers.map(speaker => (
+                        <option key={speaker} value={speaker}>{speaker}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Copy, Plus, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { SpeakerHints, TranscriptStyle } from '../types';
+import { createStyle, loadStyles, saveUserStyles, STYLE_VARIABLES } from '../services/styleService';
+import { getSystemInstruction } from '../services/prompts';
+
+interface StyleManagerProps {
+  isOpen: boolean;
+  onClose: (styles: TranscriptStyle[]) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 disabled:bg-slate-50 disabled:text-slate-500";
+
+// Sample recorder choices for the prompt preview
+const PREVIEW_SPEAKERS: SpeakerHints = { expectedCount: 2, names: ['Ayesha', 'Bilal'] };
+
+const StyleManager: React.FC<StyleManagerProps> = ({ isOpen, onClose }) => {
+  const [styles, setStyles] = useState<TranscriptStyle[]>(loadStyles);
+  const [selectedId, setSelectedId] = useState<string | null>(() => styles[0]?.id || null);
+
+  const selected = styles.find(style => style.id === selectedId) || null;
+
+  const persist = (next: TranscriptStyle[]) => {
+    saveUserStyles(next);
+    setStyles(next);
+  };
+
+  const updateSelected = (patch: Partial<TranscriptStyle>) => {
+    if (!selected || selected.builtIn) return;
+    persist(styles.map(style => (style.id === selected.id ? { ...style, ...patch } : style)));
+  };
+
+  const addStyle = (style: TranscriptStyle) => {
+    persist([...styles, style]);
+    setSelectedId(style.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn || !window.confirm(`Delete the style "${selected.name}"?`)) return;
+    persist(styles.filter(style => style.id !== selected.id));
+    setSelectedId(styles[0]?.id || null);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={() => onClose(styles)} />
+
+      <div className="relative w-full max-w-4xl max-h-[85vh] bg-white rounded-2xl shadow-xl flex flex-col overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-700">
+            <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+            <span className="font-semibold text-sm uppercase tracking-wide">Transcription Styles</span>
+          </div>
+          <button onClick={() => onClose(styles)} className="p-1 hover:bg-slate-100 rounded-full text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 border-r border-slate-100 flex flex-col">
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+              {styles.map(style => (
+                <li key={style.id}>
+                  <button
+                    onClick={() => setSelectedId(style.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${
+                      style.id === selectedId ? 'bg-blue-50 text-blue-700 font-medium' : 'text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    {style.name || 'Untitled'}
+                    <span className="block text-xs text-slate-400 font-normal">{style.builtIn ? 'Built-in' : 'Your template'}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-2 border-t border-slate-100">
+              <button
+                onClick={() => addStyle(createStyle(`Style ${styles.filter(style => !style.builtIn).length + 1}`))}
+                className="w-full flex items-center px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                New style
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+            {!selected ? (
+              <p className="text-sm text-slate-400 text-center mt-12">Pick a style to see its prompt.</p>
+            ) : (
+              <div className="space-y-5">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    disabled={selected.builtIn}
+                    className={`${inputClass} font-semibold`}
+                  />
+                  <button
+                    onClick={() => addStyle(createStyle(`${selected.name} (copy)`, selected))}
+                    className="p-2 text-slate-400 hover:text-blue-600 rounded"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  {!selected.builtIn && (
+                    <button onClick={handleDelete} className="p-2 text-slate-400 hover:text-red-600 rounded" title="Delete style">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+
+                <input
+                  value={selected.description}
+                  onChange={(e) => updateSelected({ description: e.target.value })}
+                  disabled={selected.builtIn}
+                  placeholder="Short description, shown in the recorder"
+                  className={inputClass}
+                />
+
+                <label className="flex items-start gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={!!selected.singlePass}
+                    onChange={(e) => updateSelected({ singlePass: e.target.checked || undefined })}
+                    disabled={selected.builtIn}
+                    className="mt-0.5 w-4 h-4 accent-blue-600"
+                  />
+                  <span>
+                    Single pass
+                    <span className="block text-xs text-slate-400">
+                      Writes one document for the whole recording. Long recordings are transcribed in parts with the
+                      standard style first, and the live preview uses the standard style.
+                    </span>
+                  </span>
+                </label>
+
+                <section className="space-y-2">
+                  <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Prompt template</h3>
+                  {selected.builtIn && (
+                    <p className="text-xs text-slate-400">Built-in styles can't be changed. Duplicate one to make your own version.</p>
+                  )}
+                  <textarea
+                    value={selected.template}
+                    onChange={(e) => updateSelected({ template: e.target.value })}
+                    readOnly={selected.builtIn}
+                    rows={14}
+                    className={`${inputClass} font-mono text-xs leading-relaxed resize-y ${selected.builtIn ? 'bg-slate-50 text-slate-500' : ''}`}
+                  />
+                  <ul className="text-xs text-slate-500 space-y-0.5">
+                    {STYLE_VARIABLES.map(variable => (
+                      <li key={variable.name}>
+                        <code className="text-blue-700">{`{{${variable.name}}}`}</code> {variable.description}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-slate-400">
+                    Instructions for the response format, and for marking unclear words, are always added after the template.
+                  </p>
+                </section>
+
+                <details className="text-xs text-slate-500">
+                  <summary className="cursor-pointer select-none">Preview the full prompt (mixed language, two named speakers, no glossary)</summary>
+                  <pre className="mt-2 p-3 bg-slate-50 border border-slate-200 rounded-lg whitespace-pre-wrap font-mono text-slate-600">
+                    {getSystemInstruction('Mixed', undefined, PREVIEW_SPEAKERS, selected)}
+                  </pre>
+                </details>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleManager;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Play, Scissors, Merge, Trash2 } from 'lucide-react';
+import { TranscriptSegment, TranscriptionResult } from '../types';
+import { formatTimestamp } from '../utils/transcriptUtils';
+import { TextMatch, TranscriptHit } from '../utils/searchUtils';
+import { isLowConfidence, ReviewItem } from '../utils/uncertainty';
+import {
+  deleteSegment,
+  getSpeakers,
+  mergeWithNext,
+  setSegmentSpeaker,
+  splitSegment,
+  updateSegmentText,
+} from '../utils/transcriptEdits';
+
+interface TranscriptEditorProps {
+  transcript: TranscriptionResult;
+  onChange: (transcript: TranscriptionResult) => void;
+  activeSegmentId?: string | null;
+  onSeek?: (segment: TranscriptSegment) => void;
+  translationRtl?: boolean; // when set, each turn's translation is shown beside it
+  searchHits?: TranscriptHit[];
+  currentHit?: TranscriptHit | null;
+  reviewItem?: ReviewItem | null; // the uncertain span or turn being reviewed
+}
+
+interface SegmentRowProps {
+  segment: TranscriptSegment;
+  speakers: string[];
+  isActive: boolean;
+  isLast: boolean;
+  translationRtl?: boolean;
+  highlights: TextMatch[];
+  currentHighlightStart: number | null; // start of the current search hit, if it is in this turn
+  reviewItem: ReviewItem | null; // the review item in this turn, if any
+  onTextCommit: (text: string) => void;
+  onSpeakerChange: (speaker: string) => void;
+  onSplit: (text: string, offset: number) => void;
+  onMerge: () => void;
+  onDelete: () => void;
+  onSeek?: () => void;
+}
+
+const NEW_SPEAKER_OPTION = '__new__';
+const NO_HIGHLIGHTS: TextMatch[] = [];
+const TEXT_STYLE = { fontFamily: "'Georgia', 'Times New Roman', serif" };
+const OVERLAY_CLASS = "absolute inset-0 whitespace-pre-wrap break-words text-lg leading-relaxed text-transparent pointer-events-none";
+
+// Text with <mark>s, laid out exactly like the textarea above it so the marks line up with the words
+const renderHighlights = (text: string, highlights: TextMatch[], markClass: (start: number) => string) => {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  [...highlights].sort((a, b) => a.start - b.start).forEach(({ start, end }) => {
+    if (start < offset) return;
+    parts.push(text.slice(offset, start));
+    parts.push(
+      <mark key={start} className={`text-transparent rounded-sm ${markClass(start)}`}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(text.slice(offset));
+  return parts;
+};
+
+const SegmentRow: React.FC<SegmentRowProps> = ({
+  segment, speakers, isActive, isLast, translationRtl, highlights, currentHighlightStart, reviewItem, onTextCommit, onSpeakerChange, onSplit, onMerge, onDelete, onSeek,
+}) => {
+  // Typing edits a local draft; it is committed on blur so one correction is one undo step
+  const [draft, setDraft] = useState(segment.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    setDraft(segment.text);
+  }, [segment.text]);
+
+  // Grow the textarea with its content
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (el) {
+      el.style.height = 'auto';
+      el.style.height = `${el.scrollHeight}px`;
+    }
+  }, [draft]);
+
+  const commit = () => {
+    if (draft !== segment.text) onTextCommit(draft);
+  };
+
+  const handleSpeakerSelect = (value: string) => {
+    if (value === NEW_SPEAKER_OPTION) {
+      const name = window.prompt("New speaker name", `Speaker ${speakers.length + 1}`);
+      if (name && name.trim()) onSpeakerChange(name.trim());
+      return;
+    }
+    onSpeakerChange(value);
+  };
+
+  // Splits the current draft so an uncommitted correction is not lost
+  const handleSplit = () => {
+    const offset = textareaRef.current?.selectionStart ?? 0;
+    onSplit(draft, offset);
+  };
+
+  const reviewSpanStart = reviewItem?.span?.start ?? null;
+  const isReviewingTurn = reviewItem !== null && !reviewItem.span;
+
+  return (
+    <div
+      id={`segment-${segment.id}`}
+      className={`group flex gap-4 rounded-lg -mx-2 px-2 py-1.5 transition-colors ${isActive ? 'bg-blue-50' : 'hover:bg-slate-50'} ${isReviewingTurn ? 'ring-2 ring-amber-300' : ''}`}
+    >
+      <button
+        onClick={onSeek}
+        disabled={!onSeek}
+        className="w-14 shrink-0 pt-1.5 flex items-start text-xs font-mono text-slate-400 font-sans hover:text-blue-600 disabled:hover:text-slate-400 transition-colors"
+        title="Play from here"
+      >
+        {onSeek && <Play className="w-3 h-3 mr-1 mt-px opacity-0 group-hover:opacity-100" />}
+        {formatTimestamp(segment.start)}
+      </button>
+
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center">
+          <select
+            value={segment.speaker}
+            onChange={(e) => handleSpeakerSelect(e.target.value)}
+            className="text-xs font-semibold uppercase tracking-wide text-blue-600 font-sans bg-transparent border-none p-0 pr-1 focus:outline-none cursor-pointer"
+            title="Change speaker"
+          >
+            {speakers.map(speaker => (
+              <option key={speaker} value={speaker}>{speaker}</option>
+            ))}
+            <option value={NEW_SPEAKER_OPTION}>+ New speaker...</option>
+          </select>
+          {isLowConfidence(segment) && (
+            <span
+              className="ml-2 flex items-center text-xs text-amber-600 font-sans"
+              title="The transcriber was unsure of this turn. Check it against the audio in review mode."
+            >
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {Math.round(segment.confidence * 100)}% sure
+            </span>
+          )}
+          <div className="flex-1" />
+
+          <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={handleSplit} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Split at cursor">
+              <Scissors className="w-3.5 h-3.5" />
+            </button>
+            {!isLast && (
+              <button onClick={onMerge} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Merge with next turn">
+                <Merge className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Delete turn">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        <div className={translationRtl !== undefined ? 'grid grid-cols-2 gap-4' : undefined}>
+          <div className="relative">
+            {segment.uncertain && draft === segment.text && (
+              <div aria-hidden dir="auto" className={OVERLAY_CLASS} style={TEXT_STYLE}>
+                {renderHighlights(segment.text, segment.uncertain, start => (
+                  start === reviewSpanStart ? 'bg-amber-200' : 'bg-transparent underline decoration-wavy decoration-amber-400'
+                ))}
+              </div>
+            )}
+            {highlights.length > 0 && draft === segment.text && (
+              <div aria-hidden dir="auto" className={OVERLAY_CLASS} style={TEXT_STYLE}>
+                {renderHighlights(segment.text, highlights, start => (start === currentHighlightStart ? 'bg-orange-300' : 'bg-yellow-200'))}
+              </div>
+            )}
+            <textarea
+              ref={textareaRef}
+              dir="auto"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commit}
+              rows={1}
+              className="relative block w-full resize-none overflow-hidden bg-transparent border-none p-0 m-0 text-lg leading-relaxed text-slate-800 focus:outline-none focus:ring-0"
+              style={TEXT_STYLE}
+            />
+          </div>
+          {translationRtl !== undefined && (
+            segment.translation !== undefined ? (
+              <p
+                dir={translationRtl ? 'rtl' : 'ltr'}
+                className="text-lg leading-relaxed text-slate-600 border-s border-slate-100 ps-4"
+                style={TEXT_STYLE}
+              >
+                {segment.translation}
+              </p>
+            ) : (
+              <p className="text-sm italic text-slate-400 border-s border-slate-100 ps-4 pt-1">
+                Changed since the translation — translate again to update.
+              </p>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  transcript, onChange, activeSegmentId, onSeek, translationRtl, searchHits = [], currentHit, reviewItem,
+}) => {
+  const speakers = getSpeakers(transcript);
+  const hitsBySegment = new Map<string, TextMatch[]>();
+  searchHits.forEach(hit => hitsBySegment.set(hit.segmentId, [...(hitsBySegment.get(hit.segmentId) || []), hit]));
+
+  return (
+    <div className="space-y-2">
+      {transcript.segments.map((segment, index) => (
+        <SegmentRow
+          key={segment.id}
+          segment={segment}
+          speakers={speakers}
+          isActive={segment.id === activeSegmentId}
+          isLast={index === transcript.segments.length - 1}
+          translationRtl={translationRtl}
+          highlights={hitsBySegment.get(segment.id) || NO_HIGHLIGHTS}
+          currentHighlightStart={currentHit?.segmentId === segment.id ? currentHit.start : null}
+          reviewItem={reviewItem?.segmentId === segment.id ? reviewItem : null}
+          onTextCommit={(text) => onChange(updateSegmentText(transcript, segment.id, text))}
+          onSpeakerChange={(speaker) => onChange(setSegmentSpeaker(transcript, segment.id, speaker))}
+          onSplit={(text, offset) => onChange(splitSegment(updateSegmentText(transcript, segment.id, text), segment.id, offset))}
+          onMerge={() => onChange(mergeWithNext(transcript, segment.id))}
+          onDelete={() => onChange(deleteSegment(transcript, segment.id))}
+          onSeek={onSeek ? () => onSeek(segment) : undefined}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -1,70 +1,322 @@
-import React, { useState, useRef } from 'react';
-import { Download, Check, Copy, FileText, Volume2, Play, Loader2, Music } from 'lucide-react';
-import { generateAndDownloadDocx } from '../services/docxService';
-import { generateSpeech } from '../services/geminiService';
-import { createWavBlob } from '../utils/fileUtils';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Download, Check, Copy, FileText, Volume2, Play, Loader2, Music, Undo2, Redo2, Sparkles, Users, Search, X, Receipt, ListChecks } from 'lucide-react';
+import { downloadTranscript } from '../services/exportService';
+import { VoiceOption } from '../services/transcriptionProvider';
+import { describeError, isAbortError } from '../services/errors';
+import {
+  assignSpeakerVoices, getSpeechExtension, loadSpeechSettings, saveSpeechSettings, SPEECH_FORMATS, SpeechFormat,
+  SpeechSettings, SPEED_OPTIONS, synthesizeTranscript,
+} from '../services/speechService';
+import { confirmJobCost, estimateSpeechUsage, trackUsage } from '../services/usageService';
+import { transcriptToPlainText } from '../utils/transcriptUtils';
+import { getSpeakers } from '../utils/transcriptEdits';
+import { TranscriptSegment, TranscriptionProgress, TranscriptionResult } from '../types';
+import TranscriptEditor from './TranscriptEditor';
+import ExportMenu from './ExportMenu';
+import TranslationMenu from './TranslationMenu';
+import InsightsPanel from './InsightsPanel';
+import SpeakerPanel from './SpeakerPanel';
+import SessionUsage from './SessionUsage';
+import { getTranslationMode } from '../services/translationService';
+import FindReplaceBar from './FindReplaceBar';
+import ReviewBar from './ReviewBar';
+import { DEFAULT_SEARCH_OPTIONS, getExactHits, replaceHits, SearchFocus, SearchOptions, searchTranscript } from '../utils/searchUtils';
+import { acceptReviewItem, correctReviewItem, getReviewItems } from '../utils/uncertainty';
 
 interface TranscriptionDisplayProps {
-  transcript: string;
+  transcript: TranscriptionResult;
+  sessionId: string | null; // the history session shown, if saved
+  voices: VoiceOption[];
+  recordingUrl?: string | null; // original audio, used for click-to-seek
+  onTranscriptChange: (transcript: TranscriptionResult) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  initialSpeech?: Blob | null; // previously generated speech, when reopening a session
+  onSpeechGenerated?: (speech: Blob) => void;
+  focus?: SearchFocus | null; // search hit to jump to
   onReset: () => void;
 }
 
-// Available voices in Gemini
-const VOICES = [
-  { id: 'Puck', name: 'Puck (Neutral)' },
-  { id: 'Charon', name: 'Charon (Deep)' },
-  { id: 'Kore', name: 'Kore (Calm)' },
-  { id: 'Fenrir', name: 'Fenrir (Energetic)' },
-  { id: 'Zephyr', name: 'Zephyr (Soft)' },
-];
-
-const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript, onReset }) => {
+const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({
+  transcript, sessionId, voices, recordingUrl, onTranscriptChange, onUndo, onRedo, canUndo, canRedo,
+  initialSpeech, onSpeechGenerated, focus, onReset,
+}) => {
   const [copied, setCopied] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState('Puck');
+  const [selectedVoice, setSelectedVoice] = useState(voices[0]?.id || '');
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [speechProgress, setSpeechProgress] = useState<TranscriptionProgress | null>(null);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
+  const [chosenSpeakerVoices, setChosenSpeakerVoices] = useState<Record<string, string>>({});
+  const [audioUrl, setAudioUrl] = useState<string | null>(() => initialSpeech ? URL.createObjectURL(initialSpeech) : null);
+  const [audioExtension, setAudioExtension] = useState(() => initialSpeech ? getSpeechExtension(initialSpeech) : 'wav');
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  const [showTranslation, setShowTranslation] = useState(true);
+  const [activeTab, setActiveTab] = useState<'transcript' | 'speakers' | 'insights' | 'usage'>('transcript');
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [hitIndex, setHitIndex] = useState(0);
+  const [showReview, setShowReview] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const pendingFocusRef = useRef<string | null>(null);
+  const regionEndRef = useRef<number | null>(null); // where playback of a review region stops
   const audioRef = useRef<HTMLAudioElement>(null);
+  const recordingRef = useRef<HTMLAudioElement>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+
+  // Stop a pending speech request when leaving the transcript
+  useEffect(() => () => speechAbortRef.current?.abort(), []);
+
+  const plainText = transcriptToPlainText(transcript);
+  const speakers = getSpeakers(transcript);
+  const speakerVoices = assignSpeakerVoices(speakers, voices, chosenSpeakerVoices);
+  const translationMode = transcript.translationMode && showTranslation ? getTranslationMode(transcript.translationMode) : null;
+
+  // Voices differ per provider; fall back to the first one when the provider changes
+  useEffect(() => {
+    if (!voices.some(voice => voice.id === selectedVoice)) {
+      setSelectedVoice(voices[0]?.id || '');
+    }
+  }, [voices, selectedVoice]);
+
+  const searchHits = useMemo(
+    () => (showSearch ? searchTranscript(transcript, searchQuery, searchOptions) : []),
+    [showSearch, transcript, searchQuery, searchOptions]
+  );
+  const currentHit = searchHits.length > 0 ? searchHits[Math.min(hitIndex, searchHits.length - 1)] : null;
+  // Spelling variants are only replaced one at a time, once the user has seen them
+  const exactHits = useMemo(() => getExactHits(searchHits), [searchHits]);
+
+  // Accepting or correcting an item removes it, so the same index then points at the next one
+  const reviewItems = useMemo(() => getReviewItems(transcript), [transcript]);
+  const currentReviewIndex = Math.min(reviewIndex, Math.max(0, reviewItems.length - 1));
+  const reviewItem = showReview ? reviewItems[currentReviewIndex] ?? null : null;
+  const reviewSegment = reviewItem ? transcript.segments.find(segment => segment.id === reviewItem.segmentId) ?? null : null;
+
+  // Scrolls a turn into view and moves the recording to it without starting playback
+  const jumpToSegment = (segmentId: string) => {
+    document.getElementById(`segment-${segmentId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const segment = transcript.segments.find(s => s.id === segmentId);
+    const player = recordingRef.current;
+    if (!segment || !player) return;
+    if (player.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      player.currentTime = segment.start;
+    } else {
+      player.addEventListener('loadedmetadata', () => { player.currentTime = segment.start; }, { once: true });
+    }
+    setActiveSegmentId(segment.id);
+  };
+
+  const goToHit = (index: number) => {
+    if (searchHits.length === 0) return;
+    const wrapped = (index + searchHits.length) % searchHits.length;
+    setHitIndex(wrapped);
+    jumpToSegment(searchHits[wrapped].segmentId);
+  };
+
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setHitIndex(0);
+  };
+
+  const handleReplace = () => {
+    if (currentHit) onTranscriptChange(replaceHits(transcript, [currentHit], replacement));
+  };
+
+  const handleReplaceAll = () => {
+    if (exactHits.length > 0) onTranscriptChange(replaceHits(transcript, exactHits, replacement));
+  };
+
+  const openSearch = () => {
+    setActiveTab('transcript');
+    setShowSearch(true);
+  };
+
+  // Plays only part of the recording; handleRecordingTimeUpdate pauses at the end
+  const playRegion = (start: number, end: number) => {
+    const player = recordingRef.current;
+    if (!player) return;
+    const play = () => {
+      player.currentTime = start;
+      regionEndRef.current = end;
+      // Rejected when the next item interrupts playback; nothing to report
+      player.play().catch(() => undefined);
+    };
+    if (player.readyState >= HTMLMediaElement.HAVE_METADATA) play();
+    else player.addEventListener('loadedmetadata', play, { once: true });
+  };
+
+  const openReview = () => {
+    setActiveTab('transcript');
+    setReviewIndex(0);
+    setShowReview(true);
+  };
+
+  const closeReview = () => {
+    setShowReview(false);
+    if (regionEndRef.current !== null) recordingRef.current?.pause();
+    regionEndRef.current = null;
+  };
+
+  const goToReviewItem = (index: number) => {
+    if (reviewItems.length === 0) return;
+    setReviewIndex((index + reviewItems.length) % reviewItems.length);
+  };
+
+  // Show and play each item as review reaches it
+  useEffect(() => {
+    if (!reviewItem) return;
+    jumpToSegment(reviewItem.segmentId);
+    playRegion(reviewItem.start, reviewItem.end);
+  }, [reviewItem?.key]);
+
+  // Opened from a history search result: show the query and go to the hit
+  useEffect(() => {
+    if (!focus || !transcript.segments.some(segment => segment.id === focus.segmentId)) return;
+    setActiveTab('transcript');
+    setShowSearch(true);
+    setSearchQuery(focus.query);
+    pendingFocusRef.current = focus.segmentId;
+  }, [focus]);
+
+  // Go to the first hit whenever the search changes (but not when an edit changes the hits)
+  const lastSearchRef = useRef('');
+  useEffect(() => {
+    if (!showSearch) return;
+    const searchKey = `${searchQuery}|${searchOptions.fuzzyRoman}`;
+    const segmentId = pendingFocusRef.current;
+    if (segmentId) {
+      pendingFocusRef.current = null;
+      lastSearchRef.current = searchKey;
+      const index = searchHits.findIndex(hit => hit.segmentId === segmentId);
+      setHitIndex(Math.max(0, index));
+      jumpToSegment(segmentId);
+    } else if (searchKey !== lastSearchRef.current) {
+      lastSearchRef.current = searchKey;
+      if (searchHits.length > 0) jumpToSegment(searchHits[0].segmentId);
+    }
+  }, [searchHits, showSearch]);
+
+  // Ctrl/Cmd+F opens the find bar, even from inside a turn being edited
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) outside text fields, which keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const handleSeek = (segment: TranscriptSegment) => {
+    const player = recordingRef.current;
+    if (!player) return;
+    player.currentTime = segment.start;
+    player.play();
+  };
+
+  // Highlight the segment under the playhead
+  const handleRecordingTimeUpdate = () => {
+    const time = recordingRef.current?.currentTime ?? 0;
+    if (regionEndRef.current !== null && time >= regionEndRef.current) {
+      regionEndRef.current = null;
+      recordingRef.current?.pause();
+    }
+    const active = transcript.segments.find(segment => time >= segment.start && time < segment.end);
+    setActiveSegmentId(active ? active.id : null);
+  };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(transcript);
+    navigator.clipboard.writeText(plainText);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const handleDownloadDoc = () => {
-    generateAndDownloadDocx(transcript, `ScribeFlow-Transcript-${Date.now()}.docx`);
+    downloadTranscript(transcript, 'docx');
+  };
+
+  const updateSpeechSettings = (changes: Partial<SpeechSettings>) => {
+    const next = { ...speechSettings, ...changes };
+    setSpeechSettings(next);
+    saveSpeechSettings(next);
   };
 
-  // Internal helper to generate audio and return the URL
-  const generateAudioInternal = async (voice: string): Promise<string | null> => {
-    if (!transcript) return null;
-    
+  // Internal helper to generate audio and return the URL and file extension
+  const generateAudioInternal = async (): Promise<{ url: string; extension: string } | null> => {
+    if (!plainText) return null;
+    if (!(await confirmJobCost(estimateSpeechUsage(plainText.length)))) return null;
+
     setIsGeneratingAudio(true);
+    setSpeechProgress(null);
     setAudioUrl(null);
 
+    speechAbortRef.current?.abort();
+    const controller = new AbortController();
+    speechAbortRef.current = controller;
+
     try {
-      const pcmData = await generateSpeech(transcript, voice);
-      const wavBlob = createWavBlob(pcmData, 24000);
-      const url = URL.createObjectURL(wavBlob);
+      const speech = await synthesizeTranscript(transcript, {
+        settings: speechSettings,
+        voice: selectedVoice,
+        speakerVoices,
+        onProgress: setSpeechProgress,
+        signal: controller.signal,
+        onUsage: trackUsage('speech', sessionId).onUsage,
+      });
+      const url = URL.createObjectURL(speech);
+      const extension = getSpeechExtension(speech);
       setAudioUrl(url);
-      return url;
+      setAudioExtension(extension);
+      onSpeechGenerated?.(speech);
+      return { url, extension };
     } catch (error) {
+      if (isAbortError(error)) return null;
       console.error(error);
-      alert("Failed to generate audio. The text might be too long or the service is busy.");
+      const { title, message } = describeError(error);
+      alert(`Failed to generate audio. ${title}: ${message}`);
       return null;
     } finally {
-      setIsGeneratingAudio(false);
+      if (speechAbortRef.current === controller) {
+        speechAbortRef.current = null;
+        setIsGeneratingAudio(false);
+        setSpeechProgress(null);
+      }
     }
   };
 
   const handleGenerateClick = async () => {
-    await generateAudioInternal(selectedVoice);
+    await generateAudioInternal();
   };
 
-  const downloadAudioFromUrl = (url: string) => {
+  const downloadAudioFromUrl = (url: string, extension: string) => {
     const link = document.createElement('a');
     link.href = url;
-    link.download = `ScribeFlow-Audio-${Date.now()}.wav`;
+    link.download = `ScribeFlow-Audio-${Date.now()}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -73,18 +325,18 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
   // Quick download from toolbar: generates if needed, then downloads
   const handleQuickAudioDownload = async () => {
     if (audioUrl) {
-      downloadAudioFromUrl(audioUrl);
+      downloadAudioFromUrl(audioUrl, audioExtension);
     } else {
-      const url = await generateAudioInternal(selectedVoice);
-      if (url) {
-        downloadAudioFromUrl(url);
+      const generated = await generateAudioInternal();
+      if (generated) {
+        downloadAudioFromUrl(generated.url, generated.extension);
       }
     }
   };
 
   const handleDownloadExistingAudio = () => {
     if (audioUrl) {
-      downloadAudioFromUrl(audioUrl);
+      downloadAudioFromUrl(audioUrl, audioExtension);
     }
   };
 
@@ -95,12 +347,63 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
       <div className="flex-1 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
         {/* Toolbar */}
         <div className="px-6 py-4 border-b border-slate-100 flex flex-wrap gap-2 items-center justify-between bg-slate-50/50">
-          <div className="flex items-center space-x-2 text-slate-700">
-             <FileText className="w-5 h-5 text-blue-600" />
-             <span className="font-semibold text-sm uppercase tracking-wide">Transcript</span>
+          <div className="flex items-center space-x-1">
+            {([
+              { id: 'transcript', label: 'Transcript', Icon: FileText },
+              { id: 'speakers', label: 'Speakers', Icon: Users },
+              { id: 'insights', label: 'Summary', Icon: Sparkles },
+              { id: 'usage', label: 'Usage', Icon: Receipt },
+            ] as const).map(({ id, label, Icon }) => (
+              <button
+                key={id}
+                onClick={() => setActiveTab(id)}
+                className={`flex items-center px-2.5 py-1.5 rounded-lg font-semibold text-sm uppercase tracking-wide transition-colors ${
+                  activeTab === id ? 'text-slate-700 bg-white shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                }`}
+              >
+                <Icon className={`w-4 h-4 mr-2 ${activeTab === id ? 'text-blue-600' : ''}`} />
+                {label}
+              </button>
+            ))}
           </div>
           
           <div className="flex items-center space-x-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-2 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-2 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={openSearch}
+              className="p-2 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+              title="Find and replace (Ctrl+F)"
+            >
+              <Search className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={openReview}
+              className="p-2 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors text-sm flex items-center"
+              title="Review uncertain words and turns"
+            >
+              <ListChecks className="w-4 h-4" />
+              {reviewItems.length > 0 && (
+                <span className="ml-1 px-1.5 rounded-full bg-amber-100 text-amber-700 text-xs font-medium">{reviewItems.length}</span>
+              )}
+            </button>
+
             <button 
               onClick={handleCopy}
               className="p-2 text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors text-sm flex items-center"
@@ -118,6 +421,16 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
               DOCX
             </button>
 
+            <TranslationMenu
+              transcript={transcript}
+              sessionId={sessionId}
+              onTranscriptChange={onTranscriptChange}
+              showTranslation={showTranslation}
+              onShowTranslationChange={setShowTranslation}
+            />
+
+            <ExportMenu transcript={transcript} />
+
             <button 
               onClick={handleQuickAudioDownload}
               disabled={isGeneratingAudio}
@@ -133,14 +446,72 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
           </div>
         </div>
 
+        {/* Original Recording */}
+        {recordingUrl && (
+          <div className="px-6 py-3 border-b border-slate-100 bg-white">
+            <audio
+              ref={recordingRef}
+              src={recordingUrl}
+              controls
+              onTimeUpdate={handleRecordingTimeUpdate}
+              onPause={() => { regionEndRef.current = null; }}
+              className="w-full h-9 focus:outline-none"
+            />
+          </div>
+        )}
+
+        {showSearch && activeTab === 'transcript' && (
+          <FindReplaceBar
+            query={searchQuery}
+            onQueryChange={handleSearchQueryChange}
+            replacement={replacement}
+            onReplacementChange={setReplacement}
+            options={searchOptions}
+            onOptionsChange={setSearchOptions}
+            hitCount={searchHits.length}
+            exactHitCount={exactHits.length}
+            currentIndex={Math.min(hitIndex, Math.max(0, searchHits.length - 1))}
+            onPrevious={() => goToHit(hitIndex - 1)}
+            onNext={() => goToHit(hitIndex + 1)}
+            onReplace={handleReplace}
+            onReplaceAll={handleReplaceAll}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+
+        {showReview && activeTab === 'transcript' && (
+          <ReviewBar
+            item={reviewItem}
+            segment={reviewSegment}
+            itemCount={reviewItems.length}
+            currentIndex={currentReviewIndex}
+            canPlay={!!recordingUrl}
+            onPlay={() => reviewItem && playRegion(reviewItem.start, reviewItem.end)}
+            onPrevious={() => goToReviewItem(currentReviewIndex - 1)}
+            onNext={() => goToReviewItem(currentReviewIndex + 1)}
+            onAccept={() => reviewItem && onTranscriptChange(acceptReviewItem(transcript, reviewItem))}
+            onCorrect={(text) => reviewItem && onTranscriptChange(correctReviewItem(transcript, reviewItem, text))}
+            onClose={closeReview}
+          />
+        )}
+
         {/* Content */}
         <div className="flex-1 p-8 overflow-y-auto custom-scrollbar bg-white">
-          <div 
-              className="prose prose-slate max-w-none text-lg leading-relaxed whitespace-pre-wrap text-slate-800 font-serif"
-              style={{ fontFamily: "'Georgia', 'Times New Roman', serif" }}
-          >
-              {transcript}
-          </div>
+          {activeTab === 'transcript' && (
+            <TranscriptEditor
+              transcript={transcript}
+              onChange={onTranscriptChange}
+              activeSegmentId={activeSegmentId}
+              onSeek={recordingUrl ? handleSeek : undefined}
+              translationRtl={translationMode?.targetRtl}
+              searchHits={searchHits}
+              currentHit={currentHit}
+              reviewItem={reviewItem}
+            />
+          )}
+          {activeTab === 'speakers' && <SpeakerPanel transcript={transcript} onChange={onTranscriptChange} />}
+          {activeTab === 'insights' && <InsightsPanel transcript={transcript} sessionId={sessionId} onTranscriptChange={onTranscriptChange} />}
+          {activeTab === 'usage' && <SessionUsage sessionId={sessionId} />}
         </div>
 
         {/* Footer */}
@@ -161,51 +532,137 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
             <span className="font-semibold text-sm uppercase tracking-wide text-slate-700">Audio Settings</span>
          </div>
          
-         <div className="p-5 flex flex-col gap-6">
+         <div className="p-5 flex flex-col gap-6 lg:overflow-y-auto custom-scrollbar">
             
+            {/* Voice Mode */}
+            <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg text-xs font-medium">
+               {([['single', 'One voice'], ['dialogue', 'Voice per speaker']] as const).map(([mode, label]) => (
+                 <button
+                   key={mode}
+                   onClick={() => updateSpeechSettings({ voiceMode: mode })}
+                   className={`py-1.5 rounded-md transition-colors ${
+                     speechSettings.voiceMode === mode ? 'bg-white text-purple-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                   }`}
+                 >
+                   {label}
+                 </button>
+               ))}
+            </div>
+
             {/* Voice Selection */}
+            {speechSettings.voiceMode === 'single' ? (
+              <div className="space-y-3">
+                 <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Select AI Voice</label>
+                 <div className="grid grid-cols-1 gap-2">
+                    {voices.map((voice) => (
+                      <button
+                        key={voice.id}
+                        onClick={() => setSelectedVoice(voice.id)}
+                        className={`flex items-center px-3 py-2.5 rounded-lg border text-sm transition-all text-left ${
+                          selectedVoice === voice.id 
+                            ? 'border-purple-500 bg-purple-50 text-purple-700 ring-1 ring-purple-500/20' 
+                            : 'border-slate-200 hover:border-slate-300 text-slate-600'
+                        }`}
+                      >
+                        <div className={`w-2 h-2 rounded-full mr-3 ${selectedVoice === voice.id ? 'bg-purple-500' : 'bg-slate-300'}`}></div>
+                        {voice.name}
+                      </button>
+                    ))}
+                 </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                 <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Speaker Voices</label>
+                 <div className="space-y-2">
+                    {speakers.map(speaker => (
+                      <div key={speaker} className="flex items-center gap-2">
+                        <span dir="auto" className="flex-1 min-w-0 truncate text-sm text-slate-700">{speaker}</span>
+                        <select
+                          value={speakerVoices[speaker]}
+                          onChange={(e) => setChosenSpeakerVoices({ ...chosenSpeakerVoices, [speaker]: e.target.value })}
+                          className="w-36 p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+                        >
+                          {voices.map(voice => (
+                            <option key={voice.id} value={voice.id}>{voice.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                 </div>
+              </div>
+            )}
+
+            {/* Delivery */}
             <div className="space-y-3">
-               <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Select AI Voice</label>
-               <div className="grid grid-cols-1 gap-2">
-                  {VOICES.map((voice) => (
-                    <button
-                      key={voice.id}
-                      onClick={() => setSelectedVoice(voice.id)}
-                      className={`flex items-center px-3 py-2.5 rounded-lg border text-sm transition-all text-left ${
-                        selectedVoice === voice.id 
-                          ? 'border-purple-500 bg-purple-50 text-purple-700 ring-1 ring-purple-500/20' 
-                          : 'border-slate-200 hover:border-slate-300 text-slate-600'
-                      }`}
+               <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Delivery</label>
+               <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-slate-500 space-y-1">
+                    <span>Speed</span>
+                    <select
+                      value={speechSettings.speed}
+                      onChange={(e) => updateSpeechSettings({ speed: Number(e.target.value) })}
+                      className="w-full p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
                     >
-                      <div className={`w-2 h-2 rounded-full mr-3 ${selectedVoice === voice.id ? 'bg-purple-500' : 'bg-slate-300'}`}></div>
-                      {voice.name}
-                    </button>
-                  ))}
+                      {SPEED_OPTIONS.map(speed => (
+                        <option key={speed} value={speed}>{speed}×</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="text-xs text-slate-500 space-y-1">
+                    <span>Pause {speechSettings.pause.toFixed(2)} s</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={3}
+                      step={0.25}
+                      value={speechSettings.pause}
+                      onChange={(e) => updateSpeechSettings({ pause: Number(e.target.value) })}
+                      className="w-full accent-purple-600"
+                    />
+                  </label>
                </div>
+               <input
+                 value={speechSettings.style}
+                 onChange={(e) => updateSpeechSettings({ style: e.target.value })}
+                 placeholder="Style, e.g. calm news reader"
+                 className="w-full px-2.5 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+               />
+               <select
+                 value={speechSettings.format}
+                 onChange={(e) => updateSpeechSettings({ format: e.target.value as SpeechFormat })}
+                 className="w-full p-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+                 title="File format"
+               >
+                 {SPEECH_FORMATS.map(format => (
+                   <option key={format.id} value={format.id} disabled={!format.isAvailable()}>{format.label}</option>
+                 ))}
+               </select>
             </div>
 
             {/* Generate Button (Sidebar) */}
-            <button
-              onClick={handleGenerateClick}
-              disabled={isGeneratingAudio}
-              className={`w-full py-3 rounded-xl font-medium shadow-sm transition-all flex items-center justify-center ${
-                isGeneratingAudio 
-                   ? 'bg-slate-100 text-slate-400 cursor-not-allowed' 
-                   : 'bg-slate-100 hover:bg-slate-200 text-slate-700 active:scale-[0.98]'
-              }`}
-            >
-              {isGeneratingAudio ? (
-                <>
-                  <Loader2 className="w-5 h-5 animate-spin mr-2" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <Play className="w-5 h-5 mr-2 fill-current" />
-                  Regenerate Audio
-                </>
-              )}
-            </button>
+            {isGeneratingAudio ? (
+              <div className="w-full py-3 rounded-xl bg-slate-100 text-slate-500 text-sm font-medium flex items-center justify-center">
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                {speechProgress && speechProgress.totalChunks > 1
+                  ? `Chunk ${Math.min(speechProgress.completedChunks + 1, speechProgress.totalChunks)} of ${speechProgress.totalChunks}`
+                  : 'Processing...'}
+                <button
+                  onClick={() => speechAbortRef.current?.abort()}
+                  className="ml-2 p-0.5 text-slate-400 hover:text-red-600 rounded"
+                  title="Cancel"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={handleGenerateClick}
+                className="w-full py-3 rounded-xl font-medium shadow-sm transition-all flex items-center justify-center bg-slate-100 hover:bg-slate-200 text-slate-700 active:scale-[0.98]"
+              >
+                <Play className="w-5 h-5 mr-2 fill-current" />
+                Regenerate Audio
+              </button>
+            )}
 
             {/* Audio Player Area */}
             {audioUrl ? (
@@ -225,7 +682,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
                     className="w-full flex items-center justify-center py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
                  >
                     <Download className="w-4 h-4 mr-2" />
-                    Download .WAV
+                    Download .{audioExtension.toUpperCase()}
                  </button>
               </div>
             ) : (
@@ -239,7 +696,7 @@ const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ transcript,
          </div>
 
          <div className="mt-auto p-4 bg-slate-50 text-[10px] text-slate-400 text-center leading-tight">
-            * Uses standard Gemini AI voices.
+            * Uses the selected provider's standard voices. Type [pause] or [pause 2s] in the transcript for extra silence.
          </div>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Languages, Loader2, X } from 'lucide-react';
+import { TranscriptionProgress, TranscriptionResult, TranslationMode } from '../types';
+import { removeTranslation, translateTranscript, TRANSLATION_MODES } from '../services/translationService';
+import { describeError, isAbortError } from '../services/errors';
+import { confirmJobCost, estimateTextUsage, trackUsage } from '../services/usageService';
+import { transcriptToPlainText } from '../utils/transcriptUtils';
+
+interface TranslationMenuProps {
+  transcript: TranscriptionResult;
+  sessionId: string | null; // usage is recorded against it
+  onTranscriptChange: (transcript: TranscriptionResult) => void;
+  showTranslation: boolean;
+  onShowTranslationChange: (show: boolean) => void;
+}
+
+const TranslationMenu: React.FC<TranslationMenuProps> = ({
+  transcript, sessionId, onTranscriptChange, showTranslation, onShowTranslationChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Stop a running translation when leaving the transcript
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const isTranslating = progress !== null;
+
+  const handleTranslate = async (mode: TranslationMode) => {
+    setIsOpen(false);
+    // Translations come back about as long as the original
+    const textLength = transcriptToPlainText(transcript).length;
+    if (!(await confirmJobCost(estimateTextUsage(textLength, textLength)))) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ completedChunks: 0, totalChunks: 0 });
+
+    try {
+      const translated = await translateTranscript(transcript, mode, {
+        onProgress: setProgress,
+        signal: controller.signal,
+        onUsage: trackUsage('translation', sessionId).onUsage,
+      });
+      onTranscriptChange(translated);
+      onShowTranslationChange(true);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(error);
+      const { title, message } = describeError(error);
+      alert(`Failed to translate the transcript. ${title}: ${message}`);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleRemove = () => {
+    setIsOpen(false);
+    onTranscriptChange(removeTranslation(transcript));
+  };
+
+  if (isTranslating) {
+    return (
+      <div className="flex items-center px-3 py-1.5 bg-white border border-slate-300 text-slate-700 text-sm font-medium rounded-lg shadow-sm">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin text-blue-600" />
+        {progress.totalChunks > 1 ? `${progress.completedChunks}/${progress.totalChunks}` : 'Translating'}
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="ml-2 p-0.5 text-slate-400 hover:text-red-600 rounded"
+          title="Cancel translation"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center px-3 py-1.5 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 text-sm font-medium rounded-lg transition-colors shadow-sm"
+      >
+        <Languages className="w-4 h-4 mr-2" />
+        Translate
+        <ChevronDown className="w-3.5 h-3.5 ml-1" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-xl shadow-lg border border-slate-200 p-2 z-20 space-y-1">
+          {TRANSLATION_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => handleTranslate(mode.id)}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-slate-700 hover:bg-slate-50 rounded-lg text-left"
+            >
+              {mode.label}
+              {transcript.translationMode === mode.id && <Check className="w-4 h-4 text-blue-600" />}
+            </button>
+          ))}
+
+          {transcript.translationMode && (
+            <div className="pt-2 mt-1 border-t border-slate-100 space-y-1">
+              <label className="flex items-center px-3 py-1.5 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showTranslation}
+                  onChange={(e) => onShowTranslationChange(e.target.checked)}
+                  className="mr-2 accent-blue-600"
+                />
+                Show side by side
+              </label>
+              <button
+                onClick={handleRemove}
+                className="w-full px-3 py-2 text-sm text-slate-500 hover:text-red-600 hover:bg-slate-50 rounded-lg text-left"
+              >
+                Remove translation
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationMenu;
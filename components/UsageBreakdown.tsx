@@ -0,0 +1,57 @@
+import React from 'react';
+import { formatCost, formatCount, UsageSummary } from '../services/usageService';
+
+interface UsageBreakdownProps {
+  rows: { key: string; label: string; summary: UsageSummary }[];
+  total?: UsageSummary; // adds a total row
+}
+
+const formatMinutes = (seconds: number): string => (seconds > 0 ? `${(seconds / 60).toFixed(1)} min` : '–');
+const formatOptional = (count: number): string => (count > 0 ? formatCount(count) : '–');
+
+const UsageBreakdown: React.FC<UsageBreakdownProps> = ({ rows, total }) => {
+  const estimated = rows.some(row => row.summary.estimated);
+  const unpriced = Array.from(new Set(rows.flatMap(row => row.summary.unpricedModels)));
+  const allRows = total ? [...rows, { key: '__total', label: 'Total', summary: total }] : rows;
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-400 text-right">
+            <th className="text-left font-normal pb-2"></th>
+            <th className="font-normal pb-2">Requests</th>
+            <th className="font-normal pb-2">Audio</th>
+            <th className="font-normal pb-2" title="Input tokens, text and audio">Tokens in</th>
+            <th className="font-normal pb-2">Tokens out</th>
+            <th className="font-normal pb-2" title="Characters sent for speech">Characters</th>
+            <th className="font-normal pb-2">Cost</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-600 text-right tabular-nums">
+          {allRows.map(({ key, label, summary }) => (
+            <tr key={key} className={`border-t border-slate-100 ${key === '__total' ? 'font-semibold text-slate-800' : ''}`}>
+              <td className="text-left py-1.5 pr-2 truncate max-w-[12rem]" title={label}>{label}</td>
+              <td className="py-1.5 px-2">{summary.requests}</td>
+              <td className="py-1.5 px-2">{formatMinutes(summary.audioSeconds)}</td>
+              <td className="py-1.5 px-2">{formatOptional(summary.inputTokens)}</td>
+              <td className="py-1.5 px-2">{formatOptional(summary.outputTokens)}</td>
+              <td className="py-1.5 px-2">{formatOptional(summary.characters)}</td>
+              <td className="py-1.5 pl-2">{formatCost(summary.cost)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {estimated && (
+        <p className="text-xs text-slate-400">Some counts are estimates; the provider or proxy server did not report them.</p>
+      )}
+      {unpriced.length > 0 && (
+        <p className="text-xs text-amber-600">
+          No price set for {unpriced.join(', ')}; add one in the usage dashboard to include it in costs.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UsageBreakdown;
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { BarChart3, ChevronLeft, ChevronRight, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import {
+  clearUsageRecords, createModelPrice, DEFAULT_PRICES, formatCost, getMonthKey, getUsageCost,
+  ModelPrice, saveUsageSettings, summarizeBy, summarizeUsage, USAGE_OPERATION_LABELS, UsageOperation, UsageSettings,
+} from '../services/usageService';
+import { useUsage } from '../hooks/useUsage';
+import UsageBreakdown from './UsageBreakdown';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 bg-white border border-slate-200 rounded text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500";
+
+const PRICE_COLUMNS: { field: Exclude<keyof ModelPrice, 'model'>; label: string }[] = [
+  { field: 'inputPerMillion', label: 'Input / 1M tokens' },
+  { field: 'audioInputPerMillion', label: 'Audio in / 1M tokens' },
+  { field: 'outputPerMillion', label: 'Output / 1M tokens' },
+  { field: 'perAudioMinute', label: 'Per audio minute' },
+  { field: 'perMillionCharacters', label: 'Per 1M characters' },
+];
+
+const parseAmount = (value: string): number => Math.max(0, Number(value) || 0);
+
+const shiftMonth = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return getMonthKey(new Date(year, monthIndex - 1 + delta, 1));
+};
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose }) => {
+  const [month, setMonth] = useState(() => getMonthKey(new Date()));
+  const { records: monthRecords, settings } = useUsage(isOpen ? { month } : null);
+
+  if (!isOpen) return null;
+
+  const currentMonth = getMonthKey(new Date());
+  const [year, monthIndex] = month.split('-').map(Number);
+  const monthLabel = new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const total = summarizeUsage(monthRecords, settings.prices);
+
+  // Daily cost, for the bar chart
+  const daysInMonth = new Date(year, monthIndex, 0).getDate();
+  const dailyCost = new Array<number>(daysInMonth).fill(0);
+  monthRecords.forEach(record => { dailyCost[new Date(record.time).getDate() - 1] += getUsageCost(record, settings.prices); });
+  const maxDaily = Math.max(...dailyCost);
+
+  const budgetShare = settings.monthlyBudget > 0 ? total.cost / settings.monthlyBudget : 0;
+  const budgetColor = budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-green-500';
+
+  const updateSettings = (patch: Partial<UsageSettings>) => saveUsageSettings({ ...settings, ...patch });
+
+  const updatePrice = (index: number, patch: Partial<ModelPrice>) => {
+    updateSettings({ prices: settings.prices.map((price, i) => (i === index ? { ...price, ...patch } : price)) });
+  };
+
+  const handleResetPrices = () => {
+    if (window.confirm("Replace the price table with the built-in prices?")) updateSettings({ prices: DEFAULT_PRICES });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Delete all recorded usage? Session breakdowns and monthly totals will start from zero.")) return;
+    clearUsageRecords().catch(error => console.error("Failed to clear usage records:", error));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/20" onClick={onClose} />
+
+      <div className="relative w-full max-w-4xl max-h-[85vh] bg-white rounded-2xl shadow-xl flex flex-col overflow-hidden">
+        <div className="px-5 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-700">
+            <BarChart3 className="w-5 h-5 text-blue-600" />
+            <span className="font-semibold text-sm uppercase tracking-wide">Usage & Costs</span>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-8">
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-1">
+                <button onClick={() => setMonth(shiftMonth(month, -1))} className="p-1 text-slate-400 hover:text-slate-700 rounded" title="Previous month">
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span className="text-sm font-medium text-slate-700 w-36 text-center">{monthLabel}</span>
+                <button
+                  onClick={() => setMonth(shiftMonth(month, 1))}
+                  disabled={month >= currentMonth}
+                  className="p-1 text-slate-400 hover:text-slate-700 rounded disabled:opacity-30"
+                  title="Next month"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-semibold text-slate-800">{formatCost(total.cost)}</div>
+                <div className="text-xs text-slate-400">estimated from the price table below</div>
+              </div>
+            </div>
+
+            {settings.monthlyBudget > 0 && (
+              <div className="space-y-1">
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className={`h-full ${budgetColor}`} style={{ width: `${Math.min(100, budgetShare * 100)}%` }} />
+                </div>
+                <div className="text-xs text-slate-500">
+                  {Math.round(budgetShare * 100)}% of the {formatCost(settings.monthlyBudget)} monthly budget
+                </div>
+              </div>
+            )}
+
+            {monthRecords.length === 0 ? (
+              <p className="text-sm text-slate-400 text-center py-6">No usage recorded in {monthLabel}.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-0.5 h-20">
+                  {dailyCost.map((cost, day) => (
+                    <div
+                      key={day}
+                      className="flex-1 bg-blue-500/70 rounded-t-sm min-h-px"
+                      style={{ height: maxDaily > 0 ? `${(cost / maxDaily) * 100}%` : 0 }}
+                      title={`${day + 1}: ${formatCost(cost)}`}
+                    />
+                  ))}
+                </div>
+                <UsageBreakdown
+                  rows={summarizeBy(monthRecords, settings.prices, record => record.operation)
+                    .map(({ key, summary }) => ({ key, label: USAGE_OPERATION_LABELS[key as UsageOperation] || key, summary }))}
+                  total={total}
+                />
+                <UsageBreakdown
+                  rows={summarizeBy(monthRecords, settings.prices, record => record.model)
+                    .map(({ key, summary }) => ({ key, label: key, summary }))}
+                />
+              </>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Budget</h3>
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <label className="text-xs text-slate-500 space-y-1">
+                <span>Monthly budget ($, 0 for none)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={settings.monthlyBudget}
+                  onChange={(e) => updateSettings({ monthlyBudget: parseAmount(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-slate-500 space-y-1">
+                <span>Ask before jobs above ($)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={settings.jobWarning}
+                  onChange={(e) => updateSettings({ jobWarning: parseAmount(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-slate-400">
+              Nothing is blocked: before a job that would go over the budget, or cost more than the limit on its own, you are asked to confirm.
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-semibold uppercase text-slate-500 tracking-wider">Prices (US$)</h3>
+              <button onClick={handleResetPrices} className="flex items-center text-xs text-slate-500 hover:text-blue-600">
+                <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                Reset to defaults
+              </button>
+            </div>
+            <div className="grid grid-cols-[2fr_repeat(5,1fr)_auto] gap-2 text-xs text-slate-400 px-1">
+              <span>Model</span>
+              {PRICE_COLUMNS.map(column => <span key={column.field}>{column.label}</span>)}
+              <span />
+            </div>
+            {settings.prices.map((price, index) => (
+              <div key={index} className="grid grid-cols-[2fr_repeat(5,1fr)_auto] gap-2 items-center">
+                <input value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} className={inputClass} />
+                {PRICE_COLUMNS.map(column => (
+                  <input
+                    key={column.field}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={price[column.field]}
+                    onChange={(e) => updatePrice(index, { [column.field]: parseAmount(e.target.value) })}
+                    className={inputClass}
+                  />
+                ))}
+                <button
+                  onClick={() => updateSettings({ prices: settings.prices.filter((_, i) => i !== index) })}
+                  className="p-1.5 text-slate-400 hover:text-red-600 rounded"
+                  title="Remove"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateSettings({ prices: [...settings.prices, createModelPrice()] })}
+              className="flex items-center px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+            >
+              <Plus className="w-4 h-4 mr-1.5" />
+              Add model
+            </button>
+          </section>
+
+          <div className="flex justify-end">
+            <button onClick={handleClear} className="text-sm text-slate-500 hover:text-red-600 hover:underline">
+              Clear usage history
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
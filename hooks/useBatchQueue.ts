@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatchJob, Language, TranscriptionSettings } from '../types';
+import { transcribeInChunks } from '../services/chunkedTranscription';
+import { getGlossary } from '../services/glossaryService';
+import { getStyle } from '../services/styleService';
+import { loadPreprocessOptions } from '../services/audioPreprocessor';
+import { createSession, saveSession } from '../services/historyService';
+import { ERROR_DESCRIPTIONS, isAbortError, toApiError } from '../services/errors';
+import { trackUsage } from '../services/usageService';
+import { getMimeType } from '../utils/fileUtils';
+
+// Each job already transcribes up to three chunks in parallel, so keep this low
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export interface BatchQueue {
+  jobs: BatchJob[];
+  concurrency: number;
+  setConcurrency: (limit: number) => void;
+  addFiles: (files: File[], language: Language, settings?: TranscriptionSettings) => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  remove: (id: string) => void;
+  clear: () => void;
+}
+
+const createJobId = (): string =>
+  `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Queue of uploaded files transcribed in the background, at most `concurrency` at a time.
+ * Finished transcripts are saved to history as they complete; cancelling aborts a job's requests.
+ */
+export const useBatchQueue = (onSessionSaved?: () => void): BatchQueue => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  // Running job ids mapped to the controller of their current attempt, so a stale attempt
+  // finishing after a cancel + retry can't overwrite the new one
+  const runningRef = useRef<Map<string, AbortController>>(new Map());
+  const onSessionSavedRef = useRef(onSessionSaved);
+  onSessionSavedRef.current = onSessionSaved;
+
+  const updateJob = useCallback((id: string, patch: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...patch } : job)));
+  }, []);
+
+  const runJob = useCallback(async (job: BatchJob) => {
+    const attempt = new AbortController();
+    const isCurrent = () => runningRef.current.get(job.id) === attempt;
+    runningRef.current.set(job.id, attempt);
+    updateJob(job.id, { status: 'processing', progress: null, error: null });
+
+    let patch: Partial<BatchJob>;
+    const usage = trackUsage('transcription');
+    try {
+      const mimeType = job.file.type || getMimeType();
+      const result = await transcribeInChunks(job.file, mimeType, job.language, {
+        onProgress: progress => {
+          if (isCurrent()) updateJob(job.id, { progress });
+        },
+        signal: attempt.signal,
+        preprocess: loadPreprocessOptions(),
+        glossary: getGlossary(job.glossaryId),
+        speakerHints: job.speakerHints,
+        style: getStyle(job.styleId),
+        onUsage: usage.onUsage,
+      });
+
+      let sessionId: string | null = null;
+      if (isCurrent()) {
+        const session = createSession(result, job.file, mimeType);
+        try {
+          await saveSession(session);
+          sessionId = session.id;
+          usage.assignTo(session.id);
+          onSessionSavedRef.current?.();
+        } catch (error) {
+          // The transcript is still downloadable from the queue
+          console.error("Failed to save batch session to history:", error);
+        }
+      }
+      patch = { status: 'done', transcript: result, sessionId };
+    } catch (error) {
+      if (!isAbortError(error)) console.error(`Batch transcription failed for ${job.file.name}:`, error);
+      patch = { status: 'failed', error: ERROR_DESCRIPTIONS[toApiError(error).kind].title };
+    }
+
+    // Cancelled (or removed) while in flight
+    if (!isCurrent()) return;
+    runningRef.current.delete(job.id);
+    updateJob(job.id, patch);
+  }, [updateJob]);
+
+  // Start queued jobs whenever a slot frees up
+  useEffect(() => {
+    const slots = concurrency - runningRef.current.size;
+    if (slots <= 0) return;
+    jobs
+      .filter(job => job.status === 'queued' && !runningRef.current.has(job.id))
+      .slice(0, slots)
+      .forEach(job => { runJob(job); });
+  }, [jobs, concurrency, runJob]);
+
+  const addFiles = useCallback((files: File[], language: Language, settings: TranscriptionSettings = {}) => {
+    const added: BatchJob[] = files.map(file => ({
+      id: createJobId(),
+      file,
+      language,
+      ...settings,
+      status: 'queued',
+      progress: null,
+      error: null,
+      sessionId: null,
+      transcript: null,
+    }));
+    setJobs(prev => [...prev, ...added]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setJobs(prev => prev.map(job =>
+      job.id === id && (job.status === 'failed' || job.status === 'cancelled')
+        ? { ...job, status: 'queued', error: null, progress: null }
+        : job
+    ));
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setJobs(prev => prev.map(job =>
+      job.status === 'failed' ? { ...job, status: 'queued', error: null, progress: null } : job
+    ));
+  }, []);
+
+  // Aborts a job's in-flight requests and forgets it, so its result is discarded
+  const stopJob = (id: string) => {
+    runningRef.current.get(id)?.abort();
+    runningRef.current.delete(id);
+  };
+
+  const stopAll = () => {
+    runningRef.current.forEach(controller => controller.abort());
+    runningRef.current.clear();
+  };
+
+  const cancel = useCallback((id: string) => {
+    stopJob(id);
+    setJobs(prev => prev.map(job =>
+      job.id === id && (job.status === 'queued' || job.status === 'processing')
+        ? { ...job, status: 'cancelled', progress: null }
+        : job
+    ));
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    stopAll();
+    setJobs(prev => prev.map(job =>
+      job.status === 'queued' || job.status === 'processing'
+        ? { ...job, status: 'cancelled', progress: null }
+        : job
+    ));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    stopJob(id);
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    stopAll();
+    setJobs([]);
+  }, []);
+
+  const updateConcurrency = useCallback((limit: number) => {
+    setConcurrency(Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, limit)));
+  }, []);
+
+  return {
+    jobs,
+    concurrency,
+    setConcurrency: updateConcurrency,
+    addFiles,
+    retry,
+    retryFailed,
+    cancel,
+    cancelAll,
+    remove,
+    clear,
+  };
+};
@@ -0,0 +1,60 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface UndoableState<T> {
+  state: T;
+  set: (next: T | ((prev: T) => T)) => void;
+  reset: (value: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// useState with an undo/redo stack. `reset` replaces the value and clears the history.
+export const useUndoableState = <T>(initial: T): UndoableState<T> => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T | ((prev: T) => T)) => {
+    setHistory(({ past, present }) => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(present) : next;
+      if (Object.is(value, present)) return { past, present, future: [] };
+      return { past: [...past, present].slice(-MAX_HISTORY), present: value, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(({ past, present, future }) => {
+      if (past.length === 0) return { past, present, future };
+      return { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(({ past, present, future }) => {
+      if (future.length === 0) return { past, present, future };
+      return { past: [...past, present], present: future[0], future: future.slice(1) };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
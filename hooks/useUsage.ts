@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { loadUsageRecords, loadUsageSettings, subscribeToUsage, UsageQuery, UsageRecord, UsageSettings } from '../services/usageService';
+
+export interface Usage {
+  records: UsageRecord[];
+  settings: UsageSettings;
+}
+
+// Usage records for a month or a session, and the price settings, kept current as requests are
+// recorded and prices edited. Pass null to load nothing, e.g. for a transcript not saved to history.
+export const useUsage = (query: UsageQuery | null): Usage => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      setSettings(loadUsageSettings());
+      if (!query) {
+        setRecords([]);
+        return;
+      }
+      loadUsageRecords(query).then(loaded => { if (!cancelled) setRecords(loaded); });
+    };
+    refresh();
+    const unsubscribe = subscribeToUsage(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [queryKey]);
+
+  return { records, settings };
+};
@@ -0,0 +1,236 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createRequestHandler } from './app.js';
+import { loadConfig, ServerConfig } from './config.js';
+import { createStubBackend, ModelBackend, SPEECH_VOICES } from './models.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { UsageEntry } from './usageLog.js';
+
+// Runs the request handler against the stub model on a free port
+
+const KB = 1024;
+
+const TEST_CONFIG: ServerConfig = {
+  port: 0,
+  model: 'stub',
+  geminiApiKey: '',
+  maxUploadBytes: 64 * KB,
+  maxTextBytes: 16 * KB,
+  requestsPerMinute: 100,
+  allowedOrigin: '*',
+  tokens: new Map(),
+  trustProxy: false,
+  usageLogFile: '',
+};
+
+interface TestApp {
+  url: string;
+  usage: UsageEntry[];
+  close: () => Promise<void>;
+}
+
+const startApp = async (config: Partial<ServerConfig> = {}, backend: ModelBackend = createStubBackend()): Promise<TestApp> => {
+  const fullConfig = { ...TEST_CONFIG, ...config };
+  const usage: UsageEntry[] = [];
+  const server: Server = createServer(createRequestHandler({
+    config: fullConfig,
+    backend,
+    rateLimiter: createRateLimiter(fullConfig.requestsPerMinute),
+    logUsage: entry => usage.push(entry),
+  }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    usage,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+const postJson = (app: TestApp, path: string, payload: unknown, headers: Record<string, string> = {}) =>
+  fetch(`${app.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(payload),
+  });
+
+const audioForm = (bytes: number = 1000, mimeType: string = 'audio/wav'): FormData => {
+  const form = new FormData();
+  form.append('audio', new Blob([new Uint8Array(bytes)], { type: mimeType }), 'audio');
+  form.append('mimeType', mimeType);
+  form.append('instruction', 'Transcribe the audio.');
+  return form;
+};
+
+const errorCode = async (response: Response): Promise<string> => ((await response.json()) as { error: string }).error;
+
+describe('proxy server', () => {
+  let app: TestApp;
+  before(async () => { app = await startApp(); });
+  after(() => app.close());
+
+  it('reports its health', async () => {
+    const response = await fetch(`${app.url}/health`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { ok: true, model: 'stub' });
+  });
+
+  it('generates text', async () => {
+    const response = await postJson(app, '/generate', { instruction: 'Echo.', input: 'hello world', json: false });
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), 'hello world');
+  });
+
+  it('rejects bad /generate bodies with 400', async () => {
+    const missing = await postJson(app, '/generate', { instruction: 'Echo.' });
+    assert.equal(missing.status, 400);
+    assert.equal(await errorCode(missing), 'bad-request');
+
+    const notJson = await fetch(`${app.url}/generate`, { method: 'POST', body: '{not json' });
+    assert.equal(notJson.status, 400);
+  });
+
+  it('transcribes audio', async () => {
+    const response = await fetch(`${app.url}/transcribe`, { method: 'POST', body: audioForm() });
+    assert.equal(response.status, 200);
+    const data = (await response.json()) as { segments: unknown[] };
+    assert.equal(data.segments.length, 2);
+  });
+
+  it('rejects a malformed multipart body with 400', async () => {
+    const response = await fetch(`${app.url}/transcribe`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'multipart/form-data; boundary=xyz' },
+      body: 'garbage',
+    });
+    assert.equal(response.status, 400);
+    assert.equal(await errorCode(response), 'bad-request');
+  });
+
+  it('rejects /transcribe requests without audio or with other media', async () => {
+    const form = new FormData();
+    form.append('instruction', 'Transcribe the audio.');
+    const missing = await fetch(`${app.url}/transcribe`, { method: 'POST', body: form });
+    assert.equal(missing.status, 400);
+
+    const image = await fetch(`${app.url}/transcribe`, { method: 'POST', body: audioForm(1000, 'image/png') });
+    assert.equal(image.status, 415);
+
+    const notMultipart = await postJson(app, '/transcribe', { audio: '' });
+    assert.equal(notMultipart.status, 415);
+  });
+
+  it('speaks text as PCM', async () => {
+    const response = await postJson(app, '/tts', { text: 'Hello.', voice: SPEECH_VOICES[0] });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('X-Sample-Rate'), String(createStubBackend().speechSampleRate));
+    const pcm = new Uint8Array(await response.arrayBuffer());
+    assert.ok(pcm.length > 0 && pcm.length % 2 === 0);
+  });
+
+  it('rejects unknown voices and over-long text', async () => {
+    const voice = await postJson(app, '/tts', { text: 'Hello.', voice: 'Nobody' });
+    assert.equal(voice.status, 400);
+
+    const long = await postJson(app, '/tts', { text: 'a'.repeat(5001), voice: SPEECH_VOICES[0] });
+    assert.equal(long.status, 413);
+  });
+
+  it('enforces the size limits', async () => {
+    const upload = await fetch(`${app.url}/transcribe`, { method: 'POST', body: audioForm(TEST_CONFIG.maxUploadBytes + KB) });
+    assert.equal(upload.status, 413);
+
+    const text = await postJson(app, '/generate', { instruction: 'Echo.', input: 'a'.repeat(TEST_CONFIG.maxTextBytes) });
+    assert.equal(text.status, 413);
+  });
+
+  it('answers unknown routes and methods', async () => {
+    assert.equal((await fetch(`${app.url}/nothing`, { method: 'POST' })).status, 404);
+    assert.equal((await fetch(`${app.url}/generate`)).status, 405);
+  });
+
+  it('logs every request', async () => {
+    const before = app.usage.length;
+    await postJson(app, '/generate', { instruction: 'Echo.', input: 'logged' });
+    const entry = app.usage[before];
+    assert.equal(entry.endpoint, '/generate');
+    assert.equal(entry.status, 200);
+    assert.equal(entry.responseBytes, 'logged'.length);
+  });
+});
+
+describe('access control', () => {
+  let app: TestApp;
+  before(async () => { app = await startApp({ tokens: new Map([['secret', 'alice']]), requestsPerMinute: 2 }); });
+  after(() => app.close());
+
+  it('needs a known token', async () => {
+    const payload = { instruction: 'Echo.', input: 'hi' };
+    assert.equal((await postJson(app, '/generate', payload)).status, 401);
+    assert.equal((await postJson(app, '/generate', payload, { Authorization: 'Bearer wrong' })).status, 401);
+  });
+
+  it('limits requests per user', async () => {
+    const payload = { instruction: 'Echo.', input: 'hi' };
+    const headers = { Authorization: 'Bearer secret' };
+    assert.equal((await postJson(app, '/generate', payload, headers)).status, 200);
+    assert.equal((await postJson(app, '/generate', payload, headers)).status, 200);
+    const limited = await postJson(app, '/generate', payload, headers);
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('Retry-After')) > 0);
+    assert.equal(app.usage[app.usage.length - 1].user, 'alice');
+  });
+});
+
+describe('model failures', () => {
+  const failing = (error: Error): ModelBackend => ({
+    ...createStubBackend(),
+    async *generate() {
+      throw error;
+    },
+  });
+
+  it('reports upstream errors as a bad gateway', async () => {
+    const app = await startApp({}, failing(new Error('connection reset')));
+    try {
+      const response = await postJson(app, '/generate', { instruction: 'Echo.', input: 'hi' });
+      assert.equal(response.status, 502);
+      assert.equal(await errorCode(response), 'upstream');
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('keeps the status of upstream client errors', async () => {
+    const app = await startApp({}, failing(Object.assign(new Error('quota'), { status: 429 })));
+    try {
+      const response = await postJson(app, '/generate', { instruction: 'Echo.', input: 'hi' });
+      assert.equal(response.status, 429);
+    } finally {
+      await app.close();
+    }
+  });
+});
+
+describe('loadConfig', () => {
+  it('refuses to run as an open relay', () => {
+    assert.throws(() => loadConfig({ PROXY_MODEL: 'stub' }), /PROXY_TOKENS or ALLOWED_ORIGIN/);
+  });
+
+  it('starts with tokens, an origin, or the local opt-out', () => {
+    assert.equal(loadConfig({ PROXY_MODEL: 'stub', PROXY_TOKENS: 'alice:secret' }).tokens.get('secret'), 'alice');
+    assert.equal(loadConfig({ PROXY_MODEL: 'stub', ALLOWED_ORIGIN: 'https://scribe.example.com' }).allowedOrigin, 'https://scribe.example.com');
+    assert.equal(loadConfig({ PROXY_MODEL: 'stub', ALLOW_OPEN_PROXY: '1' }).allowedOrigin, '*');
+  });
+
+  it('keeps the default upload under the inline request limit after base64', () => {
+    const config = loadConfig({ PROXY_MODEL: 'stub', ALLOW_OPEN_PROXY: '1' });
+    assert.ok(config.maxUploadBytes * 4 / 3 < 20 * 1024 * 1024);
+  });
+
+  it('needs a Gemini key for the real model', () => {
+    assert.throws(() => loadConfig({ ALLOW_OPEN_PROXY: '1' }), /GEMINI_API_KEY/);
+  });
+});
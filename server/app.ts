@@ -0,0 +1,241 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ServerConfig } from './config.js';
+import { HttpError, toHttpError, toUpstreamError } from './errors.js';
+import { ModelBackend, ModelUsage, SPEECH_VOICES } from './models.js';
+import { RateLimiter } from './rateLimiter.js';
+import { UsageLogger } from './usageLog.js';
+
+// Routes:
+//   POST /transcribe  multipart form: audio (file), mimeType, instruction -> transcript JSON as text
+//   POST /tts         JSON { text, voice } -> 16-bit mono PCM, rate in X-Sample-Rate
+//   POST /generate    JSON { instruction, input, json } -> model text
+//   GET  /health
+
+export interface AppDependencies {
+  config: ServerConfig;
+  backend: ModelBackend;
+  rateLimiter: RateLimiter;
+  logUsage: UsageLogger;
+}
+
+interface RequestContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  signal: AbortSignal; // aborted when the client goes away
+  requestBytes: number;
+  responseBytes: number;
+  usage?: ModelUsage; // token counts reported by the model
+}
+
+const MAX_TTS_CHARS = 5000;
+
+const readBody = async (context: RequestContext, limit: number): Promise<Buffer> => {
+  const declared = Number(context.req.headers['content-length']);
+  if (declared > limit) {
+    throw new HttpError(413, 'payload-too-large', `Request body exceeds ${limit} bytes.`);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of context.req) {
+    context.requestBytes += chunk.length;
+    if (context.requestBytes > limit) {
+      throw new HttpError(413, 'payload-too-large', `Request body exceeds ${limit} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+const readJson = async (context: RequestContext, limit: number): Promise<Record<string, unknown>> => {
+  const body = await readBody(context, limit);
+  try {
+    const data = JSON.parse(body.toString('utf8'));
+    if (data && typeof data === 'object' && !Array.isArray(data)) return data;
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'bad-request', "Expected a JSON object.");
+};
+
+const requireString = (data: Record<string, unknown>, field: string): string => {
+  const value = data[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'bad-request', `Missing "${field}".`);
+  }
+  return value;
+};
+
+// Waits for the first chunk before sending headers, so errors the model reports up front
+// (blocked content, bad key, quota) still get a proper status code
+const stream = async (context: RequestContext, chunks: AsyncIterable<string | Uint8Array>, headers: Record<string, string>) => {
+  const { res } = context;
+  const iterator = chunks[Symbol.asyncIterator]();
+  const nextChunk = async () => {
+    try {
+      return await iterator.next();
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+  };
+  let next = await nextChunk();
+  res.writeHead(200, headers);
+  while (!next.done) {
+    const data = typeof next.value === 'string' ? Buffer.from(next.value, 'utf8') : next.value;
+    context.responseBytes += data.length;
+    res.write(data);
+    next = await nextChunk();
+  }
+  res.end();
+};
+
+const reportUsage = (context: RequestContext) => (usage: ModelUsage) => {
+  context.usage = usage;
+};
+
+const handleTranscribe = async (context: RequestContext, { config, backend }: AppDependencies) => {
+  const contentType = context.req.headers['content-type'] || '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    throw new HttpError(415, 'bad-request', "Expected multipart/form-data.");
+  }
+  const body = await readBody(context, config.maxUploadBytes);
+  let form: FormData;
+  try {
+    form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+  } catch {
+    throw new HttpError(400, 'bad-request', "Could not read the multipart form.");
+  }
+
+  const audio = form.get('audio');
+  const instruction = form.get('instruction');
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    throw new HttpError(400, 'bad-request', 'Missing "audio".');
+  }
+  if (typeof instruction !== 'string' || !instruction.trim()) {
+    throw new HttpError(400, 'bad-request', 'Missing "instruction".');
+  }
+  const mimeTypeField = form.get('mimeType');
+  const mimeType = typeof mimeTypeField === 'string' && mimeTypeField ? mimeTypeField : audio.type;
+  if (!/^(audio|video)\//.test(mimeType)) {
+    throw new HttpError(415, 'unsupported-audio', `Unsupported media type "${mimeType}".`);
+  }
+
+  const data = new Uint8Array(await audio.arrayBuffer());
+  await stream(context, backend.transcribe(data, mimeType, instruction, context.signal, reportUsage(context)), {
+    'Content-Type': 'application/json; charset=utf-8',
+  });
+};
+
+const handleTts = async (context: RequestContext, { config, backend }: AppDependencies) => {
+  const data = await readJson(context, config.maxTextBytes);
+  const text = requireString(data, 'text');
+  const voice = requireString(data, 'voice');
+  if (text.length > MAX_TTS_CHARS) {
+    throw new HttpError(413, 'payload-too-large', `Text exceeds ${MAX_TTS_CHARS} characters; send it in chunks.`);
+  }
+  if (!SPEECH_VOICES.includes(voice)) {
+    throw new HttpError(400, 'bad-request', `Unknown voice "${voice}".`);
+  }
+
+  await stream(context, backend.speak(text, voice, context.signal, reportUsage(context)), {
+    'Content-Type': 'application/octet-stream',
+    'X-Sample-Rate': String(backend.speechSampleRate),
+  });
+};
+
+const handleGenerate = async (context: RequestContext, { config, backend }: AppDependencies) => {
+  const data = await readJson(context, config.maxTextBytes);
+  const instruction = requireString(data, 'instruction');
+  const input = requireString(data, 'input');
+  const json = data.json === true;
+
+  await stream(context, backend.generate(instruction, input, json, context.signal, reportUsage(context)), {
+    'Content-Type': json ? 'application/json; charset=utf-8' : 'text/plain; charset=utf-8',
+  });
+};
+
+const ROUTES: Record<string, (context: RequestContext, deps: AppDependencies) => Promise<void>> = {
+  '/transcribe': handleTranscribe,
+  '/tts': handleTts,
+  '/generate': handleGenerate,
+};
+
+const identifyUser = (req: IncomingMessage, config: ServerConfig): string => {
+  if (config.tokens.size > 0) {
+    const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '')?.[1]?.trim();
+    const user = token ? config.tokens.get(token) : undefined;
+    if (!user) throw new HttpError(401, 'invalid-key', "Missing or unknown access token.");
+    return user;
+  }
+  const forwarded = config.trustProxy ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const sendError = (res: ServerResponse, error: HttpError) => {
+  if (res.headersSent) {
+    // Already streaming: cutting the connection is the only way to tell the client
+    res.destroy(error);
+    return;
+  }
+  const headers: Record<string, string> = { 'Content-Type': 'application/json; charset=utf-8', Connection: 'close' };
+  if (error.retryAfterSeconds) headers['Retry-After'] = String(error.retryAfterSeconds);
+  res.writeHead(error.status, headers);
+  res.end(JSON.stringify({ error: error.code, message: error.message }));
+};
+
+export const createRequestHandler = (deps: AppDependencies) => async (req: IncomingMessage, res: ServerResponse) => {
+  const { config, rateLimiter, logUsage } = deps;
+  const started = Date.now();
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-Sample-Rate');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'GET' && path === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ ok: true, model: deps.backend.id }));
+    return;
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const context: RequestContext = { req, res, signal: controller.signal, requestBytes: 0, responseBytes: 0 };
+  let user = 'unknown';
+
+  try {
+    const route = ROUTES[path];
+    if (!route) throw new HttpError(404, 'not-found', `No route for ${path}.`);
+    if (req.method !== 'POST') throw new HttpError(405, 'bad-request', "Use POST.");
+
+    user = identifyUser(req, config);
+    const limit = rateLimiter.check(user);
+    if (!limit.allowed) {
+      throw new HttpError(429, 'quota-exceeded', "Too many requests; slow down.", limit.retryAfterSeconds);
+    }
+
+    await route(context, deps);
+  } catch (error) {
+    const httpError = toHttpError(error);
+    if (!controller.signal.aborted) {
+      if (httpError.status >= 500) console.error(`${path} failed:`, error);
+      sendError(res, httpError);
+    }
+  } finally {
+    logUsage({
+      time: new Date(started).toISOString(),
+      user,
+      endpoint: path,
+      status: controller.signal.aborted ? 499 : res.statusCode,
+      requestBytes: context.requestBytes,
+      responseBytes: context.responseBytes,
+      durationMs: Date.now() - started,
+      ...context.usage,
+    });
+  }
+};
@@ -0,0 +1,62 @@
+// Server settings, read from the environment (see the "Proxy Server" section of the README)
+
+export type ModelBackendId = 'gemini' | 'stub';
+
+export interface ServerConfig {
+  port: number;
+  model: ModelBackendId;
+  geminiApiKey: string;
+  maxUploadBytes: number; // audio sent to /transcribe
+  maxTextBytes: number; // JSON bodies of /tts and /generate
+  requestsPerMinute: number; // per user
+  allowedOrigin: string; // CORS origin, '*' for any
+  tokens: Map<string, string>; // bearer token -> user name; empty to identify users by IP
+  trustProxy: boolean; // take the client IP from X-Forwarded-For
+  usageLogFile: string;
+}
+
+const MB = 1024 * 1024;
+
+const number = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// "alice:secret1,bob:secret2"
+const parseTokens = (value: string = ''): Map<string, string> => {
+  const tokens = new Map<string, string>();
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const user = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (user && token) tokens.set(token, user);
+  }
+  return tokens;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const config: ServerConfig = {
+    port: number(env.PORT, 8787),
+    model: env.PROXY_MODEL === 'stub' ? 'stub' : 'gemini',
+    geminiApiKey: env.GEMINI_API_KEY || '',
+    // Base64 adds a third on the way to Gemini, whose inline requests are capped at about 20 MB
+    maxUploadBytes: number(env.MAX_UPLOAD_MB, 14) * MB,
+    maxTextBytes: number(env.MAX_TEXT_MB, 2) * MB,
+    requestsPerMinute: number(env.RATE_LIMIT_PER_MINUTE, 30),
+    allowedOrigin: env.ALLOWED_ORIGIN || '*',
+    tokens: parseTokens(env.PROXY_TOKENS),
+    trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+    usageLogFile: env.USAGE_LOG_FILE || 'usage.log',
+  };
+
+  if (config.model === 'gemini' && !config.geminiApiKey) {
+    throw new Error("GEMINI_API_KEY is not set. Set it, or run with PROXY_MODEL=stub.");
+  }
+  // The endpoints take any prompt, so without tokens or an origin anyone could use the key
+  const isOpen = config.tokens.size === 0 && config.allowedOrigin === '*';
+  if (isOpen && env.ALLOW_OPEN_PROXY !== '1' && env.ALLOW_OPEN_PROXY !== 'true') {
+    throw new Error("Set PROXY_TOKENS or ALLOWED_ORIGIN, or ALLOW_OPEN_PROXY=1 to accept requests from anyone (local use only).");
+  }
+  return config;
+};
@@ -0,0 +1,34 @@
+// Errors that map onto an HTTP response. `code` lets the client tell apart cases that share
+// a status (see services/geminiProxy.ts).
+
+export class HttpError extends Error {
+  status: number;
+  code: string;
+  retryAfterSeconds?: number;
+
+  constructor(status: number, code: string, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+// Errors from the model backend. The Gemini SDK carries the upstream status; keep client errors,
+// report the rest as a bad gateway, which the browser retries.
+export const toUpstreamError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : 0;
+  if (status === 429) return new HttpError(429, 'quota-exceeded', message);
+  if (status >= 400 && status < 500) return new HttpError(status, 'upstream', message);
+  return new HttpError(502, 'upstream', message);
+};
+
+// Anything else that escapes a handler is a bug in the server. It is not the model's fault, so it is
+// not reported as a bad gateway.
+export const toHttpError = (error: unknown): HttpError => {
+  if (error instanceof HttpError) return error;
+  return new HttpError(500, 'internal', error instanceof Error ? error.message : String(error));
+};
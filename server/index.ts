@@ -0,0 +1,22 @@
+import { createServer } from 'node:http';
+import { loadConfig } from './config.js';
+import { createRequestHandler } from './app.js';
+import { createGeminiBackend, createStubBackend } from './models.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { createUsageLogger } from './usageLog.js';
+
+// ScribeFlow proxy server: holds the Gemini API key so the browser bundle does not have to
+
+const config = loadConfig();
+const backend = config.model === 'stub' ? createStubBackend() : createGeminiBackend(config.geminiApiKey);
+
+const server = createServer(createRequestHandler({
+  config,
+  backend,
+  rateLimiter: createRateLimiter(config.requestsPerMinute),
+  logUsage: createUsageLogger(config.usageLogFile),
+}));
+
+server.listen(config.port, () => {
+  console.log(`ScribeFlow proxy listening on http://localhost:${config.port} (model: ${backend.id})`);
+});
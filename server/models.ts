@@ -0,0 +1,141 @@
+import { FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from '@google/genai';
+import { GEMINI_MODELS, GEMINI_TTS_SAMPLE_RATE, GEMINI_VOICES, GeminiTokenCounts, readTokenCounts, TRANSCRIPT_SCHEMA } from '../services/geminiModels.js';
+import { ModelBackendId } from './config.js';
+import { HttpError } from './errors.js';
+
+// What the endpoints call. Results are streamed so long transcripts and audio start flowing
+// back to the browser before the model has finished. Token counts arrive with the last chunk
+// and are passed to `onUsage` once a stream completes.
+
+export interface ModelUsage extends GeminiTokenCounts {
+  model: string;
+}
+
+export type UsageReporter = (usage: ModelUsage) => void;
+
+export interface ModelBackend {
+  id: ModelBackendId;
+  speechSampleRate: number;
+  transcribe: (audio: Uint8Array, mimeType: string, instruction: string, signal: AbortSignal, onUsage: UsageReporter) => AsyncIterable<string>;
+  speak: (text: string, voice: string, signal: AbortSignal, onUsage: UsageReporter) => AsyncIterable<Uint8Array>;
+  generate: (instruction: string, input: string, json: boolean, signal: AbortSignal, onUsage: UsageReporter) => AsyncIterable<string>;
+}
+
+export const SPEECH_VOICES = GEMINI_VOICES.map(voice => voice.id);
+
+const ensureNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new HttpError(422, 'safety-blocked', `Response blocked: ${blockReason || finishReason}`);
+  }
+};
+
+async function* textOf(stream: AsyncIterable<GenerateContentResponse>, model: string, onUsage: UsageReporter): AsyncIterable<string> {
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  for await (const response of stream) {
+    ensureNotBlocked(response);
+    usage = response.usageMetadata || usage;
+    if (response.text) yield response.text;
+  }
+  onUsage({ model, ...readTokenCounts(usage) });
+}
+
+export const createGeminiBackend = (apiKey: string): ModelBackend => {
+  const client = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    speechSampleRate: GEMINI_TTS_SAMPLE_RATE,
+
+    async *transcribe(audio, mimeType, instruction, signal, onUsage) {
+      yield* textOf(await client.models.generateContentStream({
+        model: GEMINI_MODELS.transcription,
+        contents: {
+          parts: [
+            { inlineData: { mimeType, data: Buffer.from(audio).toString('base64') } },
+            { text: instruction },
+          ],
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: TRANSCRIPT_SCHEMA,
+          abortSignal: signal,
+        },
+      }), GEMINI_MODELS.transcription, onUsage);
+    },
+
+    async *speak(text, voice, signal, onUsage) {
+      const stream = await client.models.generateContentStream({
+        model: GEMINI_MODELS.speech,
+        contents: { parts: [{ text }] },
+        config: {
+          responseModalities: ['AUDIO'],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+          abortSignal: signal,
+        },
+      });
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const response of stream) {
+        ensureNotBlocked(response);
+        usage = response.usageMetadata || usage;
+        for (const part of response.candidates?.[0]?.content?.parts || []) {
+          if (part.inlineData?.data) yield Buffer.from(part.inlineData.data, 'base64');
+        }
+      }
+      onUsage({ model: GEMINI_MODELS.speech, ...readTokenCounts(usage) });
+    },
+
+    async *generate(instruction, input, json, signal, onUsage) {
+      yield* textOf(await client.models.generateContentStream({
+        model: GEMINI_MODELS.text,
+        contents: input,
+        config: {
+          systemInstruction: instruction,
+          responseMimeType: json ? 'application/json' : undefined,
+          abortSignal: signal,
+        },
+      }), GEMINI_MODELS.text, onUsage);
+    },
+  };
+};
+
+// Canned output for local runs and tests, without an API key or network access
+const STUB_TRANSCRIPT = JSON.stringify({
+  segments: [
+    { start: 0, end: 3.5, speaker: 'Speaker 1', language: 'English', confidence: 0.95, text: 'Good morning, and welcome to today\'s meeting.' },
+    { start: 3.5, end: 7, speaker: 'Speaker 2', language: 'Urdu', confidence: 0.9, text: 'شکریہ۔ ہم پچھلے ہفتے کی رپورٹ سے شروع کرتے ہیں۔' },
+  ],
+});
+
+// Splits a string into a few pieces so clients see a genuinely streamed response
+function* pieces(text: string, size: number = 64): Iterable<string> {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size);
+}
+
+export const createStubBackend = (): ModelBackend => ({
+  id: 'stub',
+  speechSampleRate: GEMINI_TTS_SAMPLE_RATE,
+
+  async *transcribe() {
+    yield* pieces(STUB_TRANSCRIPT);
+  },
+
+  // A short 440 Hz tone per request, in 100 ms blocks
+  async *speak() {
+    const blockSamples = GEMINI_TTS_SAMPLE_RATE / 10;
+    for (let block = 0; block < 5; block++) {
+      const pcm = Buffer.alloc(blockSamples * 2);
+      for (let i = 0; i < blockSamples; i++) {
+        const t = (block * blockSamples + i) / GEMINI_TTS_SAMPLE_RATE;
+        pcm.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 440 * t) * 0.3 * 0x7fff), i * 2);
+      }
+      yield pcm;
+    }
+  },
+
+  // Echoes the input, like the browser's mock provider
+  async *generate(_instruction, input) {
+    yield* pieces(input);
+  },
+});
@@ -0,0 +1,37 @@
+// Fixed one-minute windows per user. Simple, and good enough for a handful of users on one process.
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check: (user: string) => RateLimitResult;
+}
+
+export const createRateLimiter = (requestsPerMinute: number, now: () => number = Date.now): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check: (user) => {
+      const time = now();
+      let window = windows.get(user);
+      if (!window || time - window.start >= WINDOW_MS) {
+        // Drop stale windows so the map does not grow with every address ever seen
+        for (const [key, value] of windows) {
+          if (time - value.start >= WINDOW_MS) windows.delete(key);
+        }
+        window = { start: time, count: 0 };
+        windows.set(user, window);
+      }
+
+      if (window.count >= requestsPerMinute) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.start + WINDOW_MS - time) / 1000) };
+      }
+      window.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
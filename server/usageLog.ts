@@ -0,0 +1,28 @@
+import { appendFile } from 'node:fs/promises';
+
+// One JSON line per request, for billing and spotting abuse
+
+export interface UsageEntry {
+  time: string;
+  user: string;
+  endpoint: string;
+  status: number;
+  requestBytes: number;
+  responseBytes: number;
+  durationMs: number;
+  // From the model's usage metadata; absent for failed requests and the stub backend
+  model?: string;
+  inputTokens?: number;
+  audioTokens?: number;
+  outputTokens?: number;
+}
+
+export type UsageLogger = (entry: UsageEntry) => void;
+
+export const createUsageLogger = (file: string): UsageLogger => (entry) => {
+  const tokens = entry.model ? `, ${entry.model} ${(entry.inputTokens || 0) + (entry.audioTokens || 0)}/${entry.outputTokens} tokens` : '';
+  console.log(`${entry.time} ${entry.user} ${entry.endpoint} ${entry.status} ${entry.requestBytes}B in, ${entry.responseBytes}B out, ${entry.durationMs}ms${tokens}`);
+  appendFile(file, `${JSON.stringify(entry)}\n`).catch(error => {
+    console.error(`Could not write usage log ${file}:`, error);
+  });
+};
@@ -0,0 +1,101 @@
+import { ApiError, toApiError } from "./errors";
+
+export interface RetryOptions {
+  signal?: AbortSignal; // cancels the whole operation, including pending backoff waits
+  timeoutMs?: number; // per attempt
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+// Transcribing a 5-minute chunk routinely takes over a minute
+export const DEFAULT_TIMEOUT_MS = 180_000;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+const cancelledError = () => new ApiError('cancelled', 'The request was cancelled.');
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+// Resolves after `ms`, or rejects as soon as `signal` is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with full jitter; a server-provided Retry-After wins
+const backoffDelay = (attempt: number, baseDelayMs: number, error: ApiError) => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  const ceiling = Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Runs `request` with a per-attempt timeout, retrying rate limits, server errors,
+ * timeouts and network failures with exponential backoff. Every failure is rethrown
+ * as a typed `ApiError`. `request` must pass the signal it receives on to fetch/the SDK.
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await request(controller.signal);
+    } catch (error) {
+      const apiError = timedOut
+        ? new ApiError('timeout', `No response after ${Math.round(timeoutMs / 1000)} seconds.`, { cause: error })
+        : signal?.aborted ? cancelledError() : toApiError(error);
+
+      if (!apiError.retryable || attempt + 1 >= maxAttempts) throw apiError;
+
+      const delay = backoffDelay(attempt, baseDelayMs, apiError);
+      console.warn(`Request failed (${apiError.kind}), retrying in ${Math.round(delay)} ms:`, apiError.message);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
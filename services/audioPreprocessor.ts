@@ -0,0 +1,194 @@
+import { decodeToMono, encodeWav, MonoAudio } from "../utils/audioUtils";
+
+// Cleans up audio before it is sent for transcription: the decode step already extracts
+// the audio track, downmixes to mono and resamples to 16 kHz; on top of that long pauses
+// are shortened and the level is normalized. Output is 16-bit WAV, which is also what
+// long recordings are split into, so every request carries the same format.
+
+export interface PreprocessOptions {
+  enabled: boolean;
+  trimSilence: boolean;
+  normalize: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  trimSilence: true,
+  normalize: true,
+};
+
+// Maps a stretch of the processed audio back to where it came from in the original
+export interface TimeMapping {
+  sourceStart: number; // seconds in the original audio
+  outputStart: number; // seconds in the processed audio
+  duration: number;
+}
+
+export interface PreprocessedAudio {
+  audio: MonoAudio;
+  wav: Blob;
+  timeMap: TimeMapping[];
+  originalSize: number;
+  originalDuration: number;
+}
+
+const FRAME_SECONDS = 0.02;
+const MIN_SILENCE_SECONDS = 1.5; // shorter pauses are part of normal speech rhythm
+const KEEP_SILENCE_SECONDS = 0.5; // what remains of a trimmed pause, split around the cut
+const TARGET_RMS = 0.1; // ~-20 dBFS for speech
+const PEAK_LIMIT = 0.95;
+const MAX_GAIN = 10;
+
+const STORAGE_KEY = 'scribeflow.preprocessOptions';
+
+export const loadPreprocessOptions = (): PreprocessOptions => {
+  try {
+    return { ...DEFAULT_PREPROCESS_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_PREPROCESS_OPTIONS };
+  }
+};
+
+export const savePreprocessOptions = (options: PreprocessOptions): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
+
+const frameLevels = (samples: Float32Array, frameSize: number): Float32Array => {
+  const levels = new Float32Array(Math.ceil(samples.length / frameSize));
+  for (let f = 0; f < levels.length; f++) {
+    const from = f * frameSize;
+    const to = Math.min(samples.length, from + frameSize);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    levels[f] = Math.sqrt(sum / Math.max(1, to - from));
+  }
+  return levels;
+};
+
+// Speech threshold relative to the recording's own noise floor, so hissy phone
+// recordings and clean studio audio are both handled
+const speechThreshold = (levels: Float32Array): number => {
+  const sorted = Float32Array.from(levels).sort();
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] || 0;
+  return Math.min(0.03, Math.max(0.003, noiseFloor * 3));
+};
+
+export const trimSilence = (audio: MonoAudio): { audio: MonoAudio; timeMap: TimeMapping[] } => {
+  const { samples, sampleRate } = audio;
+  const frameSize = Math.max(1, Math.floor(sampleRate * FRAME_SECONDS));
+  const levels = frameLevels(samples, frameSize);
+  const threshold = speechThreshold(levels);
+  const minSilenceFrames = Math.ceil(MIN_SILENCE_SECONDS / FRAME_SECONDS);
+  const keepFrames = Math.floor(KEEP_SILENCE_SECONDS / FRAME_SECONDS / 2);
+
+  // Kept ranges in frames: everything except the middle of long silent runs
+  const kept: [number, number][] = [];
+  let rangeStart = 0;
+  let f = 0;
+  while (f < levels.length) {
+    if (levels[f] >= threshold) {
+      f++;
+      continue;
+    }
+    const silenceStart = f;
+    while (f < levels.length && levels[f] < threshold) f++;
+    if (f - silenceStart >= minSilenceFrames) {
+      const cutStart = silenceStart === 0 ? 0 : silenceStart + keepFrames;
+      const cutEnd = f === levels.length ? f : f - keepFrames;
+      if (cutStart > rangeStart) kept.push([rangeStart, cutStart]);
+      rangeStart = cutEnd;
+    }
+  }
+  if (rangeStart < levels.length) kept.push([rangeStart, levels.length]);
+
+  // All silence: leave the audio alone rather than sending nothing
+  if (kept.length === 0) {
+    return { audio, timeMap: [{ sourceStart: 0, outputStart: 0, duration: audio.duration }] };
+  }
+
+  const ranges = kept.map(([from, to]) => [from * frameSize, Math.min(samples.length, to * frameSize)]);
+  const output = new Float32Array(ranges.reduce((sum, [from, to]) => sum + (to - from), 0));
+  const timeMap: TimeMapping[] = [];
+  let offset = 0;
+  for (const [from, to] of ranges) {
+    output.set(samples.subarray(from, to), offset);
+    timeMap.push({ sourceStart: from / sampleRate, outputStart: offset / sampleRate, duration: (to - from) / sampleRate });
+    offset += to - from;
+  }
+
+  return {
+    audio: { samples: output, sampleRate, duration: output.length / sampleRate },
+    timeMap,
+  };
+};
+
+// Brings speech to a consistent level based on the loudness of the voiced frames, without clipping
+export const normalizeLoudness = (audio: MonoAudio): MonoAudio => {
+  const { samples, sampleRate } = audio;
+  const levels = frameLevels(samples, Math.max(1, Math.floor(sampleRate * FRAME_SECONDS)));
+  const threshold = speechThreshold(levels);
+
+  let sum = 0;
+  let count = 0;
+  for (const level of levels) {
+    if (level >= threshold) {
+      sum += level * level;
+      count++;
+    }
+  }
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (count === 0 || peak === 0) return audio;
+
+  const speechRms = Math.sqrt(sum / count);
+  const gain = Math.min(TARGET_RMS / speechRms, PEAK_LIMIT / peak, MAX_GAIN);
+  if (Math.abs(gain - 1) < 0.1) return audio;
+
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) output[i] = samples[i] * gain;
+  return { ...audio, samples: output };
+};
+
+// Converts a time in the processed audio back to the original recording
+export const toSourceTime = (timeMap: TimeMapping[], time: number): number => {
+  let entry = timeMap[0];
+  for (const candidate of timeMap) {
+    if (candidate.outputStart > time) break;
+    entry = candidate;
+  }
+  if (!entry) return time;
+  return entry.sourceStart + Math.max(0, Math.min(time - entry.outputStart, entry.duration));
+};
+
+// Only the most recent result is kept: the file card previews a file and the
+// transcription that follows reuses it. Decoded audio is too big to keep more.
+let lastResult: { blob: Blob; key: string; promise: Promise<PreprocessedAudio> } | null = null;
+
+export const preprocessAudio = (blob: Blob, options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS): Promise<PreprocessedAudio> => {
+  const key = `${options.trimSilence}:${options.normalize}`;
+  if (lastResult && lastResult.blob === blob && lastResult.key === key) return lastResult.promise;
+
+  const promise = (async () => {
+    const decoded = await decodeToMono(blob);
+    let audio = decoded;
+    let timeMap: TimeMapping[] = [{ sourceStart: 0, outputStart: 0, duration: decoded.duration }];
+
+    if (options.trimSilence) ({ audio, timeMap } = trimSilence(audio));
+    if (options.normalize) audio = normalizeLoudness(audio);
+
+    return {
+      audio,
+      wav: encodeWav(audio.samples, audio.sampleRate),
+      timeMap,
+      originalSize: blob.size,
+      originalDuration: decoded.duration,
+    };
+  })();
+
+  lastResult = { blob, key, promise };
+  // Don't cache failures
+  promise.catch(() => {
+    if (lastResult?.promise === promise) lastResult = null;
+  });
+  return promise;
+};
@@ -0,0 +1,245 @@
+import { generateText, TranscriptionProvider, transcribeAudio, UsageCallback } from "./transcriptionProvider";
+import { throwIfCancelled } from "./apiRequest";
+import { ApiError } from "./errors";
+import { applyReplacementRules } from "./glossaryService";
+import { getWriteUpInstruction } from "./prompts";
+import { getPartStyle } from "./styleService";
+import { PreprocessOptions, preprocessAudio, TimeMapping, toSourceTime } from "./audioPreprocessor";
+import { decodeToMono, encodeWav, findQuietestPoint, MonoAudio } from "../utils/audioUtils";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { distributeTimings, parseTranscriptResponse } from "../utils/transcriptUtils";
+import { Glossary, Language, SpeakerHints, TranscriptSegment, TranscriptionProgress, TranscriptionResult, TranscriptStyle } from "../types";
+
+// 5 minutes of 16 kHz mono WAV is ~9.6 MB, comfortably inside the inline request limit
+const CHUNK_SECONDS = 300;
+// Each window repeats this much of the previous one so words at the cut are not lost
+const OVERLAP_SECONDS = 5;
+// How far back from the nominal cut we look for a pause to split on
+const SILENCE_SEARCH_SECONDS = 20;
+const MAX_CONCURRENT_CHUNKS = 3;
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds
+  end: number;
+}
+
+export interface ChunkedTranscriptionOptions {
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+  preprocess?: PreprocessOptions; // clean up the audio first; timings still refer to the original
+  glossary?: Glossary; // steers the model; its replacement rules are applied to the result
+  speakerHints?: SpeakerHints;
+  style?: TranscriptStyle; // recorded on the result as styleId
+  onUsage?: UsageCallback; // called once per request sent
+  provider?: TranscriptionProvider; // defaults to the one chosen in the settings
+  // Defaults to the browser's decoder; resolves to null when the audio can't be decoded, so it goes as one request
+  decode?: (blob: Blob) => Promise<MonoAudio | null>;
+}
+
+// Plans overlapping windows, ending each one at the quietest point before its nominal end
+export const planChunks = (audio: MonoAudio): AudioChunk[] => {
+  const { samples, sampleRate, duration } = audio;
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < duration) {
+    const nominalEnd = start + CHUNK_SECONDS;
+    if (nominalEnd >= duration) {
+      chunks.push({ index: chunks.length, start, end: duration });
+      break;
+    }
+
+    const cutSample = findQuietestPoint(
+      samples,
+      sampleRate,
+      Math.floor((nominalEnd - SILENCE_SEARCH_SECONDS) * sampleRate),
+      Math.floor(nominalEnd * sampleRate)
+    );
+    const end = cutSample / sampleRate;
+    chunks.push({ index: chunks.length, start, end });
+    start = Math.max(start + OVERLAP_SECONDS, end - OVERLAP_SECONDS);
+  }
+
+  return chunks;
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Joins per-chunk segments (timed relative to their chunk) into one timeline.
+ * Each chunk owns the audio up to the middle of its overlap with the next chunk;
+ * segments centred outside that range belong to the neighbour and are dropped.
+ */
+export const stitchChunkSegments = (chunks: AudioChunk[], chunkSegments: TranscriptSegment[][]): TranscriptSegment[] => {
+  const stitched: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    const prev = chunks[i - 1];
+    const next = chunks[i + 1];
+    const ownStart = prev ? (chunk.start + prev.end) / 2 : 0;
+    const ownEnd = next ? (next.start + chunk.end) / 2 : Infinity;
+    const chunkDuration = chunk.end - chunk.start;
+
+    const timed = distributeTimings(chunkSegments[i] || [], chunkDuration);
+    for (const segment of timed) {
+      const start = chunk.start + Math.min(segment.start, chunkDuration);
+      const end = chunk.start + Math.min(Math.max(segment.end, segment.start), chunkDuration);
+      const midpoint = (start + end) / 2;
+      if (midpoint < ownStart || midpoint >= ownEnd) continue;
+
+      // The model sometimes repeats the overlapping sentence with slightly shifted timings
+      const last = stitched[stitched.length - 1];
+      if (last && last.start > start - OVERLAP_SECONDS && normalizeText(last.text) === normalizeText(segment.text)) {
+        continue;
+      }
+
+      stitched.push({ ...segment, start, end });
+    }
+  });
+
+  return stitched;
+};
+
+// Carries out a single-pass style's task on the stitched transcript of a long recording
+const writeUpTranscript = async (
+  transcript: TranscriptSegment[],
+  language: Language,
+  style: TranscriptStyle,
+  options: ChunkedTranscriptionOptions
+): Promise<TranscriptSegment[]> => {
+  const { glossary, speakerHints, signal, onUsage, provider } = options;
+  const generate = provider ? provider.generateText : generateText;
+  const raw = await generate({
+    instruction: getWriteUpInstruction(language, glossary, speakerHints, style),
+    input: JSON.stringify({
+      segments: transcript.map(({ start, end, speaker, text }) => ({ start: Math.round(start), end: Math.round(end), speaker, text })),
+    }),
+    json: true,
+    signal,
+    onUsage,
+  });
+  const segments = parseTranscriptResponse(raw);
+  if (segments.length === 0) {
+    throw new ApiError('empty-response', "Nothing was written up from the transcript.");
+  }
+  return segments;
+};
+
+// Transcribes with timings on the original audio's timeline
+const transcribeTimed = async (
+  audioBlob: Blob,
+  mimeType: string,
+  language: Language,
+  options: ChunkedTranscriptionOptions
+): Promise<TranscriptionResult> => {
+  const { onProgress, signal, preprocess, glossary, speakerHints, style, onUsage, provider, decode = decodeToMono } = options;
+  const transcribe = provider ? provider.transcribe : transcribeAudio;
+
+  let audio: MonoAudio | null = null;
+  let upload = audioBlob;
+  let uploadMimeType = mimeType;
+  let timeMap: TimeMapping[] | null = null;
+  try {
+    if (preprocess?.enabled) {
+      const processed = await preprocessAudio(audioBlob, preprocess);
+      audio = processed.audio;
+      upload = processed.wav;
+      uploadMimeType = 'audio/wav';
+      timeMap = processed.timeMap;
+    } else {
+      audio = await decode(audioBlob);
+    }
+  } catch (error) {
+    console.warn("Could not decode audio for chunking, sending as a single request:", error);
+  }
+  throwIfCancelled(signal);
+
+  // Timings come back relative to the trimmed audio; playback uses the original
+  const toSourceTimings = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+    if (!timeMap) return segments;
+    const map = timeMap;
+    return segments.map(segment => ({
+      ...segment,
+      start: toSourceTime(map, segment.start),
+      end: toSourceTime(map, segment.end),
+    }));
+  };
+
+  // Providers that bill by token do not report the duration, which the usage views still want
+  const usageFor = (seconds: number | undefined): UsageCallback | undefined => onUsage && (usage =>
+    onUsage({ ...usage, audioSeconds: usage.audioSeconds ?? seconds }));
+
+  if (!audio || audio.duration <= CHUNK_SECONDS) {
+    onProgress?.({ completedChunks: 0, totalChunks: 1 });
+    const result = await transcribe(upload, uploadMimeType, { language, glossary, speakerHints, style, signal, onUsage: usageFor(audio?.duration) });
+    onProgress?.({ completedChunks: 1, totalChunks: 1 });
+    return audio
+      ? { ...result, segments: toSourceTimings(distributeTimings(result.segments, audio.duration)) }
+      : result;
+  }
+
+  // A single-pass style writes one document for the whole recording, not one per chunk
+  const writeUp = style?.singlePass ? style : null;
+  const chunkStyle = getPartStyle(style);
+  const decoded = audio;
+  const chunks = planChunks(decoded);
+  const totalSteps = chunks.length + (writeUp ? 1 : 0);
+  let completed = 0;
+  let emptyChunks = 0;
+  let emptyError: ApiError | null = null;
+  onProgress?.({ completedChunks: 0, totalChunks: totalSteps });
+
+  const chunkSegments = await mapWithConcurrency(chunks, MAX_CONCURRENT_CHUNKS, async (chunk) => {
+    throwIfCancelled(signal);
+    const from = Math.floor(chunk.start * decoded.sampleRate);
+    const to = Math.floor(chunk.end * decoded.sampleRate);
+    const wav = encodeWav(decoded.samples.subarray(from, to), decoded.sampleRate);
+
+    let segments: TranscriptSegment[];
+    try {
+      const result = await transcribe(wav, 'audio/wav', { language, glossary, speakerHints, style: chunkStyle, signal, onUsage: usageFor(chunk.end - chunk.start) });
+      segments = result.segments;
+    } catch (error) {
+      // A quiet stretch gives no segments; the rest of the recording still counts
+      if (!(error instanceof ApiError) || error.kind !== 'empty-response') throw error;
+      emptyChunks += 1;
+      emptyError = emptyError || error;
+      segments = [];
+    }
+    completed += 1;
+    onProgress?.({ completedChunks: completed, totalChunks: totalSteps });
+    return segments;
+  });
+  if (emptyError && emptyChunks === chunks.length) throw emptyError;
+
+  let segments = toSourceTimings(stitchChunkSegments(chunks, chunkSegments));
+  if (writeUp && segments.length > 0) {
+    throwIfCancelled(signal);
+    segments = await writeUpTranscript(segments, language, writeUp, options);
+    onProgress?.({ completedChunks: totalSteps, totalChunks: totalSteps });
+  }
+
+  return {
+    segments,
+    language,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+/**
+ * Transcribes long recordings by splitting them into overlapping windows.
+ * Short recordings (or formats the browser cannot decode) are sent as a single request.
+ */
+export const transcribeInChunks = async (
+  audioBlob: Blob,
+  mimeType: string,
+  language: Language,
+  options: ChunkedTranscriptionOptions = {}
+): Promise<TranscriptionResult> => {
+  const timed = await transcribeTimed(audioBlob, mimeType, language, options);
+  const { glossary, style } = options;
+  const result = style ? { ...timed, styleId: style.id } : timed;
+  if (!glossary) return result;
+  return { ...applyReplacementRules(result, glossary.rules), glossaryId: glossary.id };
+};
@@ -0,0 +1,66 @@
+// Shared IndexedDB connection. Bump DB_VERSION and extend `upgrade` when adding stores.
+const DB_NAME = 'scribeflow';
+const DB_VERSION = 3;
+
+export const STORES = {
+  sessions: 'sessions',
+  recordingDrafts: 'recordingDrafts',
+  recordingChunks: 'recordingChunks',
+  usage: 'usage',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.sessions)) {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    sessions.createIndex('createdAt', 'createdAt');
+  }
+  // v2: in-progress recordings, persisted chunk by chunk
+  if (!db.objectStoreNames.contains(STORES.recordingDrafts)) {
+    db.createObjectStore(STORES.recordingDrafts, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.recordingChunks)) {
+    const chunks = db.createObjectStore(STORES.recordingChunks, { autoIncrement: true });
+    chunks.createIndex('draftId', 'draftId');
+  }
+  // v3: usage log, read back by month and by session
+  if (!db.objectStoreNames.contains(STORES.usage)) {
+    const usage = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+    usage.createIndex('time', 'time');
+    usage.createIndex('sessionId', 'sessionId');
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `fn` inside a transaction and resolves once the transaction has committed
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
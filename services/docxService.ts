@@ -1,30 +1,238 @@
 import * as docx from "docx";
-import FileSaver from "file-saver";
+import { MeetingInsights, TranscriptSegment, TranscriptionResult } from "../types";
+import { formatTimestamp } from "../utils/transcriptUtils";
+import { isRtlText, splitByScript } from "../utils/scriptUtils";
+import { Exporter } from "./exportService";
+import { getTranslationMode } from "./translationService";
+import { getSpeakers } from "../utils/transcriptEdits";
 
-export const generateAndDownloadDocx = async (text: string, filename: string = "transcription.docx") => {
-  // Split text by newlines to create paragraphs
-  const paragraphs = text.split('\n').map(line => {
-    return new docx.Paragraph({
+export interface DocxOptions {
+  // Complex-script font for Urdu/Siraiki runs. Word falls back to its default
+  // Arabic font when it isn't installed, so the document still opens correctly.
+  urduFont: string;
+  latinFont: string;
+  bilingual: boolean; // adds a column with each turn's translation, on landscape pages
+}
+
+export const DEFAULT_DOCX_OPTIONS: DocxOptions = {
+  urduFont: "Jameel Noori Nastaleeq",
+  latinFont: "Arial", // Good fallback for English
+  bilingual: false,
+};
+
+const BODY_SIZE = 24; // 12pt
+const URDU_SIZE = 28; // Nastaliq reads small at the Latin size
+const TIMESTAMP_COLUMN_WIDTH = 1100; // twips, ~0.75"
+const TEXT_COLUMN_WIDTH = 7900; // fits the A4 text width with the timestamp column
+const BILINGUAL_COLUMN_WIDTH = 6200; // two of these fit the landscape A4 text width
+
+// Builds Latin and Arabic-script spans as separate runs so Word applies the right font,
+// shaping and direction to each; `rightToLeft` marks the Urdu/Siraiki runs.
+const buildTextRuns = (text: string, paragraphRtl: boolean, options: DocxOptions, bold: boolean = false): docx.TextRun[] => {
+  return splitByScript(text, paragraphRtl).map(run => new docx.TextRun({
+    text: run.text,
+    bold,
+    boldComplexScript: bold,
+    rightToLeft: run.rtl,
+    size: BODY_SIZE,
+    sizeComplexScript: URDU_SIZE,
+    font: {
+      ascii: options.latinFont,
+      hAnsi: options.latinFont,
+      cs: options.urduFont,
+      hint: run.rtl ? "cs" : undefined,
+    },
+  }));
+};
+
+const buildSegmentParagraph = (segment: TranscriptSegment, options: DocxOptions, text: string = segment.text): docx.Paragraph => {
+  const rtl = isRtlText(text);
+  return new docx.Paragraph({
+    children: [
+      ...buildTextRuns(`${segment.speaker}: `, rtl, options, true),
+      ...buildTextRuns(text, rtl, options),
+    ],
+    // Bidirectional paragraphs start on the right, so RTL turns are right-aligned without an explicit alignment
+    bidirectional: rtl,
+    spacing: {
+      line: rtl ? 360 : 276, // Nastaliq needs extra line height for its stacked glyphs
+    },
+  });
+};
+
+const buildTimestampCell = (segment: TranscriptSegment, options: DocxOptions): docx.TableCell => new docx.TableCell({
+  width: { size: TIMESTAMP_COLUMN_WIDTH, type: docx.WidthType.DXA },
+  margins: { top: 60, bottom: 140 },
+  children: [
+    new docx.Paragraph({
       children: [
         new docx.TextRun({
-          text: line,
-          size: 24, // 12pt
-          font: "Arial", // Good fallback for English
+          text: formatTimestamp(segment.start),
+          size: 18,
+          font: options.latinFont,
+          color: "6B7280",
         }),
       ],
-      spacing: {
-        after: 200, // Spacing between paragraphs
-      },
-      // Simple heuristic: check if line starts with Urdu unicode range to set RTL
-      // Urdu unicode range is approx 0600–06FF.
-      bidirectional: /[\u0600-\u06FF]/.test(line), 
-    });
+    }),
+  ],
+});
+
+// Timestamps sit in a narrow left "margin" column beside each speaker turn
+const buildTranscriptTable = (transcript: TranscriptionResult, options: DocxOptions): docx.Table => {
+  const rows = transcript.segments.map(segment => new docx.TableRow({
+    cantSplit: true,
+    children: [
+      buildTimestampCell(segment, options),
+      new docx.TableCell({
+        width: { size: TEXT_COLUMN_WIDTH, type: docx.WidthType.DXA },
+        margins: { bottom: 140 },
+        children: [buildSegmentParagraph(segment, options)],
+      }),
+    ],
+  }));
+
+  return new docx.Table({
+    rows,
+    columnWidths: [TIMESTAMP_COLUMN_WIDTH, TEXT_COLUMN_WIDTH],
+    width: { size: TIMESTAMP_COLUMN_WIDTH + TEXT_COLUMN_WIDTH, type: docx.WidthType.DXA },
+    layout: docx.TableLayoutType.FIXED,
+    borders: docx.TableBorders.NONE,
+  });
+};
+
+const buildHeaderCell = (text: string, width: number, options: DocxOptions): docx.TableCell => new docx.TableCell({
+  width: { size: width, type: docx.WidthType.DXA },
+  margins: { bottom: 120 },
+  children: [
+    new docx.Paragraph({
+      children: [new docx.TextRun({ text, bold: true, size: 20, font: options.latinFont, color: "6B7280" })],
+    }),
+  ],
+});
+
+// Original and translated text side by side, one row per speaker turn
+const buildBilingualTable = (transcript: TranscriptionResult, options: DocxOptions): docx.Table => {
+  const targetLabel = transcript.translationMode ? getTranslationMode(transcript.translationMode).targetLabel : "Translation";
+  const header = new docx.TableRow({
+    tableHeader: true,
+    children: [
+      buildHeaderCell("", TIMESTAMP_COLUMN_WIDTH, options),
+      buildHeaderCell("Original", BILINGUAL_COLUMN_WIDTH, options),
+      buildHeaderCell(targetLabel, BILINGUAL_COLUMN_WIDTH, options),
+    ],
+  });
+
+  const rows = transcript.segments.map(segment => new docx.TableRow({
+    cantSplit: true,
+    children: [
+      buildTimestampCell(segment, options),
+      new docx.TableCell({
+        width: { size: BILINGUAL_COLUMN_WIDTH, type: docx.WidthType.DXA },
+        margins: { bottom: 140, right: 120 },
+        children: [buildSegmentParagraph(segment, options)],
+      }),
+      new docx.TableCell({
+        width: { size: BILINGUAL_COLUMN_WIDTH, type: docx.WidthType.DXA },
+        margins: { bottom: 140, left: 120 },
+        children: [buildSegmentParagraph(segment, options, segment.translation || "")],
+      }),
+    ],
+  }));
+
+  return new docx.Table({
+    rows: [header, ...rows],
+    columnWidths: [TIMESTAMP_COLUMN_WIDTH, BILINGUAL_COLUMN_WIDTH, BILINGUAL_COLUMN_WIDTH],
+    width: { size: TIMESTAMP_COLUMN_WIDTH + 2 * BILINGUAL_COLUMN_WIDTH, type: docx.WidthType.DXA },
+    layout: docx.TableLayoutType.FIXED,
+    borders: docx.TableBorders.NONE,
   });
+};
 
-  const doc = new docx.Document({
+// A paragraph of body text that follows the direction of its own script
+const buildTextParagraph = (text: string, options: DocxOptions, extra: { bold?: boolean; bullet?: boolean } = {}): docx.Paragraph => {
+  const rtl = isRtlText(text);
+  return new docx.Paragraph({
+    children: buildTextRuns(text, rtl, options, extra.bold),
+    bidirectional: rtl,
+    bullet: extra.bullet ? { level: 0 } : undefined,
+    spacing: {
+      line: rtl ? 360 : 276,
+      after: 120,
+    },
+  });
+};
+
+const buildHeading = (text: string): docx.Paragraph => new docx.Paragraph({
+  children: [new docx.TextRun({ text, bold: true, size: 28, color: "2563EB" })],
+  spacing: { before: 360, after: 160 },
+});
+
+const buildActionItemsTable = (insights: MeetingInsights, options: DocxOptions): docx.Table => {
+  const columns = [4700, 2000, 2200]; // task, owner, due
+  const cell = (paragraph: docx.Paragraph, width: number) => new docx.TableCell({
+    width: { size: width, type: docx.WidthType.DXA },
+    margins: { top: 60, bottom: 60, left: 80, right: 80 },
+    children: [paragraph],
+  });
+
+  const header = new docx.TableRow({
+    tableHeader: true,
+    children: ["Task", "Owner", "Due"].map((label, i) => buildHeaderCell(label, columns[i], options)),
+  });
+  const rows = insights.actionItems.map(item => new docx.TableRow({
+    cantSplit: true,
+    children: [
+      cell(buildTextParagraph(item.task, options), columns[0]),
+      cell(buildTextParagraph(item.owner || "Unassigned", options), columns[1]),
+      cell(buildTextParagraph(item.due || "—", options), columns[2]),
+    ],
+  }));
+
+  return new docx.Table({
+    rows: [header, ...rows],
+    columnWidths: columns,
+    width: { size: columns.reduce((a, b) => a + b, 0), type: docx.WidthType.DXA },
+    layout: docx.TableLayoutType.FIXED,
+  });
+};
+
+// Summary, decisions, action items and minutes, placed ahead of the transcript
+const buildInsightsSection = (transcript: TranscriptionResult, insights: MeetingInsights, options: DocxOptions) => {
+  const children: (docx.Paragraph | docx.Table)[] = [];
+
+  if (insights.title) children.push(buildTextParagraph(insights.title, options, { bold: true }));
+  children.push(buildHeading("Summary"), buildTextParagraph(insights.summary, options));
+
+  if (insights.decisions.length > 0) {
+    children.push(buildHeading("Key Decisions"));
+    insights.decisions.forEach(decision => children.push(buildTextParagraph(decision, options, { bullet: true })));
+  }
+
+  if (insights.actionItems.length > 0) {
+    children.push(buildHeading("Action Items"), buildActionItemsTable(insights, options));
+  }
+
+  children.push(
+    buildHeading("Minutes"),
+    buildTextParagraph(`Date: ${new Date(transcript.timestamp).toLocaleDateString()}`, options),
+    buildTextParagraph(`Participants: ${getSpeakers(transcript).join(", ")}`, options),
+  );
+  insights.topics.forEach(topic => {
+    children.push(buildTextParagraph(topic.title, options, { bold: true }));
+    topic.notes.forEach(note => children.push(buildTextParagraph(note, options, { bullet: true })));
+  });
+
+  children.push(buildHeading("Transcript"));
+  return children;
+};
+
+export const buildDocxDocument = (transcript: TranscriptionResult, options: DocxOptions = DEFAULT_DOCX_OPTIONS): docx.Document => {
+  return new docx.Document({
     sections: [
       {
-        properties: {},
+        properties: options.bilingual
+          ? { page: { size: { orientation: docx.PageOrientation.LANDSCAPE } } }
+          : {},
         children: [
           new docx.Paragraph({
             children: [
@@ -52,16 +260,31 @@ export const generateAndDownloadDocx = async (text: string, filename: string = "
                 after: 400
             }
           }),
-          ...paragraphs,
+          ...(transcript.insights ? buildInsightsSection(transcript, transcript.insights, options) : []),
+          options.bilingual ? buildBilingualTable(transcript, options) : buildTranscriptTable(transcript, options),
         ],
       },
     ],
   });
+};
+
+export const generateDocxBlob = (transcript: TranscriptionResult, options: DocxOptions = DEFAULT_DOCX_OPTIONS): Promise<Blob> => {
+  return docx.Packer.toBlob(buildDocxDocument(transcript, options));
+};
+
+export const docxExporter: Exporter = {
+  id: 'docx',
+  label: 'Word Document (.docx)',
+  extension: 'docx',
+  category: 'document',
+  export: (transcript) => generateDocxBlob(transcript),
+};
 
-  const blob = await docx.Packer.toBlob(doc);
-  
-  // Handle case where FileSaver is the function (default behavior on most CDNs) 
-  // or an object containing saveAs (common in some CJS-to-ESM bridges)
-  const saveAs = (FileSaver as any).saveAs || FileSaver;
-  saveAs(blob, filename);
-};
\ No newline at end of file
+export const docxBilingualExporter: Exporter = {
+  id: 'docx-bilingual',
+  label: 'Bilingual Word Document (.docx)',
+  extension: 'docx',
+  category: 'document',
+  isAvailable: (transcript) => transcript.translationMode !== undefined,
+  export: (transcript) => generateDocxBlob(transcript, { ...DEFAULT_DOCX_OPTIONS, bilingual: true }),
+};
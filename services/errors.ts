@@ -0,0 +1,132 @@
+// Typed errors for provider calls, so the UI can say what went wrong and what to do about it.
+
+export type ApiErrorKind =
+  | 'quota-exceeded'
+  | 'invalid-key'
+  | 'unsupported-audio'
+  | 'payload-too-large'
+  | 'safety-blocked'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'empty-response'
+  | 'cancelled'
+  | 'unknown';
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  retryAfterMs?: number; // from a Retry-After header, when the server sent one
+
+  constructor(kind: ApiErrorKind, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // Rate limits, server hiccups and dropped connections are worth another attempt
+  get retryable(): boolean {
+    return this.kind === 'quota-exceeded' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+export const ERROR_DESCRIPTIONS: Record<ApiErrorKind, { title: string; message: string }> = {
+  'quota-exceeded': {
+    title: 'Quota exceeded',
+    message: 'The provider is rate limiting requests or your quota is used up. Wait a few minutes, or check the billing and limits of your API key.',
+  },
+  'invalid-key': {
+    title: 'Invalid API key',
+    message: 'The provider rejected the API key. Check the key in the provider settings (or your .env.local) and that it has access to this model.',
+  },
+  'unsupported-audio': {
+    title: 'Unsupported audio',
+    message: 'The provider could not read this audio format. Convert the file to MP3 or WAV and try again.',
+  },
+  'payload-too-large': {
+    title: 'File too large',
+    message: 'The audio is larger than the provider accepts in one request. Trim or compress the file, or split it into shorter parts.',
+  },
+  'safety-blocked': {
+    title: 'Blocked by safety filters',
+    message: 'The provider refused to process this content because of its safety filters. This can happen with sensitive topics; try a different provider.',
+  },
+  'network': {
+    title: 'Connection problem',
+    message: 'Could not reach the provider. Check your internet connection (and the server address for self-hosted providers), then try again.',
+  },
+  'timeout': {
+    title: 'Request timed out',
+    message: 'The provider took too long to respond. Try again; shorter recordings are processed faster.',
+  },
+  'server': {
+    title: 'Provider unavailable',
+    message: 'The provider had a temporary problem and did not recover after several retries. Try again in a few minutes.',
+  },
+  'empty-response': {
+    title: 'Nothing transcribed',
+    message: 'The provider returned no text. Check that the recording contains audible speech and that the right language is selected.',
+  },
+  'cancelled': {
+    title: 'Cancelled',
+    message: 'The request was cancelled.',
+  },
+  'unknown': {
+    title: 'Processing error',
+    message: 'Something unexpected went wrong while processing your audio. Please try again.',
+  },
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof ApiError && error.kind === 'cancelled') ||
+  (error instanceof DOMException && error.name === 'AbortError');
+
+const kindForStatus = (status: number, detail: string): ApiErrorKind | null => {
+  if (status === 429) return 'quota-exceeded';
+  if (status === 401 || status === 403) return 'invalid-key';
+  if (status === 413) return 'payload-too-large';
+  if (status === 415) return 'unsupported-audio';
+  if (status >= 500) return 'server';
+  if (status === 400) {
+    // Gemini reports bad keys as 400 INVALID_ARGUMENT
+    if (/api key/i.test(detail)) return 'invalid-key';
+    if (/mime|unsupported|format|could not (decode|process)/i.test(detail)) return 'unsupported-audio';
+    if (/too large|exceeds|size limit/i.test(detail)) return 'payload-too-large';
+  }
+  return null;
+};
+
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): ApiError => {
+  const kind = kindForStatus(status, detail) || 'unknown';
+  return new ApiError(kind, `Request failed with status ${status}: ${detail.slice(0, 200)}`, { status, retryAfterMs });
+};
+
+// Maps SDK, fetch and abort errors onto the taxonomy above
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('cancelled', 'The request was cancelled.', { cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new ApiError('timeout', 'The request timed out.', { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status !== undefined) {
+    const kind = kindForStatus(status, message);
+    if (kind) return new ApiError(kind, message, { status, cause: error });
+  }
+
+  // fetch rejects with a TypeError when the connection fails
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new ApiError('network', message, { cause: error });
+  }
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new ApiError('quota-exceeded', message, { status, cause: error });
+  if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) return new ApiError('invalid-key', message, { status, cause: error });
+  return new ApiError('unknown', message, { status, cause: error });
+};
+
+export const describeError = (error: unknown) => ERROR_DESCRIPTIONS[toApiError(error).kind];
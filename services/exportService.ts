@@ -0,0 +1,97 @@
+import { TranscriptionResult } from "../types";
+import { saveBlob } from "../utils/fileUtils";
+import { createZip, ZipEntry } from "../utils/zipUtils";
+import { docxBilingualExporter, docxExporter } from "./docxService";
+import { pdfExporter } from "./pdfExporter";
+import { markdownExporter } from "./markdownExporter";
+import { textExporter } from "./textExporter";
+import { jsonExporter } from "./jsonExporter";
+import { subtitleExporters, DEFAULT_SUBTITLE_OPTIONS, SubtitleOptions } from "./subtitleService";
+
+export interface ExportOptions {
+  textBom: boolean; // prepend a UTF-8 BOM so Windows Notepad detects the encoding
+  subtitles: SubtitleOptions;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  textBom: false,
+  subtitles: DEFAULT_SUBTITLE_OPTIONS,
+};
+
+export type ExportCategory = 'document' | 'subtitle' | 'data';
+
+export interface Exporter {
+  id: string;
+  label: string;
+  extension: string;
+  category: ExportCategory;
+  // Formats that need something beyond the plain transcript (e.g. a translation) are hidden without it
+  isAvailable?: (transcript: TranscriptionResult) => boolean;
+  export: (transcript: TranscriptionResult, options: ExportOptions) => Promise<Blob>;
+}
+
+export const EXPORTERS: Exporter[] = [
+  docxExporter,
+  docxBilingualExporter,
+  pdfExporter,
+  markdownExporter,
+  textExporter,
+  jsonExporter,
+  ...subtitleExporters,
+];
+
+export const getExporter = (id: string): Exporter => {
+  const exporter = EXPORTERS.find(e => e.id === id);
+  if (!exporter) throw new Error(`Unknown export format: ${id}`);
+  return exporter;
+};
+
+export const exportTranscript = (
+  transcript: TranscriptionResult,
+  id: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): Promise<Blob> => {
+  return getExporter(id).export(transcript, options);
+};
+
+export const downloadTranscript = async (
+  transcript: TranscriptionResult,
+  id: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  baseName: string = `ScribeFlow-Transcript-${Date.now()}`
+) => {
+  const exporter = getExporter(id);
+  const blob = await exporter.export(transcript, options);
+  saveBlob(blob, `${baseName}.${exporter.extension}`);
+};
+
+export interface NamedTranscript {
+  name: string; // file name without extension
+  transcript: TranscriptionResult;
+}
+
+// Exports every transcript in the same format and downloads them together as one ZIP
+export const downloadTranscriptsZip = async (
+  items: NamedTranscript[],
+  id: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  zipName: string = `ScribeFlow-Transcripts-${Date.now()}`
+) => {
+  const exporter = getExporter(id);
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+
+  for (const item of items) {
+    // Clips from different folders often share a name
+    let fileName = `${item.name}.${exporter.extension}`;
+    for (let n = 2; usedNames.has(fileName.toLowerCase()); n++) {
+      fileName = `${item.name} (${n}).${exporter.extension}`;
+    }
+    usedNames.add(fileName.toLowerCase());
+
+    const blob = await exporter.export(item.transcript, options);
+    entries.push({ name: fileName, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  saveBlob(createZip(entries), `${zipName}.zip`);
+};
@@ -0,0 +1,64 @@
+import { GenerateContentResponseUsageMetadata, MediaModality, Type } from "@google/genai";
+
+// Models, voices and the transcript schema, shared by the browser client and the proxy
+// server (server/). Keep this module free of browser-only imports.
+
+export const GEMINI_MODELS = {
+  transcription: "gemini-2.5-flash", // efficient, with great multimodal capabilities
+  text: "gemini-2.5-flash",
+  speech: "gemini-2.5-flash-preview-tts",
+};
+
+// Gemini TTS returns 24 kHz 16-bit mono PCM
+export const GEMINI_TTS_SAMPLE_RATE = 24000;
+
+// Available voices in Gemini
+export const GEMINI_VOICES = [
+  { id: 'Puck', name: 'Puck (Neutral)' },
+  { id: 'Charon', name: 'Charon (Deep)' },
+  { id: 'Kore', name: 'Kore (Calm)' },
+  { id: 'Fenrir', name: 'Fenrir (Energetic)' },
+  { id: 'Zephyr', name: 'Zephyr (Soft)' },
+];
+
+export interface GeminiTokenCounts {
+  inputTokens: number; // text
+  audioTokens: number;
+  outputTokens: number;
+}
+
+// Audio in the prompt is priced differently from text; thinking tokens are billed as output
+export const readTokenCounts = (metadata: GenerateContentResponseUsageMetadata | undefined): GeminiTokenCounts => {
+  const audioTokens = metadata?.promptTokensDetails
+    ?.filter(detail => detail.modality === MediaModality.AUDIO)
+    .reduce((sum, detail) => sum + (detail.tokenCount || 0), 0) || 0;
+  return {
+    inputTokens: Math.max(0, (metadata?.promptTokenCount || 0) - audioTokens),
+    audioTokens,
+    outputTokens: (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0),
+  };
+};
+
+// Structured output schema: one object per speaker turn
+export const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time in seconds" },
+          end: { type: Type.NUMBER, description: "End time in seconds" },
+          speaker: { type: Type.STRING, description: "Speaker label, e.g. 'Speaker 1'" },
+          language: { type: Type.STRING, description: "Language spoken in this turn" },
+          confidence: { type: Type.NUMBER, description: "Transcription confidence from 0 to 1" },
+          text: { type: Type.STRING, description: "Transcribed text of the turn, with [unclear: guess] or [inaudible] where unsure" },
+        },
+        required: ["start", "end", "speaker", "text"],
+        propertyOrdering: ["start", "end", "speaker", "language", "confidence", "text"],
+      },
+    },
+  },
+  required: ["segments"],
+};
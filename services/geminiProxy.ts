@@ -0,0 +1,104 @@
+import { ApiError, ApiErrorKind, errorFromStatus } from "./errors";
+import { parseRetryAfter } from "./apiRequest";
+import { GEMINI_TTS_SAMPLE_RATE } from "./geminiModels";
+import { GeminiTransport } from "./geminiService";
+import { isRecord } from "../utils/transcriptUtils";
+
+// Sends Gemini requests through the ScribeFlow proxy server (server/), which holds the API key.
+// The server picks the models; the browser only sends prompts, audio and text.
+
+export interface GeminiProxyConfig {
+  baseUrl: string; // e.g. "/api" behind the same origin, or "https://scribe.example.com/api"
+  token: string; // sent as a bearer token when the server requires one
+}
+
+// The proxy's own error codes (server/errors.ts). Request errors are not retried; 'upstream'
+// errors come from Gemini and are classed by status like a direct request.
+const PROXY_ERROR_KINDS: Partial<Record<string, ApiErrorKind>> = {
+  'bad-request': 'unknown',
+  'not-found': 'unknown',
+  'internal': 'unknown',
+  'invalid-key': 'invalid-key',
+  'quota-exceeded': 'quota-exceeded',
+  'payload-too-large': 'payload-too-large',
+  'unsupported-audio': 'unsupported-audio',
+  'safety-blocked': 'safety-blocked',
+};
+
+const ensureOk = async (response: Response) => {
+  if (response.ok) return;
+  const detail = await response.text().catch(() => '');
+  let body: unknown = null;
+  try {
+    body = JSON.parse(detail);
+  } catch {
+    // Not from the proxy itself, e.g. a gateway error page
+  }
+  const code = isRecord(body) && typeof body.error === 'string' ? body.error : '';
+  const message = isRecord(body) && typeof body.message === 'string' ? body.message : detail;
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  const kind = Object.hasOwn(PROXY_ERROR_KINDS, code) ? PROXY_ERROR_KINDS[code] : undefined;
+  if (kind) {
+    const text = kind === 'unknown' ? `Proxy server: ${message || response.status}` : message;
+    throw new ApiError(kind, text, { status: response.status, retryAfterMs });
+  }
+  throw errorFromStatus(response.status, message, retryAfterMs);
+};
+
+// The proxy streams responses and does not pass Gemini's token counts on, so usage is estimated:
+// about four characters per text token, and 25 tokens per second of generated speech.
+// Audio input is priced from its duration (see usageService.ts).
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+const SPEECH_TOKENS_PER_SECOND = 25;
+
+export const createGeminiProxyTransport = (config: GeminiProxyConfig): GeminiTransport => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = config.token ? { Authorization: `Bearer ${config.token}` } : {};
+
+  const postJson = async (path: string, payload: unknown, signal: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal,
+    });
+    await ensureOk(response);
+    return response;
+  };
+
+  return {
+    transcribe: async (audio, mimeType, instruction, signal) => {
+      const form = new FormData();
+      form.append('audio', audio, 'audio');
+      form.append('mimeType', mimeType);
+      form.append('instruction', instruction);
+      const response = await fetch(`${baseUrl}/transcribe`, { method: 'POST', headers, body: form, signal });
+      await ensureOk(response);
+      const data = await response.text();
+      return { data, usage: { inputTokens: estimateTokens(instruction), outputTokens: estimateTokens(data), estimated: true } };
+    },
+
+    speak: async (text, voiceName, signal) => {
+      const response = await postJson('/tts', { text, voice: voiceName }, signal);
+      const data = new Uint8Array(await response.arrayBuffer());
+      const seconds = data.length / 2 / GEMINI_TTS_SAMPLE_RATE;
+      return {
+        data,
+        usage: { inputTokens: estimateTokens(text), outputTokens: Math.ceil(seconds * SPEECH_TOKENS_PER_SECOND), estimated: true },
+      };
+    },
+
+    generate: async (request, signal) => {
+      const response = await postJson('/generate', {
+        instruction: request.instruction,
+        input: request.input,
+        json: Boolean(request.json),
+      }, signal);
+      const data = await response.text();
+      return {
+        data,
+        usage: { inputTokens: estimateTokens(request.instruction + request.input), outputTokens: estimateTokens(data), estimated: true },
+      };
+    },
+  };
+};
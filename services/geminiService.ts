@@ -1,51 +1,54 @@
-import { GoogleGenAI } from "@google/genai";
+import { FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
 import { blobToBase64, base64ToUint8Array } from "../utils/fileUtils";
-import { Language } from "../types";
+import { parseTranscriptResponse } from "../utils/transcriptUtils";
+import { chunkText } from "../utils/textUtils";
+import { getSystemInstruction } from "./prompts";
+import { ApiError } from "./errors";
+import { withRetry } from "./apiRequest";
+import { GEMINI_MODELS, GEMINI_TTS_SAMPLE_RATE, GEMINI_VOICES, readTokenCounts, TRANSCRIPT_SCHEMA } from "./geminiModels";
+import { TranscriptionResult } from "../types";
+import { ProviderUsage, SpeechOptions, SynthesizedSpeech, TextGenerationRequest, TranscriptionOptions, TranscriptionProvider } from "./transcriptionProvider";
 
-// Initialize Gemini
+// How requests reach Gemini: straight from the browser with an API key, or through the
+// proxy server (see geminiProxy.ts) that keeps the key out of the bundle.
+// Each call is a single attempt; retries are handled by the provider.
+export interface GeminiTransport {
+  transcribe: (audio: Blob, mimeType: string, instruction: string, signal: AbortSignal) => Promise<GeminiReply<string>>; // transcript JSON
+  speak: (text: string, voiceName: string, signal: AbortSignal) => Promise<GeminiReply<Uint8Array>>; // 24 kHz PCM
+  generate: (request: TextGenerationRequest, signal: AbortSignal) => Promise<GeminiReply<string>>;
+}
+
+export type GeminiTokenUsage = Pick<ProviderUsage, 'inputTokens' | 'audioTokens' | 'outputTokens' | 'estimated'>;
+
+export interface GeminiReply<T> {
+  data: T;
+  usage: GeminiTokenUsage;
+}
+
+// Initialize Gemini lazily so other providers work without an API key
 // NOTE: API Key is injected via process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const getSystemInstruction = (language: Language): string => {
-  const baseInstruction = `
-    You are a professional transcriber. 
-    Task:
-    1. Transcribe the audio exactly as spoken.
-    2. Format the output as a clean, readable script.
-    3. If there are multiple speakers, try to distinguish them as 'Speaker 1', 'Speaker 2', etc.
-    4. Do not add any introductory or concluding remarks. Just provide the transcript text.
-  `;
-
-  switch (language) {
-    case 'Urdu':
-      return `${baseInstruction}
-      5. The audio is in Urdu. Transcribe primarily in Urdu script (Nastaliq style unicode).
-      6. If English words are used, you may keep them in English script if it represents clear code-switching, otherwise transliterate standard terms.`;
-    case 'Siraiki':
-      return `${baseInstruction}
-      5. The audio is in Siraiki. Transcribe using the Siraiki/Urdu script (Arabic-based Shahmukhi script).
-      6. Ensure specific Siraiki characters (like heavy consonants unique to the language) are represented correctly if using standard Unicode blocks.`;
-    case 'English':
-      return `${baseInstruction}
-      5. The audio is in English. Transcribe in standard English.`;
-    case 'Mixed':
-    default:
-      return `${baseInstruction}
-      5. The audio contains mixed speech in Urdu, Siraiki, and English.
-      6. Use proper scripts for each: Nastaliq style for Urdu/Siraiki and English script for English parts.
-      7. Detect the language shifts naturally.`;
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
   }
+  return client;
 };
 
-export const transcribeAudio = async (audioBlob: Blob, mimeType: string, language: Language): Promise<string> => {
-  try {
-    const base64Audio = await blobToBase64(audioBlob);
-    
-    // We use gemini-2.5-flash as it is efficient and has great multimodal capabilities
-    const modelId = "gemini-2.5-flash";
+// Gemini signals blocked content in the response rather than with an HTTP error
+const ensureNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new ApiError('safety-blocked', `Response blocked: ${blockReason || finishReason}`);
+  }
+};
 
-    const response = await ai.models.generateContent({
-      model: modelId,
+const directTransport: GeminiTransport = {
+  transcribe: async (audio, mimeType, instruction, abortSignal) => {
+    const base64Audio = await blobToBase64(audio);
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODELS.transcription,
       contents: {
         parts: [
           {
@@ -55,100 +58,111 @@ export const transcribeAudio = async (audioBlob: Blob, mimeType: string, languag
             }
           },
           {
-            text: getSystemInstruction(language)
+            text: instruction
           }
         ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: TRANSCRIPT_SCHEMA,
+        abortSignal,
       }
     });
+    ensureNotBlocked(response);
+    return { data: response.text || "", usage: readTokenCounts(response.usageMetadata) };
+  },
 
-    return response.text || "No transcription generated.";
-  } catch (error) {
-    console.error("Gemini Transcription Error:", error);
-    throw new Error("Failed to transcribe audio. Please try again.");
-  }
+  speak: async (text, voiceName, abortSignal) => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODELS.speech,
+      contents: {
+        parts: [{ text }]
+      },
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName }
+          }
+        },
+        abortSignal,
+      }
+    });
+    ensureNotBlocked(response);
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return { data: base64Audio ? base64ToUint8Array(base64Audio) : new Uint8Array(0), usage: readTokenCounts(response.usageMetadata) };
+  },
+
+  generate: async (request, abortSignal) => {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODELS.text,
+      contents: request.input,
+      config: {
+        systemInstruction: request.instruction,
+        responseMimeType: request.json ? "application/json" : undefined,
+        abortSignal,
+      }
+    });
+    ensureNotBlocked(response);
+    return { data: response.text || "", usage: readTokenCounts(response.usageMetadata) };
+  },
+};
+
+// Gemini TTS has no rate or style parameters; both are given as directions in the prompt
+const paceDirection = (speed: number = 1): string => {
+  if (speed <= 0.8) return 'slowly';
+  if (speed < 1) return 'a little slowly';
+  if (speed >= 1.3) return 'quickly';
+  if (speed > 1) return 'a little quickly';
+  return '';
 };
 
-// Helper to chunk text to avoid hitting the 8192 token limit of the TTS model
-const MAX_CHAR_LIMIT = 3000; // Conservative limit (~750 tokens) to be safe
-
-function chunkText(text: string): string[] {
-  const chunks: string[] = [];
-  // Split by generic sentence delimiters including newlines to keep flow natural
-  const rawSentences = text.match(/[^.!?\n]+[.!?\n]+(\s+|$)|[^.!?\n]+$/g) || [text];
-  
-  let currentChunk = '';
-  
-  for (const sentence of rawSentences) {
-    // If a single sentence is larger than limit (unlikely but possible), we split it hard
-    if (sentence.length > MAX_CHAR_LIMIT) {
-       if (currentChunk) {
-           chunks.push(currentChunk.trim());
-           currentChunk = '';
-       }
-       
-       let remaining = sentence;
-       while (remaining.length > 0) {
-           if (remaining.length <= MAX_CHAR_LIMIT) {
-               currentChunk = remaining;
-               break;
-           }
-           // Try to break at a space
-           let breakIndex = remaining.lastIndexOf(' ', MAX_CHAR_LIMIT);
-           if (breakIndex === -1) breakIndex = MAX_CHAR_LIMIT;
-           
-           chunks.push(remaining.substring(0, breakIndex).trim());
-           remaining = remaining.substring(breakIndex);
-       }
-    } else if ((currentChunk + sentence).length <= MAX_CHAR_LIMIT) {
-      currentChunk += sentence;
-    } else {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
+const withDirections = (text: string, options: SpeechOptions): string => {
+  const directions = [options.style?.trim(), paceDirection(options.speed)].filter(Boolean).join(', ');
+  return directions ? `Read aloud (${directions}): ${text}` : text;
+};
+
+export const createGeminiProvider = (transport: GeminiTransport): TranscriptionProvider => {
+  const transcribeAudio = async (audioBlob: Blob, mimeType: string, options: TranscriptionOptions): Promise<TranscriptionResult> => {
+    const { language, glossary, speakerHints, style, signal } = options;
+    const instruction = getSystemInstruction(language, glossary, speakerHints, style);
+
+    const { data: text, usage } = await withRetry(abortSignal => transport.transcribe(audioBlob, mimeType, instruction, abortSignal), { signal });
+    options.onUsage?.({ model: GEMINI_MODELS.transcription, ...usage });
+
+    const segments = parseTranscriptResponse(text);
+    if (segments.length === 0) {
+      throw new ApiError('empty-response', "No transcription generated.");
     }
-  }
-  
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks;
-}
 
-export const generateSpeech = async (text: string, voiceName: string = 'Puck'): Promise<Uint8Array> => {
-  try {
+    return {
+      segments,
+      language,
+      timestamp: new Date().toISOString(),
+    };
+  };
+
+  const generateSpeech = async (text: string, options: SpeechOptions): Promise<SynthesizedSpeech> => {
+    const voiceName = options.voiceName || 'Puck';
     const textChunks = chunkText(text);
     const audioChunks: Uint8Array[] = [];
     let totalLength = 0;
 
     // Process chunks sequentially
     for (const chunk of textChunks) {
-       if (!chunk.trim()) continue;
+      if (!chunk.trim()) continue;
 
-       const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: {
-          parts: [{ text: chunk }]
-        },
-        config: {
-          responseModalities: ['AUDIO'],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName }
-            }
-          }
-        }
-      });
-      
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        const audioData = base64ToUint8Array(base64Audio);
-        audioChunks.push(audioData);
-        totalLength += audioData.length;
-      }
+      const { data: audioData, usage } = await withRetry(
+        abortSignal => transport.speak(withDirections(chunk, options), voiceName, abortSignal),
+        { signal: options.signal }
+      );
+      options.onUsage?.({ model: GEMINI_MODELS.speech, characters: chunk.length, ...usage });
+      audioChunks.push(audioData);
+      totalLength += audioData.length;
     }
-    
+
     if (totalLength === 0) {
-      throw new Error("No audio content generated from Gemini.");
+      throw new ApiError('empty-response', "No audio content generated from Gemini.");
     }
 
     // Concatenate chunks
@@ -158,12 +172,27 @@ export const generateSpeech = async (text: string, voiceName: string = 'Puck'):
       combinedAudio.set(chunk, offset);
       offset += chunk.length;
     }
-    
-    return combinedAudio;
 
-  } catch (error) {
-    console.error("Gemini TTS Error:", error);
-    // Return a more user-friendly error if possible, or rethrow
-    throw new Error("Failed to generate speech audio. The text might be too complex or the service is temporarily unavailable.");
-  }
-};
\ No newline at end of file
+    return { pcm: combinedAudio, sampleRate: GEMINI_TTS_SAMPLE_RATE };
+  };
+
+  const generateText = async (request: TextGenerationRequest): Promise<string> => {
+    const { data: text, usage } = await withRetry(abortSignal => transport.generate(request, abortSignal), { signal: request.signal });
+    request.onUsage?.({ model: GEMINI_MODELS.text, ...usage });
+    if (!text.trim()) {
+      throw new ApiError('empty-response', "No text generated.");
+    }
+    return text.trim();
+  };
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    voices: GEMINI_VOICES,
+    transcribe: transcribeAudio,
+    synthesize: generateSpeech,
+    generateText,
+  };
+};
+
+export const geminiProvider = createGeminiProvider(directTransport);
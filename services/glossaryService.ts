@@ -0,0 +1,144 @@
+import { Glossary, GlossaryEntry, ReplacementRule, TranscriptionResult } from "../types";
+import { parseCsv, toCsv } from "../utils/csvUtils";
+import { remapUncertainSpans, withUncertainSpans } from "../utils/uncertainty";
+
+// User-managed glossaries, kept in localStorage. Terms are injected into the transcription
+// prompt; replacement rules are applied to the returned text.
+
+const STORAGE_KEY = 'scribeflow.glossaries';
+const CSV_HEADER = ['kind', 'term', 'urdu_spelling', 'latin_spelling', 'pronunciation', 'replace_with', 'whole_word'];
+
+const createId = (prefix: string): string =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createGlossary = (name: string): Glossary => ({
+  id: createId('glossary'),
+  name,
+  entries: [],
+  rules: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const createGlossaryEntry = (term: string = ''): GlossaryEntry => ({
+  id: createId('term'),
+  term,
+  urduSpelling: '',
+  latinSpelling: '',
+  pronunciation: '',
+});
+
+export const createReplacementRule = (find: string = '', replace: string = ''): ReplacementRule => ({
+  id: createId('rule'),
+  find,
+  replace,
+  wholeWord: true,
+});
+
+export const loadGlossaries = (): Glossary[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGlossaries = (glossaries: Glossary[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+};
+
+export const getGlossary = (id: string | undefined): Glossary | undefined =>
+  id ? loadGlossaries().find(glossary => glossary.id === id) : undefined;
+
+// Prompt section listing the glossary terms; empty when there is nothing to add
+export const buildGlossaryInstruction = (glossary: Glossary | undefined): string => {
+  const entries = glossary?.entries.filter(entry => entry.term.trim()) || [];
+  if (entries.length === 0) return '';
+
+  const lines = entries.map(entry => {
+    const details = [
+      entry.urduSpelling && `in Urdu/Siraiki script write "${entry.urduSpelling}"`,
+      entry.latinSpelling && `in English script write "${entry.latinSpelling}"`,
+      entry.pronunciation && `pronounced ${entry.pronunciation}`,
+    ].filter(Boolean);
+    return `- "${entry.term}"${details.length ? `: ${details.join('; ')}` : ''}`;
+  });
+
+  return `
+    Glossary: the following names and terms may occur in the audio. When you hear one,
+    use exactly the spelling given for the script you are writing in.
+${lines.map(line => `    ${line}`).join('\n')}`;
+};
+
+// Short comma-separated term list, for providers whose prompt is only a spelling hint (Whisper)
+export const glossaryTerms = (glossary: Glossary | undefined): string[] =>
+  (glossary?.entries || [])
+    .flatMap(entry => [entry.urduSpelling, entry.latinSpelling || entry.term])
+    .map(term => term.trim())
+    .filter(Boolean);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only knows ASCII word characters, so Urdu words need Unicode-aware boundaries
+const ruleRegExp = (rule: ReplacementRule): RegExp => {
+  const pattern = escapeRegExp(rule.find);
+  return rule.wholeWord
+    ? new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${pattern}(?![\\p{L}\\p{M}\\p{N}])`, 'giu')
+    : new RegExp(pattern, 'giu');
+};
+
+export const applyReplacementRules = (result: TranscriptionResult, rules: ReplacementRule[]): TranscriptionResult => {
+  const active = rules.filter(rule => rule.find);
+  if (active.length === 0) return result;
+  const compiled = active.map(rule => ({ regex: ruleRegExp(rule), replace: rule.replace }));
+
+  return {
+    ...result,
+    segments: result.segments.map(segment => {
+      // A function replacement so "$" in the replacement text is taken literally
+      const text = compiled.reduce((current, { regex, replace }) => current.replace(regex, () => replace), segment.text);
+      return withUncertainSpans({ ...segment, text }, remapUncertainSpans(segment.text, text, segment.uncertain));
+    }),
+  };
+};
+
+export const glossaryToCsv = (glossary: Glossary): string => {
+  const rows = [
+    CSV_HEADER,
+    ...glossary.entries.map(entry => ['term', entry.term, entry.urduSpelling, entry.latinSpelling, entry.pronunciation, '', '']),
+    ...glossary.rules.map(rule => ['rule', rule.find, '', '', '', rule.replace, rule.wholeWord ? 'yes' : 'no']),
+  ];
+  return toCsv(rows);
+};
+
+// Accepts our own export, or a plain list with the term in the first column
+export const glossaryFromCsv = (name: string, csv: string): Glossary => {
+  const rows = parseCsv(csv);
+  const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === 'kind';
+  const glossary = createGlossary(name);
+
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const [kind, term = '', urdu = '', latin = '', pronunciation = '', replaceWith = '', wholeWord = ''] =
+      hasHeader ? row : ['term', ...row];
+    if (!term.trim()) continue;
+
+    if (kind.trim().toLowerCase() === 'rule') {
+      glossary.rules.push({
+        ...createReplacementRule(term, replaceWith),
+        wholeWord: wholeWord.trim().toLowerCase() !== 'no',
+      });
+    } else {
+      glossary.entries.push({
+        ...createGlossaryEntry(term.trim()),
+        urduSpelling: urdu.trim(),
+        latinSpelling: latin.trim(),
+        pronunciation: pronunciation.trim(),
+      });
+    }
+  }
+
+  if (glossary.entries.length === 0 && glossary.rules.length === 0) {
+    throw new Error("The CSV file contains no glossary terms.");
+  }
+  return glossary;
+};
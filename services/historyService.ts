@@ -0,0 +1,72 @@
+import { HistorySession, TranscriptionResult } from "../types";
+import { STORES, withStore } from "./database";
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number;
+}
+
+export const createSessionId = (): string =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A new session for a finished transcript; uploads are named after their file
+export const createSession = (
+  transcript: TranscriptionResult,
+  audioBlob: Blob | null,
+  audioMimeType: string,
+  name: string = audioBlob instanceof File ? audioBlob.name : `Recording ${new Date().toLocaleString()}`
+): HistorySession => {
+  const now = new Date().toISOString();
+  return {
+    id: createSessionId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    language: transcript.language,
+    audioBlob,
+    audioMimeType,
+    originalTranscript: transcript,
+    transcript,
+    speechBlob: null,
+  };
+};
+
+export const saveSession = (session: HistorySession): Promise<void> => {
+  return withStore<IDBValidKey>(STORES.sessions, 'readwrite', store => store.put(session)).then(() => undefined);
+};
+
+export const getSession = (id: string): Promise<HistorySession | undefined> => {
+  return withStore<HistorySession | undefined>(STORES.sessions, 'readonly', store => store.get(id));
+};
+
+// Newest first
+export const listSessions = async (): Promise<HistorySession[]> => {
+  const sessions = await withStore<HistorySession[]>(STORES.sessions, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const updateSession = async (id: string, patch: Partial<Omit<HistorySession, 'id'>>): Promise<HistorySession | undefined> => {
+  const existing = await getSession(id);
+  if (!existing) return undefined;
+  const updated: HistorySession = { ...existing, ...patch, id, updatedAt: new Date().toISOString() };
+  await saveSession(updated);
+  return updated;
+};
+
+export const deleteSessions = (ids: string[]): Promise<void> => {
+  return withStore<undefined>(STORES.sessions, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const estimate = await navigator.storage.estimate();
+  return { usedBytes: estimate.usage || 0, quotaBytes: estimate.quota || 0 };
+};
+
+// Rough size of what a session keeps on disk, for the cleanup list
+export const estimateSessionSize = (session: HistorySession): number => {
+  const transcriptBytes = JSON.stringify(session.transcript).length + JSON.stringify(session.originalTranscript).length;
+  return (session.audioBlob?.size || 0) + (session.speechBlob?.size || 0) + transcriptBytes;
+};
@@ -0,0 +1,182 @@
+import { generateText, UsageCallback } from "./transcriptionProvider";
+import { getInsightsInstruction, getInsightsMergeInstruction } from "./prompts";
+import { ApiError } from "./errors";
+import { throwIfCancelled } from "./apiRequest";
+import { extractJsonPayload, formatTimestamp, isRecord } from "../utils/transcriptUtils";
+import { getSpeakers } from "../utils/transcriptEdits";
+import { ActionItem, InsightsLanguage, MeetingInsights, MinutesTopic, TranscriptionProgress, TranscriptionResult } from "../types";
+
+// Summary, decisions, action items and minutes for a finished transcript
+
+export const INSIGHTS_LANGUAGES: InsightsLanguage[] = ['English', 'Urdu', 'Siraiki', 'Roman Urdu'];
+
+// Roughly 30k tokens of transcript per request; longer meetings are done in parts and merged
+const MAX_PART_CHARS = 100_000;
+
+export interface InsightsOptions {
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+interface Turn {
+  time: string;
+  speaker: string;
+  text: string;
+}
+
+type InsightsContent = Omit<MeetingInsights, 'language' | 'generatedAt'>;
+
+const splitTurns = (turns: Turn[]): Turn[][] => {
+  const parts: Turn[][] = [];
+  let current: Turn[] = [];
+  let chars = 0;
+
+  for (const turn of turns) {
+    if (current.length > 0 && chars + turn.text.length > MAX_PART_CHARS) {
+      parts.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(turn);
+    chars += turn.text.length;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+// Entries that aren't objects are skipped
+const asRecordList = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter(isRecord) : [];
+
+// Models sometimes drift from the speaker labels ("speaker 2", "Ali (Speaker 2)"); map back where we can
+const matchSpeaker = (owner: string, speakers: string[]): string => {
+  if (!owner) return '';
+  const lower = owner.toLowerCase();
+  return speakers.find(s => s.toLowerCase() === lower)
+    || speakers.find(s => lower.includes(s.toLowerCase()))
+    || owner;
+};
+
+const parseInsights = (raw: string, speakers: string[]): InsightsContent => {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonPayload(raw));
+  } catch {
+    throw new ApiError('empty-response', "The summary response was not valid JSON.");
+  }
+  if (!isRecord(data)) {
+    throw new ApiError('empty-response', "The summary response had an unexpected format.");
+  }
+
+  const actionItems: ActionItem[] = asRecordList(data.actionItems)
+    .map(item => ({
+      task: asString(item.task),
+      owner: matchSpeaker(asString(item.owner), speakers),
+      due: asString(item.due),
+    }))
+    .filter(item => item.task);
+
+  const topics: MinutesTopic[] = asRecordList(data.topics)
+    .map(topic => ({ title: asString(topic.title), notes: asStringList(topic.notes) }))
+    .filter(topic => topic.title || topic.notes.length > 0);
+
+  return {
+    title: asString(data.title),
+    summary: asString(data.summary),
+    decisions: asStringList(data.decisions),
+    actionItems,
+    topics,
+  };
+};
+
+export const generateInsights = async (
+  transcript: TranscriptionResult,
+  language: InsightsLanguage,
+  options: InsightsOptions = {}
+): Promise<MeetingInsights> => {
+  const { onProgress, signal, onUsage } = options;
+  const speakers = getSpeakers(transcript);
+  const turns: Turn[] = transcript.segments
+    .filter(segment => segment.text.trim())
+    .map(segment => ({ time: formatTimestamp(segment.start), speaker: segment.speaker, text: segment.text }));
+
+  if (turns.length === 0) {
+    throw new ApiError('empty-response', "The transcript is empty.");
+  }
+
+  const parts = splitTurns(turns);
+  const totalSteps = parts.length > 1 ? parts.length + 1 : 1;
+  onProgress?.({ completedChunks: 0, totalChunks: totalSteps });
+
+  // Parts run one after another; a long meeting is rare and this keeps within rate limits
+  const partResults: InsightsContent[] = [];
+  for (const part of parts) {
+    throwIfCancelled(signal);
+    const raw = await generateText({
+      instruction: getInsightsInstruction(language, speakers),
+      input: JSON.stringify({ speakers, turns: part }),
+      json: true,
+      signal,
+      onUsage,
+    });
+    partResults.push(parseInsights(raw, speakers));
+    onProgress?.({ completedChunks: partResults.length, totalChunks: totalSteps });
+  }
+
+  let content = partResults[0];
+  if (partResults.length > 1) {
+    throwIfCancelled(signal);
+    const raw = await generateText({
+      instruction: getInsightsMergeInstruction(language, speakers),
+      input: JSON.stringify({ speakers, parts: partResults }),
+      json: true,
+      signal,
+      onUsage,
+    });
+    content = parseInsights(raw, speakers);
+    onProgress?.({ completedChunks: totalSteps, totalChunks: totalSteps });
+  }
+
+  return { ...content, language, generatedAt: new Date().toISOString() };
+};
+
+// Plain-text minutes in a fixed template, for copying into e-mail or chat
+export const formatMinutes = (insights: MeetingInsights, transcript: TranscriptionResult): string => {
+  const lines: string[] = [
+    insights.title || 'Meeting Minutes',
+    `Date: ${new Date(transcript.timestamp).toLocaleDateString()}`,
+    `Participants: ${getSpeakers(transcript).join(', ')}`,
+    '',
+    'Summary',
+    insights.summary,
+  ];
+
+  if (insights.topics.length > 0) {
+    lines.push('', 'Discussion');
+    insights.topics.forEach((topic, i) => {
+      lines.push(`${i + 1}. ${topic.title}`);
+      topic.notes.forEach(note => lines.push(`   - ${note}`));
+    });
+  }
+
+  if (insights.decisions.length > 0) {
+    lines.push('', 'Decisions');
+    insights.decisions.forEach(decision => lines.push(`- ${decision}`));
+  }
+
+  if (insights.actionItems.length > 0) {
+    lines.push('', 'Action Items');
+    insights.actionItems.forEach(item => {
+      const details = [item.owner || 'Unassigned', item.due].filter(Boolean).join(', ');
+      lines.push(`- ${item.task} (${details})`);
+    });
+  }
+
+  return lines.join('\n');
+};
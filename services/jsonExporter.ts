@@ -0,0 +1,123 @@
+import { ActionItem, InsightsLanguage, Language, MeetingInsights, MinutesTopic, TranscriptSegment, TranscriptionResult, TranslationMode, UncertainSpan } from "../types";
+import { createSegmentId, isRecord, parseTimeValue } from "../utils/transcriptUtils";
+import { Exporter } from "./exportService";
+
+// Lossless export of the full transcript structure; `parseTranscriptJson` reads it back
+const FORMAT_ID = 'scribeflow-transcript';
+const FORMAT_VERSION = 1;
+const LANGUAGES: Language[] = ['Mixed', 'Urdu', 'English', 'Siraiki'];
+const INSIGHTS_LANGUAGES: InsightsLanguage[] = ['English', 'Urdu', 'Siraiki', 'Roman Urdu'];
+const TRANSLATION_MODES: TranslationMode[] = ['shahmukhi-to-roman', 'roman-to-shahmukhi', 'urdu-to-english', 'english-to-urdu'];
+
+interface TranscriptFile {
+  format: typeof FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  transcript: TranscriptionResult;
+}
+
+export const generateTranscriptJson = (transcript: TranscriptionResult): string => {
+  const file: TranscriptFile = {
+    format: FORMAT_ID,
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    transcript,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const asRecordList = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter(isRecord) : [];
+
+const isOffset = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Spans that no longer fit the text are dropped rather than failing the import
+const readSpans = (raw: unknown, text: string): UncertainSpan[] => asRecordList(raw)
+  .flatMap(({ start, end }) => (isOffset(start) && isOffset(end) && start < end && end <= text.length ? [{ start, end }] : []));
+
+const readSegment = (raw: unknown): TranscriptSegment => {
+  if (!isRecord(raw) || typeof raw.text !== 'string') {
+    throw new Error("Invalid transcript file: every segment needs a text field.");
+  }
+  const start = parseTimeValue(raw.start);
+  const spans = readSpans(raw.uncertain, raw.text);
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createSegmentId(),
+    start,
+    end: Math.max(start, parseTimeValue(raw.end)),
+    speaker: typeof raw.speaker === 'string' ? raw.speaker : 'Speaker 1',
+    language: typeof raw.language === 'string' ? raw.language : 'Mixed',
+    confidence: typeof raw.confidence === 'number' ? raw.confidence : 1,
+    text: raw.text,
+    ...(typeof raw.translation === 'string' ? { translation: raw.translation } : {}),
+    ...(spans.length > 0 ? { uncertain: spans } : {}),
+    ...(raw.reviewed === true ? { reviewed: true } : {}),
+  };
+};
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Insights that don't have the expected shape are dropped; they can be generated again
+const readInsights = (raw: unknown): MeetingInsights | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const language = INSIGHTS_LANGUAGES.find(known => known === raw.language);
+  if (!language) return undefined;
+  return {
+    language,
+    generatedAt: asString(raw.generatedAt),
+    title: asString(raw.title),
+    summary: asString(raw.summary),
+    decisions: asStringList(raw.decisions),
+    actionItems: asRecordList(raw.actionItems)
+      .flatMap((item): ActionItem[] => (typeof item.task === 'string' ? [{ task: item.task, owner: asString(item.owner), due: asString(item.due) }] : [])),
+    topics: asRecordList(raw.topics)
+      .map((topic): MinutesTopic => ({ title: asString(topic.title), notes: asStringList(topic.notes) })),
+  };
+};
+
+// Only known transcript fields are read, so a hand-edited file can't put unexpected values into a session
+export const parseTranscriptJson = (content: string): TranscriptionResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.replace(/^﻿/, ''));
+  } catch {
+    throw new Error("Invalid transcript file: not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== FORMAT_ID || typeof data.version !== 'number') {
+    throw new Error("This file is not a ScribeFlow transcript export.");
+  }
+  if (data.version > FORMAT_VERSION) {
+    throw new Error("This transcript was exported by a newer version of ScribeFlow.");
+  }
+
+  const transcript = data.transcript;
+  if (!isRecord(transcript) || !Array.isArray(transcript.segments)) {
+    throw new Error("Invalid transcript file: missing segments.");
+  }
+
+  const segments = transcript.segments.map(readSegment);
+  const insights = readInsights(transcript.insights);
+  const hasTranslation = segments.some(segment => segment.translation !== undefined);
+  const translationMode = TRANSLATION_MODES.find(mode => mode === transcript.translationMode);
+  return {
+    segments,
+    language: LANGUAGES.find(language => language === transcript.language) || 'Mixed',
+    timestamp: typeof transcript.timestamp === 'string' ? transcript.timestamp : new Date().toISOString(),
+    ...(typeof transcript.glossaryId === 'string' && transcript.glossaryId ? { glossaryId: transcript.glossaryId } : {}),
+    ...(typeof transcript.styleId === 'string' && transcript.styleId ? { styleId: transcript.styleId } : {}),
+    ...(hasTranslation && translationMode ? { translationMode } : {}),
+    ...(insights ? { insights } : {}),
+  };
+};
+
+export const jsonExporter: Exporter = {
+  id: 'json',
+  label: 'ScribeFlow JSON (.json)',
+  extension: 'json',
+  category: 'data',
+  export: async (transcript) => new Blob([generateTranscriptJson(transcript)], { type: 'application/json' }),
+};
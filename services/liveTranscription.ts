@@ -0,0 +1,162 @@
+import { transcribeAudio, UsageCallback } from "./transcriptionProvider";
+import { getPartStyle } from "./styleService";
+import { isAbortError } from "./errors";
+import { createPcmTap, PcmTap } from "../utils/pcmTap";
+import { encodeWav } from "../utils/audioUtils";
+import { distributeTimings } from "../utils/transcriptUtils";
+import { Glossary, Language, LiveTranscript, SpeakerHints, TranscriptSegment, TranscriptStyle } from "../types";
+
+// How often the pending audio is sent for a partial transcript
+const LIVE_INTERVAL_MS = 8000;
+// Don't send windows shorter than this; there is rarely a full phrase in them
+const MIN_NEW_AUDIO_SECONDS = 3;
+// Segments ending this close to the live edge may be cut mid-word and stay provisional
+const PROVISIONAL_TAIL_SECONDS = 2.5;
+// Audio kept before the confirmed point so the next window has some context
+const CONTEXT_SECONDS = 1;
+// Past this, everything but the tail is confirmed to keep windows (and requests) small
+const MAX_WINDOW_SECONDS = 60;
+
+export interface LiveTranscriberOptions {
+  language: Language;
+  glossary?: Glossary;
+  speakerHints?: SpeakerHints;
+  style?: TranscriptStyle; // single-pass styles are previewed as a standard transcript
+  onUpdate: (transcript: LiveTranscript) => void;
+  onUsage?: UsageCallback; // every pass is a billed request, including the re-sent context
+}
+
+export interface LiveTranscriber {
+  // While paused, microphone audio is dropped so timings keep matching the recording
+  setPaused: (paused: boolean) => void;
+  // Stops listening and returns what has been transcribed so far
+  stop: () => Promise<LiveTranscript>;
+}
+
+/**
+ * Taps PCM from the microphone stream and periodically transcribes the unconfirmed tail.
+ * Each pass re-transcribes audio from the last confirmed segment onward, so provisional
+ * text near the live edge gets corrected once more audio is available.
+ */
+export const startLiveTranscription = async (stream: MediaStream, options: LiveTranscriberOptions): Promise<LiveTranscriber> => {
+  const { language, glossary, speakerHints, style, onUpdate, onUsage } = options;
+
+  let bufferStart = 0; // seconds; recording time of pending[0]
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  let lastSentEnd = 0;
+  let confirmedUntil = 0;
+  let inFlight: Promise<void> | null = null;
+  let inFlightController: AbortController | null = null;
+  let paused = false;
+
+  const transcript: LiveTranscript = { confirmed: [], provisional: [] };
+
+  const tap: PcmTap = await createPcmTap(stream, (samples) => {
+    if (paused) return;
+    pending.push(samples);
+    pendingLength += samples.length;
+  });
+  const sampleRate = tap.sampleRate;
+
+  const currentEnd = () => bufferStart + pendingLength / sampleRate;
+
+  const flattenPending = (): Float32Array => {
+    const merged = new Float32Array(pendingLength);
+    let offset = 0;
+    for (const part of pending) {
+      merged.set(part, offset);
+      offset += part.length;
+    }
+    pending = [merged];
+    return merged;
+  };
+
+  // Drops buffered audio before `time` (minus context), keeping memory bounded on long meetings
+  const trimBuffer = (time: number) => {
+    const keepFrom = Math.max(bufferStart, time - CONTEXT_SECONDS);
+    const dropSamples = Math.floor((keepFrom - bufferStart) * sampleRate);
+    if (dropSamples <= 0) return;
+    const merged = flattenPending().slice(dropSamples);
+    pending = [merged];
+    pendingLength = merged.length;
+    bufferStart += dropSamples / sampleRate;
+  };
+
+  const transcribeWindow = async (signal: AbortSignal) => {
+    const windowStart = bufferStart;
+    const windowEnd = currentEnd();
+    if (windowEnd - windowStart <= 0) return;
+
+    const samples = flattenPending().slice();
+    lastSentEnd = windowEnd;
+
+    const result = await transcribeAudio(encodeWav(samples, sampleRate), 'audio/wav', {
+      language,
+      glossary,
+      speakerHints,
+      style: getPartStyle(style),
+      signal,
+      onUsage: onUsage && (usage => onUsage({ ...usage, audioSeconds: usage.audioSeconds ?? windowEnd - windowStart })),
+    });
+    if (signal.aborted) return;
+    const segments = distributeTimings(result.segments, windowEnd - windowStart).map(segment => ({
+      ...segment,
+      start: windowStart + segment.start,
+      end: windowStart + segment.end,
+    }));
+
+    // Anything centred before the confirmed point was already emitted by an earlier pass
+    const fresh = segments.filter(segment => (segment.start + segment.end) / 2 >= confirmedUntil);
+    const forceConfirm = windowEnd - windowStart > MAX_WINDOW_SECONDS;
+    const confirmBefore = windowEnd - PROVISIONAL_TAIL_SECONDS;
+
+    const newlyConfirmed: TranscriptSegment[] = [];
+    const provisional: TranscriptSegment[] = [];
+    for (const segment of fresh) {
+      const isLast = segment === fresh[fresh.length - 1];
+      if (segment.end <= confirmBefore || (forceConfirm && !isLast)) {
+        newlyConfirmed.push(segment);
+      } else {
+        provisional.push(segment);
+      }
+    }
+
+    if (newlyConfirmed.length > 0) {
+      confirmedUntil = newlyConfirmed[newlyConfirmed.length - 1].end;
+      transcript.confirmed = [...transcript.confirmed, ...newlyConfirmed];
+      trimBuffer(confirmedUntil);
+    }
+    transcript.provisional = provisional;
+    onUpdate({ ...transcript });
+  };
+
+  const tick = () => {
+    if (inFlight || currentEnd() - lastSentEnd < MIN_NEW_AUDIO_SECONDS) return;
+    const controller = new AbortController();
+    inFlightController = controller;
+    inFlight = transcribeWindow(controller.signal)
+      .catch(error => {
+        if (!isAbortError(error)) console.warn("Live transcription pass failed:", error);
+      })
+      .finally(() => {
+        inFlight = null;
+        inFlightController = null;
+      });
+  };
+
+  const interval = window.setInterval(tick, LIVE_INTERVAL_MS);
+
+  return {
+    setPaused: (value: boolean) => {
+      paused = value;
+    },
+    stop: async () => {
+      window.clearInterval(interval);
+      tap.stop();
+      // The final pass replaces whatever this pass would have added, so it is not waited for
+      inFlightController?.abort();
+      return { ...transcript };
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import { TranscriptionResult } from "../types";
+import { formatTimestamp } from "../utils/transcriptUtils";
+import { Exporter } from "./exportService";
+
+// Characters that would otherwise start Markdown formatting inside transcript text
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#<>|])/g, '\\$1');
+
+export const generateMarkdown = (transcript: TranscriptionResult): string => {
+  const lines = [
+    '# Audio Transcription',
+    '',
+    `_Generated by ScribeFlow on ${new Date().toLocaleString()} · Language: ${transcript.language}_`,
+    '',
+  ];
+
+  for (const segment of transcript.segments) {
+    lines.push(`**${escapeMarkdown(segment.speaker)}** \`${formatTimestamp(segment.start)}\``);
+    lines.push('');
+    lines.push(escapeMarkdown(segment.text));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+export const markdownExporter: Exporter = {
+  id: 'md',
+  label: 'Markdown (.md)',
+  extension: 'md',
+  category: 'document',
+  export: async (transcript) => new Blob([generateMarkdown(transcript)], { type: 'text/markdown;charset=utf-8' }),
+};
@@ -0,0 +1,54 @@
+// Microphone choice and browser audio processing, remembered between visits
+
+export interface MicrophoneSettings {
+  deviceId: string; // '' for the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export interface MicrophoneOption {
+  deviceId: string;
+  label: string;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+const STORAGE_KEY = 'scribeflow.microphoneSettings';
+
+export const loadMicrophoneSettings = (): MicrophoneSettings => {
+  try {
+    return { ...DEFAULT_MICROPHONE_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_MICROPHONE_SETTINGS };
+  }
+};
+
+export const saveMicrophoneSettings = (settings: MicrophoneSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const buildAudioConstraints = (settings: MicrophoneSettings): MediaTrackConstraints => ({
+  // `ideal` so a remembered device that was unplugged falls back to the default instead of failing
+  deviceId: settings.deviceId ? { ideal: settings.deviceId } : undefined,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+// Labels are empty until the user has granted microphone access once
+export const listMicrophones = async (): Promise<MicrophoneOption[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }));
+};
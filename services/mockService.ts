@@ -0,0 +1,104 @@
+import { Language, TranscriptionResult } from "../types";
+import { createSegmentId } from "../utils/transcriptUtils";
+import { chunkText } from "../utils/textUtils";
+import { SpeechOptions, SynthesizedSpeech, TextGenerationRequest, TranscriptionOptions, TranscriptionProvider } from "./transcriptionProvider";
+import { sleep } from "./apiRequest";
+
+// Offline provider returning canned, deterministic output. Useful for UI work and demos without an API key.
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_LATENCY_MS = 600;
+
+const MOCK_LINES: Record<Language, { speaker: string; language: string; text: string }[]> = {
+  Urdu: [
+    { speaker: 'Speaker 1', language: 'Urdu', text: 'السلام علیکم، آج کی میٹنگ میں خوش آمدید۔' },
+    { speaker: 'Speaker 2', language: 'Urdu', text: 'وعلیکم السلام، شکریہ۔ ہم پچھلے ہفتے کی رپورٹ سے شروع کرتے ہیں۔' },
+  ],
+  Siraiki: [
+    { speaker: 'Speaker 1', language: 'Siraiki', text: 'سلام، اڄ دی ملاقات وچ ڀلی کر آیاں۔' },
+    { speaker: 'Speaker 2', language: 'Siraiki', text: 'مہربانی، اساں پچھلے ہفتے دی رپورٹ توں شروع کریندے ہیں۔' },
+  ],
+  English: [
+    { speaker: 'Speaker 1', language: 'English', text: 'Good morning, and welcome to today\'s meeting.' },
+    { speaker: 'Speaker 2', language: 'English', text: 'Thank you. Let\'s start with last week\'s report.' },
+  ],
+  Mixed: [
+    { speaker: 'Speaker 1', language: 'Urdu', text: 'السلام علیکم، آج کی meeting میں خوش آمدید۔' },
+    { speaker: 'Speaker 2', language: 'English', text: 'Thank you. Let\'s start with last week\'s report.' },
+    { speaker: 'Speaker 1', language: 'Siraiki', text: 'ٹھیک اے، رپورٹ تیار ہے۔' },
+  ],
+};
+
+const MOCK_VOICES = [
+  { id: 'low', name: 'Low Tone' },
+  { id: 'mid', name: 'Mid Tone' },
+  { id: 'high', name: 'High Tone' },
+];
+
+const VOICE_FREQUENCIES: Record<string, number> = { low: 220, mid: 330, high: 440 };
+
+// Usage is reported like a real provider's so the usage views can be tried offline; the mock model costs nothing
+const MOCK_MODEL = 'mock';
+
+const transcribeAudio = async (_audio: Blob, _mimeType: string, options: TranscriptionOptions): Promise<TranscriptionResult> => {
+  await sleep(MOCK_LATENCY_MS, options.signal);
+
+  // Timings are left at zero so the pipeline spreads them over the real audio duration
+  const segments = MOCK_LINES[options.language].map(line => ({
+    id: createSegmentId(),
+    start: 0,
+    end: 0,
+    speaker: line.speaker,
+    language: line.language,
+    confidence: 1,
+    text: line.text,
+  }));
+
+  options.onUsage?.({ model: MOCK_MODEL, outputTokens: segments.reduce((sum, segment) => sum + segment.text.length, 0) });
+
+  return {
+    segments,
+    language: options.language,
+    timestamp: new Date().toISOString(),
+  };
+};
+
+// Produces a short tone per text chunk, separated by silence, so the playback UI has something to play
+const generateSpeech = async (text: string, options: SpeechOptions): Promise<SynthesizedSpeech> => {
+  await sleep(MOCK_LATENCY_MS, options.signal);
+
+  const frequency = VOICE_FREQUENCIES[options.voiceName || 'mid'] || VOICE_FREQUENCIES.mid;
+  const chunks = chunkText(text);
+  const toneSamples = Math.floor((MOCK_SAMPLE_RATE * 0.4) / (options.speed || 1));
+  const gapSamples = Math.floor(MOCK_SAMPLE_RATE * 0.2);
+  const totalSamples = Math.max(1, chunks.length) * (toneSamples + gapSamples);
+
+  const pcm = new Uint8Array(totalSamples * 2);
+  const view = new DataView(pcm.buffer);
+  for (let c = 0; c < Math.max(1, chunks.length); c++) {
+    const base = c * (toneSamples + gapSamples);
+    for (let i = 0; i < toneSamples; i++) {
+      const sample = Math.sin((2 * Math.PI * frequency * i) / MOCK_SAMPLE_RATE) * 0.3;
+      view.setInt16((base + i) * 2, sample * 0x7fff, true);
+    }
+  }
+
+  options.onUsage?.({ model: MOCK_MODEL, characters: text.length });
+  return { pcm, sampleRate: MOCK_SAMPLE_RATE };
+};
+
+// Echoes the input back, so a JSON request gets its own payload as the answer
+const generateText = async (request: TextGenerationRequest): Promise<string> => {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  request.onUsage?.({ model: MOCK_MODEL, inputTokens: request.instruction.length + request.input.length, outputTokens: request.input.length });
+  return request.input;
+};
+
+export const mockProvider: TranscriptionProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  voices: MOCK_VOICES,
+  transcribe: transcribeAudio,
+  synthesize: generateSpeech,
+  generateText,
+};
@@ -0,0 +1,248 @@
+import { Language, TranscriptSegment, TranscriptionResult } from "../types";
+import { extractPcmFromWav } from "../utils/fileUtils";
+import { createSegmentId, detectSegmentLanguage, isRecord } from "../utils/transcriptUtils";
+import { chunkText } from "../utils/textUtils";
+import { SpeechOptions, SynthesizedSpeech, TextGenerationRequest, TranscriptionOptions, TranscriptionProvider } from "./transcriptionProvider";
+import { ApiError, errorFromStatus } from "./errors";
+import { glossaryTerms } from "./glossaryService";
+import { parseRetryAfter, withRetry } from "./apiRequest";
+
+// Provider for OpenAI's API and self-hosted servers that implement the same endpoints
+// (faster-whisper-server, LocalAI, whisper.cpp server, ...).
+
+export interface OpenAiProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  transcriptionModel: string;
+  speechModel: string;
+  chatModel: string;
+}
+
+const OPENAI_VOICES = [
+  { id: 'alloy', name: 'Alloy (Neutral)' },
+  { id: 'echo', name: 'Echo (Warm)' },
+  { id: 'fable', name: 'Fable (Expressive)' },
+  { id: 'onyx', name: 'Onyx (Deep)' },
+  { id: 'nova', name: 'Nova (Bright)' },
+  { id: 'shimmer', name: 'Shimmer (Soft)' },
+];
+
+// Whisper has no Siraiki model; Urdu is the closest script and vocabulary match.
+// Mixed audio is left to Whisper's own language detection.
+const WHISPER_LANGUAGE_CODES: Partial<Record<Language, string>> = {
+  Urdu: 'ur',
+  Siraiki: 'ur',
+  English: 'en',
+};
+
+const WHISPER_PROMPTS: Record<Language, string> = {
+  Urdu: 'یہ اردو میں گفتگو ہے۔',
+  Siraiki: 'اے سرائیکی وچ گالھ مہاڑ اے۔',
+  English: 'This is an English conversation.',
+  Mixed: 'یہ گفتگو اردو، سرائیکی and English میں ہے۔',
+};
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+};
+
+const fileNameFor = (mimeType: string) => {
+  const baseType = mimeType.split(';')[0].trim();
+  return `audio.${FILE_EXTENSIONS[baseType] || 'webm'}`;
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const authHeaders = (config: OpenAiProviderConfig): Record<string, string> =>
+  config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+const ensureOk = async (response: Response) => {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw errorFromStatus(response.status, detail, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+};
+
+const asNumber = (value: unknown): number | undefined => (typeof value === 'number' ? value : undefined);
+
+// Whisper reports log-probabilities; exp(avg_logprob) gives a usable 0-1 score
+const toSegment = (raw: unknown): TranscriptSegment | null => {
+  if (!isRecord(raw)) return null;
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+  if (!text) return null;
+  const start = Number(raw.start) || 0;
+  const end = Math.max(start, Number(raw.end) || 0);
+  const confidence = typeof raw.avg_logprob === 'number' ? Math.min(1, Math.exp(raw.avg_logprob)) : 1;
+
+  return {
+    id: createSegmentId(),
+    start,
+    end,
+    speaker: 'Speaker 1', // Whisper does not diarize
+    language: detectSegmentLanguage(text),
+    confidence,
+    text,
+  };
+};
+
+export const createOpenAiProvider = (config: OpenAiProviderConfig): TranscriptionProvider => {
+  const baseUrl = trimSlash(config.baseUrl);
+
+  const transcribeAudio = async (audio: Blob, mimeType: string, options: TranscriptionOptions): Promise<TranscriptionResult> => {
+    const { language } = options;
+    const form = new FormData();
+    form.append('file', audio, fileNameFor(mimeType));
+    form.append('model', config.transcriptionModel);
+    form.append('response_format', 'verbose_json');
+    // Whisper's prompt is a spelling hint, so glossary terms and speaker names are simply listed after it
+    const terms = [...glossaryTerms(options.glossary), ...(options.speakerHints?.names || [])];
+    form.append('prompt', terms.length ? `${WHISPER_PROMPTS[language]} ${terms.join('، ')}` : WHISPER_PROMPTS[language]);
+    const languageCode = WHISPER_LANGUAGE_CODES[language];
+    if (languageCode) form.append('language', languageCode);
+
+    const data = await withRetry(async (abortSignal): Promise<unknown> => {
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: authHeaders(config),
+        body: form,
+        signal: abortSignal,
+      });
+      await ensureOk(response);
+      return response.json();
+    }, { signal: options.signal });
+
+    const body = isRecord(data) ? data : {};
+    const duration = Number(body.duration) || 0;
+
+    // Whisper is billed by audio duration; newer transcription models also report tokens
+    const usage = isRecord(body.usage) ? body.usage : {};
+    const audioTokens = asNumber(isRecord(usage.input_token_details) ? usage.input_token_details.audio_tokens : undefined);
+    const inputTokens = asNumber(usage.input_tokens);
+    options.onUsage?.({
+      model: config.transcriptionModel,
+      audioSeconds: duration || undefined,
+      inputTokens: inputTokens !== undefined ? inputTokens - (audioTokens || 0) : undefined,
+      audioTokens,
+      outputTokens: asNumber(usage.output_tokens),
+    });
+
+    const rawSegments: unknown[] = Array.isArray(body.segments) && body.segments.length > 0
+      ? body.segments
+      : [{ start: 0, end: duration, text: body.text }];
+    const segments = rawSegments
+      .map(toSegment)
+      .filter((segment): segment is TranscriptSegment => segment !== null);
+
+    if (segments.length === 0) {
+      throw new ApiError('empty-response', "No transcription generated.");
+    }
+
+    return {
+      segments,
+      language,
+      timestamp: new Date().toISOString(),
+    };
+  };
+
+  const generateSpeech = async (text: string, options: SpeechOptions): Promise<SynthesizedSpeech> => {
+    const voice = options.voiceName || OPENAI_VOICES[0].id;
+    const pcmChunks: Uint8Array[] = [];
+    let sampleRate = 24000;
+
+    for (const chunk of chunkText(text)) {
+      if (!chunk.trim()) continue;
+
+      const wavBuffer = await withRetry(async abortSignal => {
+        const response = await fetch(`${baseUrl}/audio/speech`, {
+          method: 'POST',
+          headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: config.speechModel,
+            input: chunk,
+            voice,
+            response_format: 'wav',
+            ...(options.speed && options.speed !== 1 ? { speed: options.speed } : {}),
+            // Only the newer speech models take delivery instructions; tts-1 rejects them
+            ...(options.style?.trim() && !config.speechModel.startsWith('tts-1') ? { instructions: options.style.trim() } : {}),
+          }),
+          signal: abortSignal,
+        });
+        await ensureOk(response);
+        return response.arrayBuffer();
+      }, { signal: options.signal });
+
+      options.onUsage?.({ model: config.speechModel, characters: chunk.length });
+
+      const wav = extractPcmFromWav(wavBuffer);
+      sampleRate = wav.sampleRate;
+      pcmChunks.push(wav.pcm);
+    }
+
+    const totalLength = pcmChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    if (totalLength === 0) {
+      throw new ApiError('empty-response', "No audio content generated.");
+    }
+
+    const pcm = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const chunk of pcmChunks) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return { pcm, sampleRate };
+  };
+
+  const generateText = async (request: TextGenerationRequest): Promise<string> => {
+    const data = await withRetry(async (abortSignal): Promise<unknown> => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...authHeaders(config), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.chatModel,
+          messages: [
+            { role: 'system', content: request.instruction },
+            { role: 'user', content: request.input },
+          ],
+          ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal: abortSignal,
+      });
+      await ensureOk(response);
+      return response.json();
+    }, { signal: request.signal });
+
+    const body = isRecord(data) ? data : {};
+    const usage = isRecord(body.usage) ? body.usage : {};
+    request.onUsage?.({
+      model: config.chatModel,
+      inputTokens: asNumber(usage.prompt_tokens),
+      outputTokens: asNumber(usage.completion_tokens),
+    });
+
+    const choice = Array.isArray(body.choices) && isRecord(body.choices[0]) ? body.choices[0] : {};
+    if (choice.finish_reason === 'content_filter') {
+      throw new ApiError('safety-blocked', "Response blocked by the content filter.");
+    }
+    const message = isRecord(choice.message) ? choice.message : {};
+    const text = typeof message.content === 'string' ? message.content.trim() : '';
+    if (!text) {
+      throw new ApiError('empty-response', "No text generated.");
+    }
+    return text;
+  };
+
+  return {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    voices: OPENAI_VOICES,
+    transcribe: transcribeAudio,
+    synthesize: generateSpeech,
+    generateText,
+  };
+};
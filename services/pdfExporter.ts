@@ -0,0 +1,222 @@
+import { TranscriptSegment, TranscriptionResult } from "../types";
+import { formatTimestamp } from "../utils/transcriptUtils";
+import { containsArabicScript, isRtlText } from "../utils/scriptUtils";
+import { createImagePdf, PdfPageImage } from "../utils/pdfWriter";
+import { Exporter } from "./exportService";
+
+// Pages are laid out on a canvas so the browser's own text engine does the Nastaliq
+// shaping and bidi reordering, then embedded in the PDF as page images. That keeps
+// the Urdu rendering identical to what the app shows on screen. An invisible text
+// layer over each image keeps the transcript searchable and copyable.
+//
+// This deliberately stops short of embedding the Nastaliq font in the PDF. Doing that
+// needs a TTF subsetter and a shaping engine (HarfBuzz) for Nastaliq's contextual forms
+// and ligatures, well over a megabyte of code and font data in the bundle. The costs of
+// the image approach: files are larger, text softens when zoomed in or printed large
+// (pages are ~144 dpi), and the font comes from the app's web fonts, so an export fails
+// rather than falling back to another script style when the Nastaliq face can't load.
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const SCALE = 2; // canvas pixels per point, ~144 dpi
+const TIMESTAMP_WIDTH = 60;
+const TEXT_LEFT = MARGIN + TIMESTAMP_WIDTH;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN - TEXT_LEFT;
+
+const URDU_FONT = '"Noto Nastaliq Urdu"';
+// Inter has no Arabic glyphs, so Urdu characters fall through to the Nastaliq face
+const FONT_STACK = `"Inter", ${URDU_FONT}, sans-serif`;
+const BODY_SIZE = 11;
+const URDU_BODY_SIZE = 13; // Nastaliq reads small at the Latin size
+const SEGMENT_GAP = 10;
+
+const ensureFontsLoaded = async (needsUrdu: boolean) => {
+  if (!document.fonts) return;
+  const urduFont = `${URDU_BODY_SIZE}px ${URDU_FONT}`;
+  await Promise.all([
+    document.fonts.load(urduFont, 'اردو'),
+    document.fonts.load(`${BODY_SIZE}px "Inter"`),
+    document.fonts.load(`bold ${BODY_SIZE}px "Inter"`),
+  ]);
+  if (needsUrdu && !document.fonts.check(urduFont, 'اردو')) {
+    throw new Error("The Noto Nastaliq Urdu font could not be loaded, so the PDF cannot show Urdu text. Check your connection and try again.");
+  }
+};
+
+// Greedy word wrap using the context's current font
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+interface DrawCommand {
+  text: string;
+  x: number;
+  y: number;
+  font: string;
+  size: number; // font size in points, for the text layer
+  color: string;
+  rtl: boolean;
+  align?: CanvasTextAlign;
+  width: number; // measured when laid out
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser.");
+  return { canvas, ctx };
+};
+
+// Lays the document out as text commands per page. Pages are only drawn afterwards, one at a
+// time, so a long transcript never holds more than one full-size canvas.
+class PageLayout {
+  readonly pages: DrawCommand[][] = [];
+  private ctx = createCanvas(1, 1).ctx;
+  y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.y = MARGIN;
+  }
+
+  get context() {
+    return this.ctx;
+  }
+
+  // Starts a new page when the next block would run into the bottom margin
+  reserve(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN && this.y > MARGIN) this.addPage();
+  }
+
+  drawText(text: string, x: number, size: number, color: string, options: { style?: string; rtl?: boolean } = {}) {
+    const font = `${options.style || ''} ${size}px ${FONT_STACK}`.trim();
+    const rtl = options.rtl || false;
+    this.ctx.font = font;
+    this.ctx.direction = rtl ? 'rtl' : 'ltr';
+    const width = this.ctx.measureText(text).width;
+    this.pages[this.pages.length - 1].push({ text, x, y: this.y, font, size, color, rtl, width });
+  }
+}
+
+const drawCommand = (ctx: CanvasRenderingContext2D, command: DrawCommand) => {
+  ctx.font = command.font;
+  ctx.fillStyle = command.color;
+  ctx.direction = command.rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = command.align || (command.rtl ? 'right' : 'left');
+  ctx.fillText(command.text, command.x, command.y);
+};
+
+const renderPages = async (layout: PageLayout): Promise<PdfPageImage[]> => {
+  const { canvas, ctx } = createCanvas(PAGE_WIDTH * SCALE, PAGE_HEIGHT * SCALE);
+  ctx.textBaseline = 'alphabetic';
+  const total = layout.pages.length;
+  const pages: PdfPageImage[] = [];
+
+  for (const [i, commands] of layout.pages.entries()) {
+    ctx.setTransform(SCALE, 0, 0, SCALE, 0, 0);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+    commands.forEach(command => drawCommand(ctx, command));
+    drawCommand(ctx, {
+      text: `${i + 1} / ${total}`,
+      x: PAGE_WIDTH / 2,
+      y: PAGE_HEIGHT - MARGIN / 2,
+      font: `9px ${FONT_STACK}`,
+      size: 9,
+      color: '#9CA3AF',
+      rtl: false,
+      align: 'center',
+      width: 0,
+    });
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(b => (b ? resolve(b) : reject(new Error("Failed to render PDF page."))), 'image/jpeg', 0.92);
+    });
+    pages.push({
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      pointWidth: PAGE_WIDTH,
+      pointHeight: PAGE_HEIGHT,
+      text: commands.map(command => ({
+        text: command.text,
+        x: command.rtl ? command.x - command.width : command.x,
+        y: command.y,
+        width: command.width,
+        size: command.size,
+      })),
+    });
+  }
+  return pages;
+};
+
+const drawSegment = (layout: PageLayout, segment: TranscriptSegment) => {
+  const ctx = layout.context;
+  const rtl = isRtlText(segment.text);
+  const size = rtl ? URDU_BODY_SIZE : BODY_SIZE;
+  const lineHeight = rtl ? size * 2.2 : size * 1.5; // Nastaliq needs extra room for its stacked glyphs
+  const textX = rtl ? TEXT_LEFT + TEXT_WIDTH : TEXT_LEFT;
+
+  ctx.font = `${size}px ${FONT_STACK}`;
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  const lines = wrapText(ctx, segment.text, TEXT_WIDTH);
+
+  // Keep the speaker label together with at least the first line of text
+  layout.reserve(BODY_SIZE * 1.5 + lineHeight);
+  layout.y += BODY_SIZE;
+  layout.drawText(formatTimestamp(segment.start), MARGIN, 9, '#6B7280');
+  layout.drawText(segment.speaker, textX, BODY_SIZE, '#1E293B', { style: 'bold', rtl });
+  layout.y += BODY_SIZE * 0.5;
+
+  for (const line of lines) {
+    layout.reserve(lineHeight);
+    layout.y += lineHeight;
+    layout.drawText(line, textX, size, '#334155', { rtl });
+  }
+
+  layout.y += SEGMENT_GAP;
+};
+
+export const generatePdfBlob = async (transcript: TranscriptionResult): Promise<Blob> => {
+  await ensureFontsLoaded(transcript.segments.some(segment => containsArabicScript(segment.text)));
+
+  const layout = new PageLayout();
+  layout.y += 22;
+  layout.drawText("Audio Transcription", MARGIN, 18, '#2563EB', { style: 'bold' });
+  layout.y += 18;
+  layout.drawText(`Generated by ScribeFlow on ${new Date().toLocaleString()}`, MARGIN, 10, '#6B7280', { style: 'italic' });
+  layout.y += 16;
+
+  transcript.segments.forEach(segment => drawSegment(layout, segment));
+
+  return createImagePdf(await renderPages(layout));
+};
+
+export const pdfExporter: Exporter = {
+  id: 'pdf',
+  label: 'PDF (.pdf)',
+  extension: 'pdf',
+  category: 'document',
+  export: (transcript) => generatePdfBlob(transcript),
+};
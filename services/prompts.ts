@@ -0,0 +1,144 @@
+import { Glossary, InsightsLanguage, Language, SpeakerHints, TranscriptStyle, TranslationMode } from "../types";
+import { buildGlossaryInstruction } from "./glossaryService";
+import { DEFAULT_STYLE, renderStyleTemplate } from "./styleService";
+
+// Script guidance for the language chosen in the recorder; the {{scriptRules}} template variable
+const SCRIPT_RULES: Record<Language, string> = {
+  Urdu: `The audio is in Urdu. Transcribe primarily in Urdu script (Nastaliq style unicode).
+If English words are used, you may keep them in English script if it represents clear code-switching, otherwise transliterate standard terms.`,
+  Siraiki: `The audio is in Siraiki. Transcribe using the Siraiki/Urdu script (Arabic-based Shahmukhi script).
+Ensure specific Siraiki characters (like heavy consonants unique to the language) are represented correctly if using standard Unicode blocks.`,
+  English: `The audio is in English. Transcribe in standard English.`,
+  Mixed: `The audio contains mixed speech in Urdu, Siraiki, and English.
+Use proper scripts for each: Nastaliq style for Urdu/Siraiki and English script for English parts.
+Detect the language shifts naturally.`,
+};
+
+// Added after every style's template: the response format the parser and the review mode rely on
+const OUTPUT_INSTRUCTION = `Output:
+- Do not add any introductory or concluding remarks. Just provide the transcript.
+- Return JSON matching the response schema: one entry per speaker turn (or per section, if the
+  task asks for sections) with "start" and "end" in seconds from the beginning of the audio, the
+  "speaker" label, the "language" spoken in that turn (Urdu, Siraiki or English), your "confidence"
+  in the transcription of that turn from 0 to 1, and the transcribed "text".
+- Where you cannot make out a word or phrase with certainty, write your best guess as
+  [unclear: guess]; where you cannot make it out at all, write [inaudible]. Use these markers
+  only where you are genuinely unsure, and lower that turn's confidence to match.`;
+
+// Template variables are filled in on lines of their own, so the sections lose their indentation
+const dedent = (text: string): string => text.replace(/^[ \t]+/gm, '').trim();
+
+const getSpeakerInstruction = (hints?: SpeakerHints): string => {
+  if (!hints || (!hints.expectedCount && hints.names.length === 0)) return '';
+  const lines: string[] = [];
+  if (hints.expectedCount) {
+    lines.push(`There are ${hints.expectedCount} speaker${hints.expectedCount === 1 ? '' : 's'} in this recording. Do not label more speakers than that.`);
+  }
+  if (hints.names.length > 0) {
+    lines.push(`The speakers include: ${hints.names.map(name => `"${name}"`).join(', ')}.`);
+    lines.push(`Use these names as speaker labels when it is clear who is speaking (introductions, being addressed by name);`);
+    lines.push(`otherwise fall back to 'Speaker 1', 'Speaker 2', etc.`);
+  }
+  return `
+    Speakers: ${lines.join('\n    ')}`;
+};
+
+export const getSystemInstruction = (
+  language: Language,
+  glossary?: Glossary,
+  speakerHints?: SpeakerHints,
+  style: TranscriptStyle = DEFAULT_STYLE
+): string => {
+  const task = renderStyleTemplate(style.template, {
+    language,
+    scriptRules: SCRIPT_RULES[language],
+    speakers: dedent(getSpeakerInstruction(speakerHints)),
+    glossary: dedent(buildGlossaryInstruction(glossary)),
+  });
+  return `${task}\n\n${OUTPUT_INSTRUCTION}`;
+};
+
+// Single-pass styles on recordings too long for one request: the task is carried out on the
+// stitched transcript instead of the audio
+export const getWriteUpInstruction = (
+  language: Language,
+  glossary: Glossary | undefined,
+  speakerHints: SpeakerHints | undefined,
+  style: TranscriptStyle
+): string => {
+  return `${getSystemInstruction(language, glossary, speakerHints, style)}
+
+Input:
+- Instead of the audio, you are given the recording's complete transcript as JSON of the form
+  {"segments": [{"start": 0, "end": 0, "speaker": "...", "text": "..."}]}, with times in seconds.
+- Carry out the task on the transcript, taking "start" and "end" from its times, and write one
+  result for the whole recording.`;
+};
+
+const TRANSLATION_TASKS: Record<TranslationMode, string> = {
+  'shahmukhi-to-roman': `
+    Transliterate Urdu and Siraiki text written in Shahmukhi (Arabic-based Nastaliq) script into Roman Urdu.
+    Do not translate: keep the same words, spelled in Latin letters the way people commonly write them
+    in messages (e.g. "aap kaise hain"). Keep Siraiki words Siraiki. Leave English words unchanged.`,
+  'roman-to-shahmukhi': `
+    Convert Urdu and Siraiki text written in Roman Urdu into Shahmukhi (Urdu script, Nastaliq style unicode).
+    Do not translate: keep the same words. Use Siraiki letters where the words are Siraiki.
+    English words that are clearly code-switching may stay in English script.`,
+  'urdu-to-english': `
+    Translate Urdu and Siraiki text into natural, fluent English suitable for a written report.
+    Keep names of people, places and organisations, and transliterate them into Latin letters.
+    Parts that are already in English stay as they are.`,
+  'english-to-urdu': `
+    Translate English text into natural Urdu written in Urdu script (Nastaliq style unicode).
+    Keep names of people, places and organisations. Parts that are already in Urdu or Siraiki stay as they are.`,
+};
+
+export const getTranslationInstruction = (mode: TranslationMode): string => {
+  return `
+    You convert transcript turns for a transcription tool.
+    Task:${TRANSLATION_TASKS[mode]}
+
+    The input is JSON of the form {"segments": [{"index": 0, "text": "..."}]}, one entry per speaker turn.
+    Return JSON of exactly the same form: one entry for every input entry, with the same "index"
+    and the converted "text". Never merge, split, skip or reorder entries, and do not add notes or explanations.`;
+};
+
+const INSIGHTS_OUTPUT_LANGUAGES: Record<InsightsLanguage, string> = {
+  English: 'English',
+  Urdu: 'Urdu, in Urdu script (Nastaliq style unicode)',
+  Siraiki: 'Siraiki, in Shahmukhi script (Nastaliq style unicode)',
+  'Roman Urdu': 'Roman Urdu (Urdu written in Latin letters, as commonly used in messages)',
+};
+
+const INSIGHTS_SHAPE = `{"title": "...", "summary": "...", "decisions": ["..."],
+     "actionItems": [{"task": "...", "owner": "...", "due": "..."}],
+     "topics": [{"title": "...", "notes": ["..."]}]}`;
+
+export const getInsightsInstruction = (language: InsightsLanguage, speakers: string[]): string => {
+  return `
+    You are an experienced meeting secretary. The input is JSON with the meeting's "speakers" and its
+    transcript "turns" ({"time", "speaker", "text"}). The transcript may mix Urdu, Siraiki and English.
+    Task:
+    1. Write a short "title" for the meeting and a "summary" of one or two paragraphs.
+    2. List the key "decisions" that were agreed, one sentence each. Only include real decisions.
+    3. List the "actionItems": each "task", its "owner" and the "due" date or time frame if one was mentioned.
+       The owner must be one of these speaker labels exactly: ${speakers.map(s => `"${s}"`).join(', ')}.
+       Use "" when nobody took the task on, and "" for "due" when no deadline was mentioned.
+    4. List the discussion "topics" in the order they came up, each with a "title" and a few bullet "notes",
+       for use in the minutes.
+    5. Write everything in ${INSIGHTS_OUTPUT_LANGUAGES[language]}, except speaker labels, which stay as given.
+    6. Do not invent anything that was not said.
+    Return JSON of the form ${INSIGHTS_SHAPE}`;
+};
+
+// Long meetings are processed in parts; this merges the per-part results
+export const getInsightsMergeInstruction = (language: InsightsLanguage, speakers: string[]): string => {
+  return `
+    You are an experienced meeting secretary. The input is JSON with the meeting's "speakers" and "parts":
+    notes taken on consecutive parts of one long meeting, each of the form ${INSIGHTS_SHAPE}
+    Task: combine them into notes for the whole meeting of the same form. Write one title and one summary
+    covering the whole meeting, remove duplicate decisions and action items, and keep topics in meeting order.
+    Owners must stay one of these speaker labels exactly, or "": ${speakers.map(s => `"${s}"`).join(', ')}.
+    Write everything in ${INSIGHTS_OUTPUT_LANGUAGES[language]}. Do not invent anything.
+    Return JSON of the form ${INSIGHTS_SHAPE}`;
+};
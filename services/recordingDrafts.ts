@@ -0,0 +1,71 @@
+import { Language, RecordingDraft } from "../types";
+import { STORES, withStore } from "./database";
+
+interface StoredChunk {
+  draftId: string;
+  index: number;
+  blob: Blob;
+}
+
+export const createDraftId = (): string =>
+  `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createDraft = async (id: string, mimeType: string, language: Language): Promise<RecordingDraft> => {
+  const now = new Date().toISOString();
+  const draft: RecordingDraft = {
+    id,
+    startedAt: now,
+    updatedAt: now,
+    mimeType,
+    language,
+    durationSeconds: 0,
+    chunkCount: 0,
+    sizeBytes: 0,
+  };
+  await withStore<IDBValidKey>(STORES.recordingDrafts, 'readwrite', store => store.put(draft));
+  return draft;
+};
+
+// Stores one timesliced MediaRecorder chunk and updates the draft's bookkeeping
+export const appendDraftChunk = async (draft: RecordingDraft, index: number, blob: Blob, durationSeconds: number): Promise<RecordingDraft> => {
+  await withStore<IDBValidKey>(STORES.recordingChunks, 'readwrite', store => store.add({ draftId: draft.id, index, blob } as StoredChunk));
+  const updated: RecordingDraft = {
+    ...draft,
+    updatedAt: new Date().toISOString(),
+    durationSeconds,
+    chunkCount: draft.chunkCount + 1,
+    sizeBytes: draft.sizeBytes + blob.size,
+  };
+  await withStore<IDBValidKey>(STORES.recordingDrafts, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const listDrafts = async (): Promise<RecordingDraft[]> => {
+  const drafts = await withStore<RecordingDraft[]>(STORES.recordingDrafts, 'readonly', store => store.getAll());
+  return drafts.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+// Reassembles the recording from its chunks, in recording order
+export const loadDraftBlob = async (draft: RecordingDraft): Promise<Blob> => {
+  const chunks = await withStore<StoredChunk[]>(STORES.recordingChunks, 'readonly', store =>
+    store.index('draftId').getAll(IDBKeyRange.only(draft.id))
+  );
+  chunks.sort((a, b) => a.index - b.index);
+  return new Blob(chunks.map(chunk => chunk.blob), { type: draft.mimeType });
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  await withStore<undefined>(STORES.recordingChunks, 'readwrite', store => {
+    const cursorRequest = store.index('draftId').openCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+  });
+  await withStore<undefined>(STORES.recordingDrafts, 'readwrite', store => {
+    store.delete(id);
+  });
+};
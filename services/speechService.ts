@@ -0,0 +1,191 @@
+import { generateSpeech, UsageCallback, VoiceOption } from "./transcriptionProvider";
+import { ApiError } from "./errors";
+import { throwIfCancelled } from "./apiRequest";
+import { chunkText } from "../utils/textUtils";
+import { createWavBlob } from "../utils/fileUtils";
+import { encodeOpusWebm, isOpusEncodingSupported } from "../utils/opusEncoder";
+import { segmentToLine } from "../utils/transcriptUtils";
+import { TranscriptionProgress, TranscriptionResult } from "../types";
+
+// Reads a transcript aloud: one voice for everything, or a voice per speaker so a
+// conversation sounds like one. Text is synthesized chunk by chunk and joined with pauses.
+
+export type SpeechVoiceMode = 'single' | 'dialogue';
+export type SpeechFormat = 'wav' | 'opus';
+
+export interface SpeechSettings {
+  voiceMode: SpeechVoiceMode;
+  pause: number; // seconds of silence between chunks and speaker turns
+  speed: number; // 1 is the voice's normal pace
+  style: string; // delivery directions passed to the provider
+  format: SpeechFormat;
+}
+
+export interface SpeechFormatOption {
+  id: SpeechFormat;
+  label: string;
+  mimeType: string;
+  extension: string;
+  isAvailable: () => boolean;
+}
+
+export const SPEECH_FORMATS: SpeechFormatOption[] = [
+  { id: 'wav', label: 'WAV (uncompressed)', mimeType: 'audio/wav', extension: 'wav', isAvailable: () => true },
+  { id: 'opus', label: 'Opus (WebM, compact)', mimeType: 'audio/webm', extension: 'webm', isAvailable: isOpusEncodingSupported },
+];
+
+export const SPEED_OPTIONS = [0.75, 0.9, 1, 1.1, 1.25, 1.5];
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceMode: 'single',
+  pause: 0.5,
+  speed: 1,
+  style: '',
+  format: 'wav',
+};
+
+const STORAGE_KEY = 'scribeflow.speechSettings';
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_SPEECH_SETTINGS };
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getSpeechExtension = (speech: Blob): string =>
+  SPEECH_FORMATS.find(format => format.mimeType === speech.type)?.extension || 'wav';
+
+// Keeps voices the user picked and gives every other speaker the provider's voices in turn
+export const assignSpeakerVoices = (
+  speakers: string[],
+  voices: VoiceOption[],
+  chosen: Record<string, string> = {}
+): Record<string, string> =>
+  Object.fromEntries(speakers.map((speaker, i) => [
+    speaker,
+    voices.some(voice => voice.id === chosen[speaker]) ? chosen[speaker] : voices[i % voices.length]?.id || '',
+  ]));
+
+export interface SynthesisOptions {
+  settings: SpeechSettings;
+  voice: string; // used for everything in single-voice mode, and for unassigned speakers
+  speakerVoices?: Record<string, string>;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+type ScriptItem =
+  | { kind: 'speech'; text: string; voice: string }
+  | { kind: 'pause'; seconds: number };
+
+// "[pause]" uses the configured pause; "[pause 2s]" and "[pause 500ms]" set their own length
+const PAUSE_MARKER = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]/gi;
+// Longer pauses are shortened to this; silence is held in memory as PCM until the end
+const MAX_PAUSE_SECONDS = 10;
+
+const splitOnPauses = (text: string, voice: string, defaultPause: number): ScriptItem[] => {
+  const items: ScriptItem[] = [];
+  let last = 0;
+  const addSpeech = (part: string) =>
+    chunkText(part).filter(chunk => chunk.trim()).forEach(chunk => items.push({ kind: 'speech', text: chunk, voice }));
+
+  for (const match of text.matchAll(PAUSE_MARKER)) {
+    addSpeech(text.slice(last, match.index));
+    const value = match[1] ? parseFloat(match[1]) : null;
+    const seconds = value === null ? defaultPause : match[2]?.toLowerCase() === 'ms' ? value / 1000 : value;
+    items.push({ kind: 'pause', seconds });
+    last = match.index! + match[0].length;
+  }
+  addSpeech(text.slice(last));
+  return items;
+};
+
+const buildScript = (transcript: TranscriptionResult, options: SynthesisOptions): ScriptItem[] => {
+  const { settings, voice, speakerVoices = {} } = options;
+  let items: ScriptItem[];
+
+  if (settings.voiceMode === 'single') {
+    const text = transcript.segments.map(segmentToLine).join('\n');
+    items = splitOnPauses(text, voice, settings.pause);
+  } else {
+    // Consecutive turns by the same speaker are read in one go
+    const turns: { speaker: string; text: string }[] = [];
+    for (const segment of transcript.segments) {
+      const previous = turns[turns.length - 1];
+      if (previous && previous.speaker === segment.speaker) previous.text += `\n${segment.text}`;
+      else turns.push({ speaker: segment.speaker, text: segment.text });
+    }
+    items = turns.flatMap(turn => splitOnPauses(turn.text, speakerVoices[turn.speaker] || voice, settings.pause));
+  }
+
+  // The default pause goes between any two chunks that have no explicit pause between them
+  return items.flatMap((item, i): ScriptItem[] => {
+    const previous = items[i - 1];
+    return item.kind === 'speech' && previous?.kind === 'speech'
+      ? [{ kind: 'pause', seconds: settings.pause }, item]
+      : [item];
+  });
+};
+
+const silence = (seconds: number, sampleRate: number): Uint8Array =>
+  new Uint8Array(Math.max(0, Math.round(Math.min(seconds, MAX_PAUSE_SECONDS) * sampleRate)) * 2);
+
+export const synthesizeTranscript = async (transcript: TranscriptionResult, options: SynthesisOptions): Promise<Blob> => {
+  const { settings, onProgress, signal, onUsage } = options;
+  const script = buildScript(transcript, options);
+  const totalChunks = script.filter(item => item.kind === 'speech').length;
+  if (totalChunks === 0) {
+    throw new ApiError('empty-response', "There is no text to read.");
+  }
+  onProgress?.({ completedChunks: 0, totalChunks });
+
+  // Chunks run one after another; TTS endpoints have tight rate limits.
+  // Pauses are rendered once the sample rate is known from the first chunk.
+  const parts: (Uint8Array | number)[] = [];
+  let sampleRate = 0;
+  let completedChunks = 0;
+  for (const item of script) {
+    if (item.kind === 'pause') {
+      parts.push(item.seconds);
+      continue;
+    }
+    throwIfCancelled(signal);
+    const speech = await generateSpeech(item.text, {
+      voiceName: item.voice,
+      speed: settings.speed,
+      style: settings.style,
+      signal,
+      onUsage,
+    });
+    sampleRate = sampleRate || speech.sampleRate;
+    parts.push(speech.pcm);
+    completedChunks++;
+    onProgress?.({ completedChunks, totalChunks });
+  }
+
+  const buffers = parts.map(part => (typeof part === 'number' ? silence(part, sampleRate) : part));
+  const pcm = new Uint8Array(buffers.reduce((sum, buffer) => sum + buffer.length, 0));
+  let offset = 0;
+  for (const buffer of buffers) {
+    pcm.set(buffer, offset);
+    offset += buffer.length;
+  }
+
+  const format = SPEECH_FORMATS.find(option => option.id === settings.format);
+  if (format?.id === 'opus' && format.isAvailable()) {
+    // The speech is already paid for, so if the encoder turns out not to handle it, save WAV instead
+    try {
+      return await encodeOpusWebm(pcm, sampleRate);
+    } catch (error) {
+      console.warn("Opus encoding failed, saving as WAV:", error);
+    }
+  }
+  return createWavBlob(pcm, sampleRate);
+};
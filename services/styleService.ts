@@ -0,0 +1,148 @@
+import { TranscriptStyle } from "../types";
+
+// Transcription styles. Built-in styles ship with the app; user templates are kept in localStorage.
+// A style's template is the task part of the transcription prompt. The response format is added
+// after it by getSystemInstruction, so a template cannot break parsing.
+// Single-pass styles need the whole recording at once: long recordings and live previews are
+// transcribed with the standard style, and a long recording is then written up from its transcript.
+
+const STORAGE_KEY = 'scribeflow.styles';
+
+export const DEFAULT_STYLE_ID = 'standard';
+
+export const STYLE_VARIABLES = [
+  { name: 'language', description: "Language chosen in the recorder, e.g. Urdu" },
+  { name: 'scriptRules', description: "Which script to write each language in" },
+  { name: 'speakers', description: "Expected number of speakers and their names, if given" },
+  { name: 'glossary', description: "Terms from the chosen glossary, if any" },
+] as const;
+
+export type StyleVariable = typeof STYLE_VARIABLES[number]['name'];
+
+const lines = (...text: string[]): string => text.join('\n');
+
+export const BUILT_IN_STYLES: TranscriptStyle[] = [
+  {
+    id: DEFAULT_STYLE_ID,
+    name: 'Standard',
+    description: "Readable script of what was said",
+    builtIn: true,
+    template: lines(
+      "You are a professional transcriber.",
+      "Task:",
+      "1. Transcribe the audio exactly as spoken.",
+      "2. Format the output as a clean, readable script.",
+      "3. If there are multiple speakers, try to distinguish them as 'Speaker 1', 'Speaker 2', etc.",
+      "4. {{scriptRules}}",
+      "{{speakers}}",
+      "{{glossary}}",
+    ),
+  },
+  {
+    id: 'clean-read',
+    name: 'Clean read',
+    description: "Lightly edited for publication: no fillers or false starts",
+    builtIn: true,
+    template: lines(
+      "You are a transcriber preparing a clean-read transcript for journalists to quote from.",
+      "Task:",
+      "1. Transcribe what each speaker says, leaving out filler sounds and words used only as fillers",
+      "   (um, uh, er, \"you know\", \"yaani\"), false starts, stutters and accidental repetitions.",
+      "2. Fix obvious slips of grammar, but keep the speaker's own words, meaning and order. Never summarise.",
+      "3. Use normal sentence punctuation.",
+      "4. If there are multiple speakers, distinguish them as 'Speaker 1', 'Speaker 2', etc.",
+      "5. {{scriptRules}}",
+      "{{speakers}}",
+      "{{glossary}}",
+    ),
+  },
+  {
+    id: 'verbatim',
+    name: 'Strict verbatim (legal)',
+    description: "Every word, filler, false start and overlap, with [inaudible] tags",
+    builtIn: true,
+    template: lines(
+      "You are a transcriber producing a strict verbatim transcript for legal proceedings.",
+      "Task:",
+      "1. Transcribe every word exactly as spoken, including filler words (um, uh, er), false starts,",
+      "   stutters, repetitions and self-corrections. Mark a cut-off word or sentence with a dash,",
+      "   e.g. \"I went to the- to the office\".",
+      "2. Do not correct grammar, tidy sentences, paraphrase or translate.",
+      "3. Start a new turn at every change of speaker. Where speakers talk over each other, begin the",
+      "   interrupting turn where it starts and put [overlapping] at the start of its text.",
+      "4. Mark non-speech events in square brackets, e.g. [laughter], [pause], [crosstalk], [phone rings].",
+      "5. Never leave out speech you cannot make out; tag it [inaudible] in place.",
+      "6. Label speakers 'Speaker 1', 'Speaker 2', etc., consistently throughout.",
+      "7. {{scriptRules}}",
+      "{{speakers}}",
+      "{{glossary}}",
+    ),
+  },
+  {
+    id: 'soap-note',
+    name: 'Clinical SOAP note',
+    description: "A consultation written up as Subjective, Objective, Assessment and Plan",
+    builtIn: true,
+    singlePass: true,
+    template: lines(
+      "You are a medical scribe writing up a recorded clinical consultation, spoken in {{language}}, as a SOAP note.",
+      "Task:",
+      "1. Return four entries, in this order, with the section name as the speaker label:",
+      "   'Subjective', 'Objective', 'Assessment' and 'Plan'.",
+      "2. Subjective: the presenting complaint, history and symptoms as the patient describes them.",
+      "   Objective: examination findings, vital signs and test results mentioned.",
+      "   Assessment: the clinician's diagnosis or differential diagnosis.",
+      "   Plan: treatment, medication with dose and frequency, investigations, referrals and follow-up.",
+      "3. Write concise clinical English. Use standard medical terms and abbreviations, and write doses",
+      "   and measurements with numerals and units, e.g. \"500 mg twice daily\", \"BP 130/85\".",
+      "4. Include only what was said in the consultation. Never add findings, diagnoses or advice that were",
+      "   not discussed; if a section was not covered, write \"Not discussed.\"",
+      "5. Give each entry the start and end of the part of the consultation it mostly draws on.",
+      "{{glossary}}",
+    ),
+  },
+];
+
+export const DEFAULT_STYLE = BUILT_IN_STYLES[0];
+
+const createId = (): string =>
+  `style-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// A new user style, starting from a copy of another style's template
+export const createStyle = (name: string, from: TranscriptStyle = DEFAULT_STYLE): TranscriptStyle => ({
+  id: createId(),
+  name,
+  description: from.description,
+  template: from.template,
+  ...(from.singlePass ? { singlePass: true } : {}),
+});
+
+export const loadUserStyles = (): TranscriptStyle[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserStyles = (styles: TranscriptStyle[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(styles.filter(style => !style.builtIn)));
+};
+
+export const loadStyles = (): TranscriptStyle[] => [...BUILT_IN_STYLES, ...loadUserStyles()];
+
+// Falls back to the standard style, e.g. for sessions whose user style has since been deleted
+export const getStyle = (id: string | undefined): TranscriptStyle =>
+  (id && loadStyles().find(style => style.id === id)) || DEFAULT_STYLE;
+
+// Style for transcribing part of a recording: a chunk of a long one, or a live pass
+export const getPartStyle = (style: TranscriptStyle | undefined): TranscriptStyle | undefined =>
+  style?.singlePass ? DEFAULT_STYLE : style;
+
+// Unknown {{names}} are left as they are, so a typo shows up in the prompt preview
+export const renderStyleTemplate = (template: string, values: Record<StyleVariable, string>): string =>
+  template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in values ? values[name as StyleVariable] : match))
+    .replace(/\n\s*\n(\s*\n)+/g, '\n\n')
+    .trim();
@@ -0,0 +1,207 @@
+import { TranscriptionResult } from "../types";
+import { containsArabicScript } from "../utils/scriptUtils";
+import { Exporter } from "./exportService";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  includeSpeakers: boolean;
+}
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  speaker: string;
+  lines: string[];
+  rtl: boolean;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  includeSpeakers: false,
+};
+
+export const SUBTITLE_FORMATS: { id: SubtitleFormat; label: string; mimeType: string }[] = [
+  { id: 'srt', label: 'SubRip (.srt)', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT (.vtt)', mimeType: 'text/vtt' },
+  { id: 'ass', label: 'Advanced SubStation (.ass)', mimeType: 'text/x-ssa' },
+];
+
+const RLM = '\u200F';
+const MIN_CUE_SECONDS = 0.8;
+
+// Greedy word wrap; words longer than a line are kept whole rather than broken mid-word
+const wrapWords = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Splits each segment into cues of at most `maxLinesPerCue` lines, sharing its time range by text length
+export const buildCues = (transcript: TranscriptionResult, options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of transcript.segments) {
+    const lines = wrapWords(segment.text, options.maxCharsPerLine);
+    if (lines.length === 0) continue;
+
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += options.maxLinesPerCue) {
+      groups.push(lines.slice(i, i + options.maxLinesPerCue));
+    }
+
+    const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+    const duration = Math.max(segment.end - segment.start, MIN_CUE_SECONDS * groups.length);
+    let cursor = segment.start;
+
+    for (const group of groups) {
+      const chars = group.reduce((sum, line) => sum + line.length, 0);
+      const length = duration * (chars / totalChars);
+      cues.push({
+        start: cursor,
+        end: cursor + length,
+        speaker: segment.speaker,
+        lines: group,
+        rtl: containsArabicScript(group.join(' ')),
+      });
+      cursor += length;
+    }
+  }
+
+  // Stretched cues must not run into the next one. A cue is cut back to the next cue's start, but
+  // not below the minimum; the next cue then moves later, which spaces out untimed transcripts.
+  for (let i = 1; i < cues.length; i++) {
+    const prev = cues[i - 1];
+    const cue = cues[i];
+    if (prev.end <= cue.start) continue;
+    prev.end = Math.max(cue.start, prev.start + MIN_CUE_SECONDS);
+    if (cue.start < prev.end) {
+      const shift = prev.end - cue.start;
+      cue.start += shift;
+      cue.end += shift;
+    }
+  }
+
+  return cues;
+};
+
+// Marks each line with RLM so players pick right-to-left paragraph direction and keep
+// trailing punctuation on the correct side of mixed Urdu/English lines
+const directionalLines = (cue: SubtitleCue, prefix: string = ''): string[] => {
+  const lines = cue.lines.map((line, index) => index === 0 ? `${prefix}${line}` : line);
+  return cue.rtl ? lines.map(line => `${RLM}${line}${RLM}`) : lines;
+};
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3600000),
+    minutes: Math.floor((totalMs % 3600000) / 60000),
+    seconds: Math.floor((totalMs % 60000) / 1000),
+    millis: totalMs % 1000,
+  };
+};
+
+const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+const formatClock = (seconds: number, separator: string) => {
+  const t = splitTime(seconds);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}${separator}${pad(t.millis, 3)}`;
+};
+
+// ASS uses H:MM:SS.cc (centiseconds)
+const formatAssTime = (seconds: number) => {
+  const t = splitTime(seconds);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(Math.floor(t.millis / 10))}`;
+};
+
+const speakerPrefix = (cue: SubtitleCue, options: SubtitleOptions) =>
+  options.includeSpeakers ? `${cue.speaker}: ` : '';
+
+export const toSrt = (cues: SubtitleCue[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): string => {
+  return cues.map((cue, index) => {
+    const lines = directionalLines(cue, speakerPrefix(cue, options));
+    return `${index + 1}\n${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}\n${lines.join('\n')}\n`;
+  }).join('\n');
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toVtt = (cues: SubtitleCue[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): string => {
+  const body = cues.map(cue => {
+    const lines = directionalLines(cue).map(escapeVtt);
+    // WebVTT voice spans carry the speaker without showing it as text
+    if (options.includeSpeakers) lines[0] = `<v ${escapeVtt(cue.speaker)}>${lines[0]}`;
+    return `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}\n${lines.join('\n')}\n`;
+  });
+  return `WEBVTT\n\n${body.join('\n')}`;
+};
+
+const ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+WrapStyle: 2
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1
+Style: Urdu,Noto Nastaliq Urdu,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,178
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+
+export const toAss = (cues: SubtitleCue[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): string => {
+  const events = cues.map(cue => {
+    // Commas are allowed in the final Text field; newlines become \N hard breaks. Braces would start an
+    // override block, and a backslash is kept from forming \N, \n or \h by a word joiner after it.
+    const lines = directionalLines(cue, speakerPrefix(cue, options)).map(line => line.replace(/[{}]/g, '').replace(/\\/g, '\\\u2060'));
+    const text = lines.join('\\N');
+    const style = cue.rtl ? 'Urdu' : 'Default';
+    const name = cue.speaker.replace(/,/g, ' ');
+    return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},${style},${name},0,0,0,,${text}`;
+  });
+  return `${ASS_HEADER}${events.join('\n')}\n`;
+};
+
+export const generateSubtitles = (
+  transcript: TranscriptionResult,
+  format: SubtitleFormat,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): string => {
+  const cues = buildCues(transcript, options);
+  switch (format) {
+    case 'vtt':
+      return toVtt(cues, options);
+    case 'ass':
+      return toAss(cues, options);
+    case 'srt':
+    default:
+      return toSrt(cues, options);
+  }
+};
+
+export const subtitleExporters: Exporter[] = SUBTITLE_FORMATS.map(format => ({
+  id: format.id,
+  label: format.label,
+  extension: format.id,
+  category: 'subtitle',
+  export: async (transcript, options) => {
+    const content = generateSubtitles(transcript, format.id, options.subtitles);
+    return new Blob([content], { type: `${format.mimeType};charset=utf-8` });
+  },
+}));
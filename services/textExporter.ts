@@ -0,0 +1,22 @@
+import { TranscriptionResult } from "../types";
+import { formatTimestamp } from "../utils/transcriptUtils";
+import { Exporter } from "./exportService";
+
+const UTF8_BOM = '﻿';
+
+export const generatePlainText = (transcript: TranscriptionResult): string => {
+  return transcript.segments
+    .map(segment => `[${formatTimestamp(segment.start)}] ${segment.speaker}: ${segment.text}`)
+    .join('\r\n');
+};
+
+export const textExporter: Exporter = {
+  id: 'txt',
+  label: 'Plain Text (.txt)',
+  extension: 'txt',
+  category: 'document',
+  export: async (transcript, options) => {
+    const content = `${options.textBom ? UTF8_BOM : ''}${generatePlainText(transcript)}\r\n`;
+    return new Blob([content], { type: 'text/plain;charset=utf-8' });
+  },
+};
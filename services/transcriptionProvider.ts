@@ -0,0 +1,147 @@
+import { Glossary, Language, SpeakerHints, TranscriptionResult, TranscriptStyle } from "../types";
+import { createGeminiProvider, geminiProvider } from "./geminiService";
+import { createGeminiProxyTransport } from "./geminiProxy";
+import { mockProvider } from "./mockService";
+import { createOpenAiProvider } from "./openaiService";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+// What one request consumed, as reported by the provider (or counted locally where it reports nothing)
+export interface ProviderUsage {
+  model: string;
+  inputTokens?: number; // text prompt tokens
+  audioTokens?: number; // audio input tokens, priced separately by Gemini
+  outputTokens?: number;
+  audioSeconds?: number; // audio sent for transcription
+  characters?: number; // text sent for speech synthesis
+  estimated?: boolean;
+}
+
+export type UsageCallback = (usage: ProviderUsage) => void;
+
+export interface TranscriptionOptions {
+  language: Language;
+  glossary?: Glossary; // terms and spellings to steer the model towards
+  speakerHints?: SpeakerHints;
+  style?: TranscriptStyle; // how the transcript is written; providers without a prompt ignore it
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+export interface SpeechOptions {
+  voiceName?: string;
+  speed?: number; // 1 is the voice's normal pace
+  style?: string; // delivery directions, e.g. "calm, like a news reader"
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+// A text-only request, used for translation and other work on finished transcripts
+export interface TextGenerationRequest {
+  instruction: string; // what to do, sent as the system prompt
+  input: string; // the material to work on
+  json?: boolean; // ask for a JSON object instead of free text
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+export interface SynthesizedSpeech {
+  pcm: Uint8Array; // 16-bit little-endian mono PCM
+  sampleRate: number;
+}
+
+export interface TranscriptionProvider {
+  id: ProviderId;
+  name: string;
+  voices: VoiceOption[];
+  transcribe: (audio: Blob, mimeType: string, options: TranscriptionOptions) => Promise<TranscriptionResult>;
+  synthesize: (text: string, options: SpeechOptions) => Promise<SynthesizedSpeech>;
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  geminiProxyUrl: string; // when set, Gemini is reached through the proxy server instead of directly
+  geminiProxyToken: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiTranscriptionModel: string;
+  openaiSpeechModel: string;
+  openaiChatModel: string;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; name: string }[] = [
+  { id: 'gemini', name: 'Google Gemini' },
+  { id: 'openai', name: 'OpenAI-compatible (Whisper)' },
+  { id: 'mock', name: 'Offline Mock' },
+];
+
+const SETTINGS_STORAGE_KEY = 'scribeflow.providerSettings';
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_OPTIONS.some(option => option.id === value);
+
+// Build-time defaults, injected by vite.config.ts from the environment. The OpenAI key is never
+// baked into the bundle; it is entered in the provider settings and kept in this browser only.
+const DEFAULT_SETTINGS: ProviderSettings = {
+  providerId: isProviderId(process.env.TRANSCRIPTION_PROVIDER) ? process.env.TRANSCRIPTION_PROVIDER : 'gemini',
+  geminiProxyUrl: process.env.GEMINI_PROXY_URL || '',
+  geminiProxyToken: '',
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  openaiApiKey: '',
+  openaiTranscriptionModel: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1',
+  openaiSpeechModel: process.env.OPENAI_SPEECH_MODEL || 'tts-1',
+  openaiChatModel: process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    const settings = { ...DEFAULT_SETTINGS, ...stored };
+    if (!isProviderId(settings.providerId)) settings.providerId = DEFAULT_SETTINGS.providerId;
+    return settings;
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getProvider = (settings: ProviderSettings = loadProviderSettings()): TranscriptionProvider => {
+  switch (settings.providerId) {
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: settings.openaiBaseUrl,
+        apiKey: settings.openaiApiKey,
+        transcriptionModel: settings.openaiTranscriptionModel,
+        speechModel: settings.openaiSpeechModel,
+        chatModel: settings.openaiChatModel,
+      });
+    case 'mock':
+      return mockProvider;
+    case 'gemini':
+    default:
+      return settings.geminiProxyUrl
+        ? createGeminiProvider(createGeminiProxyTransport({ baseUrl: settings.geminiProxyUrl, token: settings.geminiProxyToken }))
+        : geminiProvider;
+  }
+};
+
+export const transcribeAudio = (audio: Blob, mimeType: string, options: TranscriptionOptions): Promise<TranscriptionResult> => {
+  return getProvider().transcribe(audio, mimeType, options);
+};
+
+export const generateSpeech = (text: string, options: SpeechOptions = {}): Promise<SynthesizedSpeech> => {
+  return getProvider().synthesize(text, options);
+};
+
+export const generateText = (request: TextGenerationRequest): Promise<string> => {
+  return getProvider().generateText(request);
+};
@@ -0,0 +1,144 @@
+import { generateText, UsageCallback } from "./transcriptionProvider";
+import { getTranslationInstruction } from "./prompts";
+import { ApiError } from "./errors";
+import { throwIfCancelled } from "./apiRequest";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { extractJsonPayload, isRecord } from "../utils/transcriptUtils";
+import { TranscriptSegment, TranscriptionProgress, TranscriptionResult, TranslationMode } from "../types";
+
+// Segment-aligned translation and transliteration of finished transcripts.
+// Each turn's converted text is stored on the segment itself, so it follows the turn through edits.
+
+export interface TranslationModeInfo {
+  id: TranslationMode;
+  label: string;
+  targetLabel: string; // column heading for the converted text
+  targetRtl: boolean;
+}
+
+export const TRANSLATION_MODES: TranslationModeInfo[] = [
+  { id: 'shahmukhi-to-roman', label: 'Shahmukhi → Roman Urdu', targetLabel: 'Roman Urdu', targetRtl: false },
+  { id: 'roman-to-shahmukhi', label: 'Roman Urdu → Shahmukhi', targetLabel: 'Shahmukhi', targetRtl: true },
+  { id: 'urdu-to-english', label: 'Urdu/Siraiki → English', targetLabel: 'English', targetRtl: false },
+  { id: 'english-to-urdu', label: 'English → Urdu', targetLabel: 'Urdu', targetRtl: true },
+];
+
+export const getTranslationMode = (id: TranslationMode): TranslationModeInfo => {
+  const mode = TRANSLATION_MODES.find(m => m.id === id);
+  if (!mode) throw new Error(`Unknown translation mode: ${id}`);
+  return mode;
+};
+
+// Keeps requests small enough that the model returns every entry
+const MAX_BATCH_CHARS = 4000;
+const MAX_BATCH_SEGMENTS = 40;
+const MAX_CONCURRENT_BATCHES = 2;
+
+export interface TranslationOptions {
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+  onUsage?: UsageCallback;
+}
+
+interface IndexedText {
+  index: number;
+  text: string;
+}
+
+const planBatches = (items: IndexedText[]): IndexedText[][] => {
+  const batches: IndexedText[][] = [];
+  let current: IndexedText[] = [];
+  let chars = 0;
+
+  for (const item of items) {
+    if (current.length > 0 && (chars + item.text.length > MAX_BATCH_CHARS || current.length >= MAX_BATCH_SEGMENTS)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(item);
+    chars += item.text.length;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+};
+
+const parseBatchResponse = (raw: string, batch: IndexedText[]): Map<number, string> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonPayload(raw));
+  } catch {
+    throw new ApiError('empty-response', "The translation response was not valid JSON.");
+  }
+
+  const items: unknown = Array.isArray(data) ? data : isRecord(data) ? data.segments : undefined;
+  const texts = new Map<number, string>();
+  if (Array.isArray(items)) {
+    for (const item of items) {
+      if (isRecord(item) && typeof item.index === 'number' && typeof item.text === 'string') texts.set(item.index, item.text.trim());
+    }
+  }
+
+  if (batch.some(item => !texts.has(item.index))) {
+    throw new ApiError('empty-response', "The translation skipped some turns.");
+  }
+  return texts;
+};
+
+/**
+ * Fills in `translation` for every segment that lacks one in `mode`. Switching modes
+ * translates the whole transcript again; re-running the same mode only picks up turns
+ * that were added or edited since.
+ */
+export const translateTranscript = async (
+  transcript: TranscriptionResult,
+  mode: TranslationMode,
+  options: TranslationOptions = {}
+): Promise<TranscriptionResult> => {
+  const { onProgress, signal, onUsage } = options;
+  const sameMode = transcript.translationMode === mode;
+
+  const pending: IndexedText[] = transcript.segments
+    .map((segment, index) => ({ index, text: segment.text, done: sameMode && segment.translation !== undefined }))
+    .filter(item => !item.done && item.text.trim())
+    .map(({ index, text }) => ({ index, text }));
+
+  const batches = planBatches(pending);
+  let completed = 0;
+  onProgress?.({ completedChunks: 0, totalChunks: batches.length });
+
+  const results = await mapWithConcurrency(batches, MAX_CONCURRENT_BATCHES, async batch => {
+    throwIfCancelled(signal);
+    const raw = await generateText({
+      instruction: getTranslationInstruction(mode),
+      input: JSON.stringify({ segments: batch }),
+      json: true,
+      signal,
+      onUsage,
+    });
+    const texts = parseBatchResponse(raw, batch);
+    completed++;
+    onProgress?.({ completedChunks: completed, totalChunks: batches.length });
+    return texts;
+  });
+
+  const translated = new Map<number, string>();
+  results.forEach(texts => texts.forEach((text, index) => translated.set(index, text)));
+
+  const segments: TranscriptSegment[] = transcript.segments.map((segment, index) => {
+    if (translated.has(index)) return { ...segment, translation: translated.get(index) };
+    if (sameMode && segment.translation !== undefined) return segment;
+    return { ...segment, translation: '' }; // nothing to translate
+  });
+
+  return { ...transcript, segments, translationMode: mode };
+};
+
+// Drops the translation column again
+export const removeTranslation = (transcript: TranscriptionResult): TranscriptionResult => {
+  const { translationMode, ...rest } = transcript;
+  return {
+    ...rest,
+    segments: transcript.segments.map(({ translation, ...segment }) => segment),
+  };
+};
@@ -0,0 +1,376 @@
+import { GEMINI_MODELS } from "./geminiModels";
+import { loadProviderSettings, ProviderId, ProviderUsage } from "./transcriptionProvider";
+import { STORES, withStore } from "./database";
+import { getMediaDuration } from "../utils/audioUtils";
+
+// Usage and cost accounting. Every billed request is logged locally (in IndexedDB, as live mode alone
+// adds hundreds of records an hour) with what it consumed; costs are worked out from the price table
+// when read, so correcting a price re-prices past usage.
+
+export type UsageOperation = 'transcription' | 'live' | 'speech' | 'translation' | 'insights';
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  transcription: 'Transcription',
+  live: 'Live preview',
+  speech: 'Text to speech',
+  translation: 'Translation',
+  insights: 'Summary',
+};
+
+export interface UsageRecord extends ProviderUsage {
+  id: string;
+  time: string; // ISO timestamp
+  provider: ProviderId;
+  operation: UsageOperation;
+  sessionId: string | null;
+}
+
+// US dollars. Models are matched by name, ignoring case; unlisted models count as free.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number; // text input tokens
+  audioInputPerMillion: number; // audio input tokens
+  outputPerMillion: number;
+  perAudioMinute: number; // models billed by duration, like Whisper
+  perMillionCharacters: number; // speech models billed by characters
+}
+
+// Records are read for one month (the dashboard) or one session (its usage tab)
+export type UsageQuery = { month: string } | { sessionId: string };
+
+export interface UsageSettings {
+  monthlyBudget: number; // 0 for none
+  jobWarning: number; // ask before single jobs estimated above this; 0 to never ask
+  prices: ModelPrice[];
+}
+
+export interface UsageSummary {
+  cost: number;
+  requests: number;
+  audioSeconds: number;
+  inputTokens: number; // text and audio
+  outputTokens: number;
+  characters: number;
+  estimated: boolean; // some of the counts were not reported by the provider
+  unpricedModels: string[];
+}
+
+const price = (model: string, prices: Partial<ModelPrice>): ModelPrice => ({
+  model,
+  inputPerMillion: 0,
+  audioInputPerMillion: 0,
+  outputPerMillion: 0,
+  perAudioMinute: 0,
+  perMillionCharacters: 0,
+  ...prices,
+});
+
+// List prices when this was written; check the providers' pricing pages
+export const DEFAULT_PRICES: ModelPrice[] = [
+  price('gemini-2.5-flash', { inputPerMillion: 0.3, audioInputPerMillion: 1, outputPerMillion: 2.5 }),
+  price('gemini-2.5-flash-preview-tts', { inputPerMillion: 0.5, outputPerMillion: 10 }),
+  price('whisper-1', { perAudioMinute: 0.006 }),
+  price('gpt-4o-transcribe', { inputPerMillion: 2.5, audioInputPerMillion: 6, outputPerMillion: 10 }),
+  price('gpt-4o-mini-transcribe', { inputPerMillion: 1.25, audioInputPerMillion: 3, outputPerMillion: 5 }),
+  price('tts-1', { perMillionCharacters: 15 }),
+  price('tts-1-hd', { perMillionCharacters: 30 }),
+  price('gpt-4o-mini', { inputPerMillion: 0.15, outputPerMillion: 0.6 }),
+  price('mock', {}), // the offline provider
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  monthlyBudget: 0,
+  jobWarning: 1,
+  prices: DEFAULT_PRICES,
+};
+
+export const createModelPrice = (model: string = ''): ModelPrice => price(model, {});
+
+const SETTINGS_STORAGE_KEY = 'scribeflow.usageSettings';
+// Where the log was kept before it moved to IndexedDB
+const LEGACY_LOG_STORAGE_KEY = 'scribeflow.usageLog';
+// A year of history, plus the month it started in
+const RETENTION_DAYS = 400;
+
+// Gemini counts 32 tokens per second of audio; used when only the duration is known
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    return { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_USAGE_SETTINGS };
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  notify();
+};
+
+// The usage views re-render when usage is recorded or prices change
+const listeners = new Set<() => void>();
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Once per page load: bring over a log kept in localStorage, and drop records past retention
+let storeReady: Promise<void> | null = null;
+
+const prepareStore = (): Promise<void> => {
+  if (!storeReady) {
+    storeReady = (async () => {
+      let legacy: UsageRecord[] = [];
+      try {
+        const stored = JSON.parse(localStorage.getItem(LEGACY_LOG_STORAGE_KEY) || '[]');
+        legacy = Array.isArray(stored) ? stored : [];
+      } catch {
+        // An unreadable old log is dropped
+      }
+      const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      await withStore(STORES.usage, 'readwrite', store => {
+        legacy.forEach(record => store.put(record));
+        const cursorRequest = store.index('time').openCursor(IDBKeyRange.upperBound(cutoff, true));
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          cursor.delete();
+          cursor.continue();
+        };
+      });
+      localStorage.removeItem(LEGACY_LOG_STORAGE_KEY);
+    })().catch(error => console.warn("Could not prepare the usage log:", error));
+  }
+  return storeReady;
+};
+
+const withUsageStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  await prepareStore();
+  return withStore(STORES.usage, mode, fn);
+};
+
+// Start and end of a "2025-03" month in local time, as ISO timestamps to compare record times with
+const getMonthRange = (month: string): IDBKeyRange => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return IDBKeyRange.bound(
+    new Date(year, monthIndex - 1, 1).toISOString(),
+    new Date(year, monthIndex, 1).toISOString(),
+    false,
+    true
+  );
+};
+
+export const loadUsageRecords = async (query: UsageQuery): Promise<UsageRecord[]> => {
+  try {
+    return await withUsageStore<UsageRecord[]>('readonly', store => ('sessionId' in query
+      ? store.index('sessionId').getAll(query.sessionId)
+      : store.index('time').getAll(getMonthRange(query.month))));
+  } catch (error) {
+    console.warn("Could not read usage records:", error);
+    return [];
+  }
+};
+
+const createUsageId = (): string =>
+  `usage-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const recordUsage = (usage: ProviderUsage, operation: UsageOperation, sessionId: string | null = null): UsageRecord => {
+  const record: UsageRecord = {
+    ...usage,
+    id: createUsageId(),
+    time: new Date().toISOString(),
+    provider: loadProviderSettings().providerId,
+    operation,
+    sessionId,
+  };
+  withUsageStore('readwrite', store => { store.put(record); })
+    .then(notify)
+    // A failed write must not break the request that was just paid for
+    .catch(error => console.warn("Could not save usage record:", error));
+  return record;
+};
+
+// Usage from work done before its session is saved (a new recording, a batch file) is
+// recorded straight away and attached to the session once it exists
+export const assignUsageToSession = (ids: string[], sessionId: string): void => {
+  if (ids.length === 0) return;
+  withUsageStore('readwrite', store => {
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, sessionId });
+      };
+    });
+  })
+    .then(notify)
+    .catch(error => console.warn("Could not assign usage to session:", error));
+};
+
+export interface UsageTracker {
+  onUsage: (usage: ProviderUsage) => void;
+  ids: string[];
+  assignTo: (sessionId: string) => void;
+}
+
+export const trackUsage = (operation: UsageOperation, sessionId: string | null = null): UsageTracker => {
+  const ids: string[] = [];
+  return {
+    onUsage: usage => { ids.push(recordUsage(usage, operation, sessionId).id); },
+    ids,
+    assignTo: id => assignUsageToSession(ids, id),
+  };
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  await withUsageStore('readwrite', store => store.clear());
+  notify();
+};
+
+const findPrice = (model: string, prices: ModelPrice[]): ModelPrice | undefined =>
+  prices.find(p => p.model.trim().toLowerCase() === model.toLowerCase());
+
+export const getUsageCost = (usage: ProviderUsage, prices: ModelPrice[]): number => {
+  const p = findPrice(usage.model, prices);
+  if (!p) return 0;
+  const audioTokens = usage.audioTokens ?? (p.audioInputPerMillion ? (usage.audioSeconds || 0) * AUDIO_TOKENS_PER_SECOND : 0);
+  return (
+    (usage.inputTokens || 0) * p.inputPerMillion +
+    audioTokens * p.audioInputPerMillion +
+    (usage.outputTokens || 0) * p.outputPerMillion +
+    (usage.characters || 0) * p.perMillionCharacters
+  ) / 1_000_000 + ((usage.audioSeconds || 0) / 60) * p.perAudioMinute;
+};
+
+export const summarizeUsage = (records: ProviderUsage[], prices: ModelPrice[]): UsageSummary => {
+  const unpriced = new Set<string>();
+  const summary: UsageSummary = {
+    cost: 0, requests: 0, audioSeconds: 0, inputTokens: 0, outputTokens: 0, characters: 0, estimated: false, unpricedModels: [],
+  };
+  for (const record of records) {
+    summary.cost += getUsageCost(record, prices);
+    summary.requests++;
+    summary.audioSeconds += record.audioSeconds || 0;
+    summary.inputTokens += (record.inputTokens || 0) + (record.audioTokens || 0);
+    summary.outputTokens += record.outputTokens || 0;
+    summary.characters += record.characters || 0;
+    summary.estimated ||= Boolean(record.estimated);
+    if (!findPrice(record.model, prices)) unpriced.add(record.model);
+  }
+  summary.unpricedModels = Array.from(unpriced);
+  return summary;
+};
+
+// Breakdown rows, most expensive first
+export const summarizeBy = <T extends ProviderUsage>(
+  records: T[],
+  prices: ModelPrice[],
+  keyOf: (record: T) => string
+): { key: string; summary: UsageSummary }[] => {
+  const groups = new Map<string, T[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) || []), record]);
+  }
+  return Array.from(groups, ([key, group]) => ({ key, summary: summarizeUsage(group, prices) }))
+    .sort((a, b) => b.summary.cost - a.summary.cost || b.summary.requests - a.summary.requests);
+};
+
+// "2025-03", in local time
+export const getMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const formatCost = (amount: number): string => {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+};
+
+export const formatCount = (count: number): string => {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 10_000) return `${Math.round(count / 1000)}k`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+  return String(Math.round(count));
+};
+
+// Rough sizes for predicting what a job will cost before it runs
+const PROMPT_TOKENS = 1000; // system instruction, per request
+const TRANSCRIPT_TOKENS_PER_SECOND = 8; // timestamped JSON output
+const TRANSCRIPTION_REQUEST_SECONDS = 300; // long audio is split into requests this long
+const CHARACTERS_PER_TOKEN = 4;
+const SPOKEN_CHARACTERS_PER_SECOND = 15;
+const SPEECH_TOKENS_PER_SECOND = 25; // Gemini's audio output
+const RECORDING_BYTES_PER_SECOND = 16000; // 128 kbps, for files without a duration in their header
+
+type ModelKind = keyof typeof GEMINI_MODELS;
+
+const currentModel = (kind: ModelKind): string => {
+  const settings = loadProviderSettings();
+  switch (settings.providerId) {
+    case 'openai':
+      return {
+        transcription: settings.openaiTranscriptionModel,
+        speech: settings.openaiSpeechModel,
+        text: settings.openaiChatModel,
+      }[kind];
+    case 'mock':
+      return 'mock';
+    case 'gemini':
+    default:
+      return GEMINI_MODELS[kind];
+  }
+};
+
+export const estimateAudioSeconds = async (audio: Blob): Promise<number> =>
+  (await getMediaDuration(audio)) ?? audio.size / RECORDING_BYTES_PER_SECOND;
+
+export const estimateTranscriptionUsage = (audioSeconds: number): ProviderUsage => ({
+  model: currentModel('transcription'),
+  inputTokens: Math.ceil(audioSeconds / TRANSCRIPTION_REQUEST_SECONDS) * PROMPT_TOKENS,
+  outputTokens: Math.ceil(audioSeconds * TRANSCRIPT_TOKENS_PER_SECOND),
+  audioSeconds,
+  estimated: true,
+});
+
+export const estimateSpeechUsage = (characters: number): ProviderUsage => ({
+  model: currentModel('speech'),
+  inputTokens: Math.ceil(characters / CHARACTERS_PER_TOKEN),
+  outputTokens: Math.ceil((characters / SPOKEN_CHARACTERS_PER_SECOND) * SPEECH_TOKENS_PER_SECOND),
+  characters,
+  estimated: true,
+});
+
+export const estimateTextUsage = (inputCharacters: number, outputCharacters: number): ProviderUsage => ({
+  model: currentModel('text'),
+  inputTokens: PROMPT_TOKENS + Math.ceil(inputCharacters / CHARACTERS_PER_TOKEN),
+  outputTokens: Math.ceil(outputCharacters / CHARACTERS_PER_TOKEN),
+  estimated: true,
+});
+
+/**
+ * The budget is soft: jobs are never blocked, but the user is asked first when one would
+ * take this month's spending over the budget, or is expensive on its own.
+ */
+export const getBudgetWarning = async (estimate: ProviderUsage | ProviderUsage[]): Promise<string | null> => {
+  const settings = loadUsageSettings();
+  const cost = summarizeUsage(Array.isArray(estimate) ? estimate : [estimate], settings.prices).cost;
+  if (cost <= 0) return null;
+
+  const spent = summarizeUsage(await loadUsageRecords({ month: getMonthKey(new Date()) }), settings.prices).cost;
+  if (settings.monthlyBudget > 0 && spent + cost > settings.monthlyBudget) {
+    return `This is estimated to cost about ${formatCost(cost)}. ${formatCost(spent)} of your ${formatCost(settings.monthlyBudget)} monthly budget is already used, so this would go over it.\n\nStart anyway?`;
+  }
+  if (settings.jobWarning > 0 && cost > settings.jobWarning) {
+    return `This is estimated to cost about ${formatCost(cost)}, more than the ${formatCost(settings.jobWarning)} you asked to be warned about.\n\nStart anyway?`;
+  }
+  return null;
+};
+
+// Whether to go ahead, asking the user first when there is a warning
+export const confirmJobCost = async (estimate: ProviderUsage | ProviderUsage[]): Promise<boolean> => {
+  const warning = await getBudgetWarning(estimate);
+  return !warning || window.confirm(warning);
+};
@@ -3,15 +3,178 @@ export enum AppState {
   RECORDING = 'RECORDING',
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
+  BATCH = 'BATCH', // working through a queue of uploaded files
   ERROR = 'ERROR'
 }
 
+// Sub-state of AppState.RECORDING
+export enum RecordingSubState {
+  STANDARD = 'STANDARD',
+  LIVE_TRANSCRIBING = 'LIVE_TRANSCRIBING'
+}
+
 export type Language = 'Mixed' | 'Urdu' | 'English' | 'Siraiki';
 
-export interface TranscriptionResult {
+// Character offsets into a segment's text of words the model was unsure of
+export interface UncertainSpan {
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  start: number; // seconds from the beginning of the recording
+  end: number;
+  speaker: string; // e.g. 'Speaker 1'
+  language: string; // language detected for this segment, e.g. 'Urdu'
+  confidence: number; // 0 - 1, as reported by the model
   text: string;
-  language: string; // 'Urdu' | 'English' | 'Mixed' | 'Siraiki'
+  translation?: string; // text in the transcript's translation mode; cleared when the text is edited
+  uncertain?: UncertainSpan[]; // words marked unclear by the model and not yet reviewed
+  reviewed?: boolean; // a low-confidence turn the user has checked
+}
+
+// Shahmukhi is the Arabic-based script used for Urdu and Siraiki
+export type TranslationMode = 'shahmukhi-to-roman' | 'roman-to-shahmukhi' | 'urdu-to-english' | 'english-to-urdu';
+
+export interface TranscriptionResult {
+  segments: TranscriptSegment[];
+  language: Language; // language selected for the session
   timestamp: string;
+  glossaryId?: string; // glossary used to steer the transcription, if any
+  styleId?: string; // transcription style the session was transcribed with
+  translationMode?: TranslationMode; // set once segments carry a translation
+  insights?: MeetingInsights; // generated summary and minutes
+}
+
+export type InsightsLanguage = 'English' | 'Urdu' | 'Siraiki' | 'Roman Urdu';
+
+export interface ActionItem {
+  task: string;
+  owner: string; // a speaker label from the transcript, or '' when nobody was assigned
+  due: string; // as mentioned in the meeting, e.g. 'next Friday'; '' if not mentioned
+}
+
+export interface MinutesTopic {
+  title: string;
+  notes: string[];
+}
+
+// Post-processing results for a meeting recording, written in `language`
+export interface MeetingInsights {
+  language: InsightsLanguage;
+  generatedAt: string;
+  title: string;
+  summary: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+  topics: MinutesTopic[]; // discussion points for the minutes, in meeting order
+}
+
+// What the user knows about the speakers before transcribing
+export interface SpeakerHints {
+  expectedCount: number | null; // null when unknown
+  names: string[]; // in any order; the model labels turns with these when it can tell who is speaking
+}
+
+// A term the model should recognise, with the spellings we want in each script
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  urduSpelling: string; // Arabic-script spelling for Urdu/Siraiki text
+  latinSpelling: string; // spelling in English text
+  pronunciation: string; // optional hint, e.g. 'sounds like "moo-ZAF-far-gar"'
+}
+
+// Deterministic find/replace applied to the transcript after transcription
+export interface ReplacementRule {
+  id: string;
+  find: string;
+  replace: string;
+  wholeWord: boolean;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  entries: GlossaryEntry[];
+  rules: ReplacementRule[];
+  updatedAt: string;
+}
+
+// How a transcript is written: strict verbatim, clean read, a clinical note...
+export interface TranscriptStyle {
+  id: string;
+  name: string;
+  description: string;
+  template: string; // prompt text with {{variables}}, filled in by getSystemInstruction
+  builtIn?: boolean; // shipped with the app and read-only
+  singlePass?: boolean; // writes one document for the whole recording, e.g. a SOAP note, rather than a transcript
+}
+
+// Partial transcript shown while recording; provisional text may still change
+export interface LiveTranscript {
+  confirmed: TranscriptSegment[];
+  provisional: TranscriptSegment[];
+}
+
+export interface TranscriptionProgress {
+  completedChunks: number;
+  totalChunks: number;
+}
+
+// A saved transcription session, persisted in IndexedDB
+export interface HistorySession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  language: Language;
+  audioBlob: Blob | null; // original recording or upload
+  audioMimeType: string;
+  originalTranscript: TranscriptionResult; // as returned by the model
+  transcript: TranscriptionResult; // including the user's edits
+  speechBlob: Blob | null; // last generated text-to-speech audio
+}
+
+// Choices made in the recorder that steer how a recording or upload is transcribed
+export interface TranscriptionSettings {
+  glossaryId?: string;
+  styleId?: string;
+  speakerHints?: SpeakerHints;
+}
+
+// Extra data handed over with a finished recording
+export interface RecordingExtras extends TranscriptionSettings {
+  liveTranscript?: LiveTranscript; // partials, used as a fallback if the final pass fails
+  draftId?: string; // crash-recovery copy to delete once the session is saved
+  liveUsageIds?: string[]; // usage records of the live preview, attached to the session once saved
+}
+
+// A recording persisted chunk by chunk while it is made, so it survives a crash
+export interface RecordingDraft {
+  id: string;
+  startedAt: string;
+  updatedAt: string;
+  mimeType: string;
+  language: Language;
+  durationSeconds: number; // recorded time, excluding pauses
+  chunkCount: number;
+  sizeBytes: number;
+}
+
+export type BatchJobStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+// One uploaded file in the batch transcription queue
+export interface BatchJob extends TranscriptionSettings {
+  id: string;
+  file: File;
+  language: Language;
+  status: BatchJobStatus;
+  progress: TranscriptionProgress | null;
+  error: string | null;
+  sessionId: string | null; // history session the finished transcript was saved to
+  transcript: TranscriptionResult | null;
 }
 
 export interface AudioBlobData {
@@ -0,0 +1,104 @@
+import { createWavBlob } from './fileUtils';
+
+// Speech models work at 16 kHz; anything higher only inflates uploads
+export const SPEECH_SAMPLE_RATE = 16000;
+
+export interface MonoAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number; // seconds
+}
+
+// Decodes any browser-supported audio (or the audio track of a video) into mono PCM at the given rate
+export const decodeToMono = async (blob: Blob, sampleRate: number = SPEECH_SAMPLE_RATE): Promise<MonoAudio> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const decodeContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeContext.decodeAudioData(arrayBuffer);
+  } finally {
+    decodeContext.close();
+  }
+
+  // Rendering through a single-channel OfflineAudioContext downmixes and resamples in one pass
+  const length = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+
+  return {
+    samples: rendered.getChannelData(0),
+    sampleRate,
+    duration: rendered.duration,
+  };
+};
+
+// Duration from the file's header, without decoding it. Browser recordings are often missing it
+// (MediaRecorder writes WebM without a duration), and those give null, as do unreadable files.
+export const getMediaDuration = (blob: Blob, timeoutMs: number = 5000): Promise<number | null> => new Promise(resolve => {
+  const url = URL.createObjectURL(blob);
+  const media = document.createElement('audio');
+  let timeout = 0;
+  const finish = (duration: number | null) => {
+    window.clearTimeout(timeout);
+    media.onloadedmetadata = media.onerror = null;
+    media.removeAttribute('src');
+    URL.revokeObjectURL(url);
+    resolve(duration);
+  };
+  timeout = window.setTimeout(() => finish(null), timeoutMs);
+  media.preload = 'metadata';
+  media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? media.duration : null);
+  media.onerror = () => finish(null);
+  media.src = url;
+});
+
+export const floatTo16BitPCM = (samples: Float32Array): Uint8Array => {
+  const buffer = new ArrayBuffer(samples.length * 2);
+  const view = new DataView(buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Uint8Array(buffer);
+};
+
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  return createWavBlob(floatTo16BitPCM(samples), sampleRate);
+};
+
+const rms = (samples: Float32Array, from: number, to: number): number => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, to - from));
+};
+
+/**
+ * Finds the quietest point between `searchStart` and `searchEnd` (sample indices),
+ * measured over short frames. Used to cut chunks between words rather than through them.
+ */
+export const findQuietestPoint = (
+  samples: Float32Array,
+  sampleRate: number,
+  searchStart: number,
+  searchEnd: number
+): number => {
+  const frameSize = Math.floor(sampleRate * 0.05); // 50ms frames
+  const start = Math.max(0, searchStart);
+  const end = Math.min(samples.length, searchEnd);
+
+  let bestIndex = end;
+  let bestEnergy = Infinity;
+  for (let i = start; i + frameSize <= end; i += frameSize) {
+    const energy = rms(samples, i, i + frameSize);
+    // Prefer later frames on ties so chunks stay close to their nominal length
+    if (energy <= bestEnergy) {
+      bestEnergy = energy;
+      bestIndex = i + Math.floor(frameSize / 2);
+    }
+  }
+  return bestIndex;
+};
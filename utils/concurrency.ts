@@ -0,0 +1,27 @@
+// Runs `worker` over `items` with at most `limit` calls in flight, preserving result order.
+// After the first failure no new items are started and the returned promise rejects with that error.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runNext);
+  await Promise.all(runners);
+  return results;
+};
@@ -1,15 +1,21 @@
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      // Remove the Data-URL declaration (e.g. "data:audio/webm;base64,")
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+import FileSaver from "file-saver";
+
+// Avoids FileReader so the command-line tool can use it under Node too
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // String.fromCharCode takes its arguments on the stack, so convert in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  // Handle case where FileSaver is the function (default behavior on most CDNs) 
+  // or an object containing saveAs (common in some CJS-to-ESM bridges)
+  const saveAs = (FileSaver as any).saveAs || FileSaver;
+  saveAs(blob, filename);
 };
 
 export const getMimeType = (): string => {
@@ -74,6 +80,28 @@ export const createWavBlob = (pcmData: Uint8Array, sampleRate: number = 24000):
   return new Blob([buffer], { type: 'audio/wav' });
 };
 
+// Reads the sample rate and raw PCM payload out of a 16-bit PCM WAV file
+export const extractPcmFromWav = (buffer: ArrayBuffer): { pcm: Uint8Array; sampleRate: number } => {
+  const view = new DataView(buffer);
+  const sampleRate = view.getUint32(24, true);
+
+  // Walk the RIFF chunks to find "data"; encoders may insert LIST/fact chunks before it
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = String.fromCharCode(
+      view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+    );
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 'data') {
+      const size = Math.min(chunkSize, buffer.byteLength - offset - 8);
+      return { pcm: new Uint8Array(buffer, offset + 8, size), sampleRate };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV file has no data chunk.");
+};
+
 const writeString = (view: DataView, offset: number, string: string) => {
   for (let i = 0; i < string.length; i++) {
     view.setUint8(offset + i, string.charCodeAt(i));
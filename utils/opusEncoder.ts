@@ -0,0 +1,82 @@
+import { createWebmAudio, WebmFrame } from './webmWriter';
+
+// Compresses 16-bit mono PCM to Opus in WebM using the browser's WebCodecs encoder.
+// Speech at 32 kbps is about a twelfth of the size of 24 kHz WAV.
+
+const OPUS_BITRATE = 32000;
+// Opus always decodes at 48 kHz whatever the input rate
+const OPUS_OUTPUT_RATE = 48000;
+// Encoder lookahead at 48 kHz, trimmed from the start by decoders
+const OPUS_PRE_SKIP = 312;
+
+export const isOpusEncodingSupported = (): boolean =>
+  typeof AudioEncoder !== 'undefined' && typeof AudioData !== 'undefined';
+
+// Identification header from RFC 7845, stored as the track's codec private data
+const createOpusHead = (sampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // channels
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  view.setUint8(18, 0); // channel mapping family
+  return head;
+};
+
+// Some browsers reject an unsupported config by throwing rather than answering false
+const isConfigSupported = async (config: AudioEncoderConfig): Promise<boolean> => {
+  try {
+    return (await AudioEncoder.isConfigSupported(config)).supported === true;
+  } catch {
+    return false;
+  }
+};
+
+export const encodeOpusWebm = async (pcm: Uint8Array, sampleRate: number): Promise<Blob> => {
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  if (!isOpusEncodingSupported() || !(await isConfigSupported(config))) {
+    throw new Error("This browser cannot encode Opus audio.");
+  }
+
+  const frames: WebmFrame[] = [];
+  let failure: unknown = null;
+  const audioEncoder = new AudioEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ data, timestamp: Math.round(chunk.timestamp / 1000) });
+    },
+    error: error => { failure = error; },
+  });
+  audioEncoder.configure(config);
+
+  // Feed one second at a time to keep memory flat on long recordings
+  const totalSamples = Math.floor(pcm.length / 2);
+  for (let start = 0; start < totalSamples; start += sampleRate) {
+    const count = Math.min(sampleRate, totalSamples - start);
+    const samples = new Int16Array(pcm.slice(start * 2, (start + count) * 2).buffer);
+    const audioData = new AudioData({
+      format: 's16',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: count,
+      timestamp: Math.round((start / sampleRate) * 1_000_000),
+      data: samples,
+    });
+    audioEncoder.encode(audioData);
+    audioData.close();
+  }
+
+  await audioEncoder.flush();
+  audioEncoder.close();
+  if (failure) throw failure;
+
+  return createWebmAudio(
+    { codecId: 'A_OPUS', codecPrivate: createOpusHead(sampleRate), sampleRate: OPUS_OUTPUT_RATE, channels: 1 },
+    frames,
+    (totalSamples / sampleRate) * 1000
+  );
+};
@@ -0,0 +1,53 @@
+// AudioWorklet that forwards raw mono PCM frames from a live MediaStream to the main thread.
+// The processor is inlined as a Blob URL so no separate static file has to be served.
+const PCM_TAP_PROCESSOR = `
+class PcmTapProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input[0]) {
+      // Average channels into mono; copy because the engine reuses input buffers
+      const mono = new Float32Array(input[0].length);
+      for (let c = 0; c < input.length; c++) {
+        const channel = input[c];
+        for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / input.length;
+      }
+      this.port.postMessage(mono, [mono.buffer]);
+    }
+    return true;
+  }
+}
+registerProcessor('pcm-tap', PcmTapProcessor);
+`;
+
+export interface PcmTap {
+  sampleRate: number;
+  stop: () => void;
+}
+
+export const createPcmTap = async (stream: MediaStream, onSamples: (samples: Float32Array) => void): Promise<PcmTap> => {
+  const context = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([PCM_TAP_PROCESSOR], { type: 'application/javascript' }));
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, 'pcm-tap');
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => onSamples(event.data);
+  source.connect(node);
+  // The processor writes no output, so this stays silent; it only keeps the node being pulled
+  node.connect(context.destination);
+
+  return {
+    sampleRate: context.sampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      context.close();
+    },
+  };
+};
@@ -0,0 +1,165 @@
+// Minimal PDF writer: one full-page JPEG image per page, with an optional invisible
+// text layer over it so the text can be searched, selected and copied. Enough for
+// rendered documents without pulling a PDF library into the bundle.
+
+// A line of text as drawn on the page image, in points from the top-left corner
+export interface PdfTextRun {
+  text: string;
+  x: number; // left edge
+  y: number; // baseline
+  width: number;
+  size: number;
+}
+
+export interface PdfPageImage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  pointWidth: number; // page size in PDF points (1/72")
+  pointHeight: number;
+  text?: PdfTextRun[];
+}
+
+const encoder = new TextEncoder();
+
+// The text layer uses a font without glyphs, drawn invisibly (render mode 3). Character codes
+// are UTF-16 code units and map straight back to Unicode, so any script can be copied out.
+const GLYPH_WIDTH = 500; // per 1000 units of font size; each run is stretched to its measured width
+
+const toUtf16Hex = (text: string): string =>
+  Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('').toUpperCase();
+
+// Identity mapping from code to Unicode, in blocks of 256 codes (at most 100 ranges per section)
+const createToUnicodeCMap = (): string => {
+  const ranges = Array.from({ length: 256 }, (_, high) => {
+    const start = (high << 8).toString(16).padStart(4, '0').toUpperCase();
+    const end = ((high << 8) | 0xff).toString(16).padStart(4, '0').toUpperCase();
+    return `<${start}> <${end}> <${start}>`;
+  });
+  const sections: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const block = ranges.slice(i, i + 100);
+    sections.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...sections,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+};
+
+const formatNumber = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+const createTextLayer = (page: PdfPageImage): string => {
+  const runs = (page.text || []).filter(run => run.text.length > 0 && run.width > 0);
+  if (runs.length === 0) return '';
+  const lines = runs.map(run => {
+    const scale = (run.width / (run.text.length * run.size * GLYPH_WIDTH / 1000)) * 100;
+    const x = formatNumber(run.x);
+    const y = formatNumber(page.pointHeight - run.y);
+    return `/F0 ${formatNumber(run.size)} Tf ${formatNumber(scale)} Tz 1 0 0 1 ${x} ${y} Tm <${toUtf16Hex(run.text)}> Tj`;
+  });
+  return `\nBT 3 Tr\n${lines.join('\n')}\nET`;
+};
+
+export const createImagePdf = (pages: PdfPageImage[]): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Objects are numbered 1..n in the order they are written
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  const writeStream = (id: number, content: string) => {
+    const bytes = encoder.encode(content);
+    beginObject(id);
+    write(`<< /Length ${bytes.length} >>\nstream\n`);
+    write(bytes);
+    write('\nendstream\nendobj\n');
+  };
+
+  // 1: catalog, 2: page tree, then three objects per page (page, content, image),
+  // then the text layer font (font, CID font, descriptor, ToUnicode map)
+  const pageId = (index: number) => 3 + index * 3;
+  const fontId = pageId(pages.length);
+  const objectCount = fontId + 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageId(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const contentId = id + 1;
+    const imageId = id + 2;
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.pointWidth} ${page.pointHeight}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> /Font << /F0 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    );
+
+    writeStream(contentId, `q ${page.pointWidth} 0 0 ${page.pointHeight} 0 0 cm /Im0 Do Q${createTextLayer(page)}`);
+
+    beginObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  beginObject(fontId);
+  write(
+    `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ` +
+    `/DescendantFonts [${fontId + 1} 0 R] /ToUnicode ${fontId + 3} 0 R >>\nendobj\n`
+  );
+
+  beginObject(fontId + 1);
+  write(
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ` +
+    `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+    `/FontDescriptor ${fontId + 2} 0 R /DW ${GLYPH_WIDTH} /CIDToGIDMap /Identity >>\nendobj\n`
+  );
+
+  beginObject(fontId + 2);
+  write(
+    `<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 0 ${GLYPH_WIDTH} 1000] ` +
+    `/ItalicAngle 0 /Ascent 1000 /Descent 0 /CapHeight 1000 /StemV 80 >>\nendobj\n`
+  );
+
+  writeStream(fontId + 3, createToUnicodeCMap());
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,74 @@
+// Arabic-script blocks used by Urdu and Siraiki: Arabic, Arabic Supplement (U+0750-077F),
+// Arabic Extended-A (U+08A0-08FF) and the presentation forms
+const ARABIC_SCRIPT_CLASS = '\\u0600-\\u06FF\\u0750-\\u077F\\u08A0-\\u08FF\\uFB50-\\uFDFF\\uFE70-\\uFEFF';
+
+export const ARABIC_SCRIPT_REGEX = new RegExp(`[${ARABIC_SCRIPT_CLASS}]`);
+
+export const containsArabicScript = (text: string): boolean => ARABIC_SCRIPT_REGEX.test(text);
+
+// ASCII digits count as left-to-right so labels like "Speaker 1" stay in one run
+const LATIN_REGEX = /[A-Za-z0-9\u00C0-\u024F]/;
+
+export interface ScriptRun {
+  text: string;
+  rtl: boolean;
+}
+
+type CharDirection = 'rtl' | 'ltr' | 'neutral';
+
+const charDirection = (char: string): CharDirection => {
+  if (ARABIC_SCRIPT_REGEX.test(char)) return 'rtl';
+  if (LATIN_REGEX.test(char)) return 'ltr';
+  return 'neutral'; // spaces and punctuation take the direction of their context
+};
+
+// Paragraph direction by majority of strong characters, so an Urdu sentence with a few
+// English words stays right-to-left
+export const isRtlText = (text: string): boolean => {
+  let rtl = 0;
+  let ltr = 0;
+  for (const char of text) {
+    const dir = charDirection(char);
+    if (dir === 'rtl') rtl++;
+    else if (dir === 'ltr') ltr++;
+  }
+  return rtl > 0 && rtl >= ltr;
+};
+
+/**
+ * Splits text into runs of a single direction. Neutral characters between runs of the
+ * same direction join them; anywhere else (between directions, or at the start/end of
+ * the line) they take the paragraph direction, as the Unicode bidi algorithm resolves them.
+ */
+export const splitByScript = (text: string, paragraphRtl: boolean = isRtlText(text)): ScriptRun[] => {
+  const runs: ScriptRun[] = [];
+  let pendingNeutral = '';
+
+  const append = (chunk: string, rtl: boolean) => {
+    const last = runs[runs.length - 1];
+    if (last && last.rtl === rtl) last.text += chunk;
+    else runs.push({ text: chunk, rtl });
+  };
+
+  for (const char of text) {
+    const dir = charDirection(char);
+    if (dir === 'neutral') {
+      pendingNeutral += char;
+      continue;
+    }
+
+    const rtl = dir === 'rtl';
+    if (pendingNeutral) {
+      const last = runs[runs.length - 1];
+      append(pendingNeutral, last && last.rtl === rtl ? rtl : paragraphRtl);
+      pendingNeutral = '';
+    }
+    append(char, rtl);
+  }
+
+  if (pendingNeutral) {
+    append(pendingNeutral, paragraphRtl);
+  }
+
+  return runs;
+};
@@ -0,0 +1,205 @@
+import { TranscriptSegment, TranscriptionResult } from "../types";
+import { remapUncertainSpans, withUncertainSpans } from "./uncertainty";
+
+// Script-aware search. Urdu text from different keyboards and models mixes Arabic and Farsi
+// code points for the same letter, so both sides are normalized before comparing.
+
+export interface SearchOptions {
+  fuzzyRoman: boolean; // also match Roman Urdu words spelled differently ("bahut" ~ "bohat" ~ "bohot")
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { fuzzyRoman: true };
+
+// Range in the original, unnormalized text
+export interface TextMatch {
+  start: number;
+  end: number;
+  fuzzy?: boolean; // a Roman Urdu spelling variant, not the text searched for
+}
+
+export interface TranscriptHit extends TextMatch {
+  segmentId: string;
+}
+
+// A search result to show when a transcript is opened, e.g. from the history search
+export interface SearchFocus {
+  segmentId: string;
+  query: string;
+}
+
+// Letters with several encodings in the wild, mapped to the form Urdu keyboards produce
+const CHAR_MAP: Record<string, string> = {
+  'ي': 'ی', // Arabic yeh -> Farsi yeh
+  'ى': 'ی', // alef maksura
+  'ئ': 'ی', // yeh with hamza
+  'ۓ': 'ے', // yeh barree with hamza
+  'ك': 'ک', // Arabic kaf -> keheh
+  'ه': 'ہ', // Arabic heh -> heh goal
+  'ة': 'ہ', // teh marbuta
+  'ۃ': 'ہ',
+  'ۂ': 'ہ', // heh goal with hamza
+  'أ': 'ا', // alef with hamza above
+  'إ': 'ا', // alef with hamza below
+  'آ': 'ا', // alef madda
+  'ٱ': 'ا', // alef wasla
+  'ؤ': 'و', // waw with hamza
+};
+
+// Harakat and Quranic marks (aerab), superscript alef, tatweel, and invisible joiners/direction marks
+const IGNORED_CHAR = /[\u064B-\u065F\u0670\u06D6-\u06ED\u0640\u200B-\u200F\u2066-\u2069\uFEFF]/;
+// Combining marks left over after canonical decomposition (Latin accents, Arabic hamza/madda)
+const COMBINING_MARKS = /[\u0300-\u036F\u0653-\u0655]/g;
+
+const normalizeChar = (char: string): string => {
+  if (IGNORED_CHAR.test(char)) return '';
+  if (CHAR_MAP[char]) return CHAR_MAP[char];
+
+  const code = char.charCodeAt(0);
+  if (code >= 0x0660 && code <= 0x0669) return String(code - 0x0660); // Arabic-Indic digits
+  if (code >= 0x06F0 && code <= 0x06F9) return String(code - 0x06F0); // Urdu/Persian digits
+  if (/\s/.test(char)) return ' ';
+  return char.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+};
+
+interface NormalizedText {
+  text: string;
+  // For each normalized character, the original range it came from
+  starts: number[];
+  ends: number[];
+}
+
+const normalizeWithMap = (text: string): NormalizedText => {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    let mapped = normalizeChar(char);
+    // Runs of whitespace count as one space
+    if (mapped === ' ' && (normalized.length === 0 || normalized.endsWith(' '))) mapped = '';
+    for (const out of mapped) {
+      normalized += out;
+      starts.push(offset);
+      ends.push(offset + char.length);
+    }
+    offset += char.length;
+  }
+
+  return { text: normalized, starts, ends };
+};
+
+export const normalizeForSearch = (text: string): string => normalizeWithMap(text).text.trim();
+
+// Consonant skeleton of a Roman Urdu word. Vowels are spelled every which way ("hain", "hen",
+// "hein"), as are a few consonants, so only the remaining consonants are compared.
+const romanKey = (word: string): string =>
+  word
+    .replace(/ph/g, 'f')
+    .replace(/q/g, 'k')
+    .replace(/w/g, 'v')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(?!^)[aeiouy]/g, '');
+
+const ROMAN_WORD = /^[a-z]+$/;
+const WORD_REGEX = /[\p{L}\p{M}\p{N}]+/gu;
+
+const wordsMatch = (queryWord: string, textWord: string, isLast: boolean): boolean => {
+  if (textWord === queryWord) return true;
+  // The word being typed may be incomplete
+  if (isLast && textWord.startsWith(queryWord)) return true;
+  if (!ROMAN_WORD.test(queryWord) || !ROMAN_WORD.test(textWord)) return false;
+  // Two-consonant skeletons are shared by too many different words ("kaise" ~ "kis", "hain" ~ "hun")
+  const key = romanKey(queryWord);
+  return key.length > 2 && key === romanKey(textWord);
+};
+
+const findFuzzyMatches = (normalized: NormalizedText, queryWords: string[]): TextMatch[] => {
+  const words = Array.from(normalized.text.matchAll(WORD_REGEX), m => ({ word: m[0], index: m.index! }));
+  const matches: TextMatch[] = [];
+
+  for (let i = 0; i + queryWords.length <= words.length; i++) {
+    const window = words.slice(i, i + queryWords.length);
+    if (window.every((w, j) => wordsMatch(queryWords[j], w.word, j === queryWords.length - 1))) {
+      const first = window[0];
+      const last = window[window.length - 1];
+      matches.push({
+        start: normalized.starts[first.index],
+        end: normalized.ends[last.index + last.word.length - 1],
+        fuzzy: true,
+      });
+    }
+  }
+  return matches;
+};
+
+export const findMatches = (text: string, query: string, options: SearchOptions = DEFAULT_SEARCH_OPTIONS): TextMatch[] => {
+  const needle = normalizeForSearch(query);
+  if (!needle) return [];
+
+  const normalized = normalizeWithMap(text);
+  const matches: TextMatch[] = [];
+  for (let i = normalized.text.indexOf(needle); i !== -1; i = normalized.text.indexOf(needle, i + needle.length)) {
+    matches.push({ start: normalized.starts[i], end: normalized.ends[i + needle.length - 1] });
+  }
+
+  if (options.fuzzyRoman) {
+    const queryWords = needle.match(WORD_REGEX) || [];
+    for (const match of findFuzzyMatches(normalized, queryWords)) {
+      if (!matches.some(m => m.start < match.end && match.start < m.end)) matches.push(match);
+    }
+    matches.sort((a, b) => a.start - b.start);
+  }
+
+  return matches;
+};
+
+// Hits in transcript order
+export const searchTranscript = (
+  transcript: TranscriptionResult,
+  query: string,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): TranscriptHit[] =>
+  transcript.segments.flatMap(segment =>
+    findMatches(segment.text, query, options).map(match => ({ ...match, segmentId: segment.id })));
+
+const replaceRanges = (text: string, ranges: TextMatch[], replacement: string): string =>
+  [...ranges]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, range) => result.slice(0, range.start) + replacement + result.slice(range.end), text);
+
+// Replacing every hit blindly is only safe for the text actually searched for
+export const getExactHits = (hits: TranscriptHit[]): TranscriptHit[] => hits.filter(hit => !hit.fuzzy);
+
+// Replaces the given hits; hits must come from a search of this same transcript
+export const replaceHits = (
+  transcript: TranscriptionResult,
+  hits: TranscriptHit[],
+  replacement: string
+): TranscriptionResult => {
+  const bySegment = new Map<string, TranscriptHit[]>();
+  hits.forEach(hit => bySegment.set(hit.segmentId, [...(bySegment.get(hit.segmentId) || []), hit]));
+
+  return {
+    ...transcript,
+    segments: transcript.segments.map((segment): TranscriptSegment => {
+      const segmentHits = bySegment.get(segment.id);
+      if (!segmentHits) return segment;
+      // The translation no longer matches the edited text
+      const { translation, ...rest } = segment;
+      const text = replaceRanges(segment.text, segmentHits, replacement);
+      return withUncertainSpans({ ...rest, text }, remapUncertainSpans(segment.text, text, segment.uncertain));
+    }),
+  };
+};
+
+// Text around a match, for result lists
+export const getSnippet = (text: string, match: TextMatch, context: number = 40) => {
+  const start = Math.max(0, match.start - context);
+  const end = Math.min(text.length, match.end + context);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, match.start),
+    match: text.slice(match.start, match.end),
+    after: text.slice(match.end, end) + (end < text.length ? '…' : ''),
+  };
+};
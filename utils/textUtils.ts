@@ -0,0 +1,45 @@
+// Helper to chunk text to avoid hitting the 8192 token limit of the TTS model
+const MAX_CHAR_LIMIT = 3000; // Conservative limit (~750 tokens) to be safe
+
+export function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  // Split by generic sentence delimiters including newlines to keep flow natural
+  const rawSentences = text.match(/[^.!?\n]+[.!?\n]+(\s+|$)|[^.!?\n]+$/g) || [text];
+  
+  let currentChunk = '';
+  
+  for (const sentence of rawSentences) {
+    // If a single sentence is larger than limit (unlikely but possible), we split it hard
+    if (sentence.length > MAX_CHAR_LIMIT) {
+       if (currentChunk) {
+           chunks.push(currentChunk.trim());
+           currentChunk = '';
+       }
+       
+       let remaining = sentence;
+       while (remaining.length > 0) {
+           if (remaining.length <= MAX_CHAR_LIMIT) {
+               currentChunk = remaining;
+               break;
+           }
+           // Try to break at a space
+           let breakIndex = remaining.lastIndexOf(' ', MAX_CHAR_LIMIT);
+           if (breakIndex === -1) breakIndex = MAX_CHAR_LIMIT;
+           
+           chunks.push(remaining.substring(0, breakIndex).trim());
+           remaining = remaining.substring(breakIndex);
+       }
+    } else if ((currentChunk + sentence).length <= MAX_CHAR_LIMIT) {
+      currentChunk += sentence;
+    } else {
+      chunks.push(currentChunk.trim());
+      currentChunk = sentence;
+    }
+  }
+  
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+  
+  return chunks;
+}
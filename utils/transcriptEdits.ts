@@ -0,0 +1,123 @@
+import { TranscriptSegment, TranscriptionResult } from "../types";
+import { createSegmentId } from "./transcriptUtils";
+import { isLowConfidence, remapUncertainSpans, withUncertainSpans } from "./uncertainty";
+
+// Pure edit operations on a transcript. Each returns a new result so edits can be kept in undo history.
+
+const mapSegments = (
+  result: TranscriptionResult,
+  fn: (segments: TranscriptSegment[]) => TranscriptSegment[]
+): TranscriptionResult => ({ ...result, segments: fn(result.segments) });
+
+// The old translation no longer matches, so it is dropped and picked up by the next translation run
+export const updateSegmentText = (result: TranscriptionResult, id: string, text: string): TranscriptionResult =>
+  mapSegments(result, segments => segments.map(segment => {
+    if (segment.id !== id || segment.text === text) return segment;
+    const { translation, ...rest } = segment;
+    return withUncertainSpans({ ...rest, text }, remapUncertainSpans(segment.text, text, segment.uncertain));
+  }));
+
+export const setSegmentSpeaker = (result: TranscriptionResult, id: string, speaker: string): TranscriptionResult =>
+  mapSegments(result, segments => segments.map(segment => segment.id === id ? { ...segment, speaker } : segment));
+
+export const deleteSegment = (result: TranscriptionResult, id: string): TranscriptionResult =>
+  mapSegments(result, segments => segments.filter(segment => segment.id !== id));
+
+// Joins a segment with the one after it, keeping the first segment's speaker
+export const mergeWithNext = (result: TranscriptionResult, id: string): TranscriptionResult =>
+  mapSegments(result, segments => {
+    const index = segments.findIndex(segment => segment.id === id);
+    if (index === -1 || index === segments.length - 1) return segments;
+
+    const current = segments[index];
+    const next = segments[index + 1];
+    const { translation, reviewed, ...rest } = current;
+    const nextOffset = current.text ? current.text.length + 1 : 0;
+    const spans = [
+      ...(current.uncertain || []),
+      ...(next.uncertain || []).map(span => ({ start: span.start + nextOffset, end: span.end + nextOffset })),
+    ];
+    const merged: TranscriptSegment = {
+      ...withUncertainSpans(rest, spans),
+      end: Math.max(current.end, next.end),
+      confidence: Math.min(current.confidence, next.confidence),
+      text: `${current.text} ${next.text}`.trim(),
+      // The merged turn takes the lower confidence, so it stays reviewed only if no unchecked half is left
+      ...(!isLowConfidence(current) && !isLowConfidence(next) && (reviewed || next.reviewed) ? { reviewed: true } : {}),
+      // Kept only when both halves are translated; otherwise the merged turn is translated again
+      ...(translation !== undefined && next.translation !== undefined
+        ? { translation: `${translation} ${next.translation}`.trim() }
+        : {}),
+    };
+    return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+  });
+
+// Splits a segment at a character offset; the time range is divided in proportion to the text
+export const splitSegment = (result: TranscriptionResult, id: string, offset: number): TranscriptionResult =>
+  mapSegments(result, segments => {
+    const index = segments.findIndex(segment => segment.id === id);
+    if (index === -1) return segments;
+
+    const segment = segments[index];
+    const firstText = segment.text.slice(0, offset).trim();
+    const secondText = segment.text.slice(offset).trim();
+    if (!firstText || !secondText) return segments;
+
+    const ratio = offset / segment.text.length;
+    const splitTime = segment.start + (segment.end - segment.start) * ratio;
+    // Where the translation splits is unknown, so both halves are left to be translated again
+    const { translation, ...rest } = segment;
+    const first: TranscriptSegment = withUncertainSpans(
+      { ...rest, end: splitTime, text: firstText },
+      remapUncertainSpans(segment.text, firstText, segment.uncertain)
+    );
+    const second: TranscriptSegment = withUncertainSpans(
+      { ...rest, id: createSegmentId(), start: splitTime, text: secondText },
+      remapUncertainSpans(segment.text, secondText, segment.uncertain)
+    );
+    return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+  });
+
+export const getSpeakers = (result: TranscriptionResult): string[] =>
+  Array.from(new Set(result.segments.map(segment => segment.speaker)));
+
+// Relabels every turn of a speaker. Renaming to a label that is already in use merges the two speakers.
+// Action item owners in the insights follow the new label.
+export const renameSpeaker = (result: TranscriptionResult, from: string, to: string): TranscriptionResult => {
+  if (!to || from === to) return result;
+  const renamed = mapSegments(result, segments =>
+    segments.map(segment => segment.speaker === from ? { ...segment, speaker: to } : segment));
+  if (!renamed.insights) return renamed;
+
+  return {
+    ...renamed,
+    insights: {
+      ...renamed.insights,
+      actionItems: renamed.insights.actionItems.map(item => item.owner === from ? { ...item, owner: to } : item),
+    },
+  };
+};
+
+export interface SpeakerStats {
+  speaker: string;
+  turns: number;
+  talkTime: number; // seconds
+  words: number;
+  share: number; // fraction of the total talk time, 0 - 1
+}
+
+// In order of first appearance, like getSpeakers
+export const getSpeakerStats = (result: TranscriptionResult): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  for (const segment of result.segments) {
+    const entry = stats.get(segment.speaker) || { speaker: segment.speaker, turns: 0, talkTime: 0, words: 0, share: 0 };
+    entry.turns++;
+    entry.talkTime += Math.max(0, segment.end - segment.start);
+    entry.words += segment.text.split(/\s+/).filter(Boolean).length;
+    stats.set(segment.speaker, entry);
+  }
+
+  const list = Array.from(stats.values());
+  const total = list.reduce((sum, entry) => sum + entry.talkTime, 0);
+  return list.map(entry => ({ ...entry, share: total > 0 ? entry.talkTime / total : 0 }));
+};
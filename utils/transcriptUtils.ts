@@ -0,0 +1,173 @@
+import { TranscriptSegment, TranscriptionResult } from "../types";
+import { ARABIC_SCRIPT_REGEX } from "./scriptUtils";
+import { extractUncertainSpans, withUncertainSpans } from "./uncertainty";
+
+const LATIN_SCRIPT_REGEX = /[A-Za-z]/;
+
+// Matches "Speaker 1:", "**Speaker 1:**", "[00:12] Speaker 1:" and similar prefixes. A colon followed by a
+// digit is a time ("at 10:30"), not the end of a label.
+const SPEAKER_LINE_REGEX = /^\s*(?:\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s*[-–]?\s*)?\**\s*([^:*\n]{1,40}?)\s*\**\s*:(?!\d)\s*\**\s*(.*)$/;
+// "Speaker 1", "Speaker A", "S1", "Person 2"; not ordinary sentences that happen to contain a colon
+const SPEAKER_LABEL_REGEX = /^(?:speaker\b.*|\p{L}+\s*\d{1,2})$/iu;
+
+let segmentCounter = 0;
+
+export const createSegmentId = (): string => {
+  segmentCounter += 1;
+  return `seg-${Date.now().toString(36)}-${segmentCounter.toString(36)}`;
+};
+
+// Accepts seconds as a number, a numeric string or a "MM:SS" / "HH:MM:SS" string
+export const parseTimeValue = (value: unknown): number => {
+  if (typeof value === 'number' && isFinite(value)) return Math.max(0, value);
+  if (typeof value !== 'string') return 0;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+  const parts = trimmed.split(':').map(Number);
+  if (parts.length < 2 || parts.some(isNaN)) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hrs > 0 ? `${hrs}:${mmss}` : mmss;
+};
+
+// Rough per-segment language guess used when the model does not report one
+export const detectSegmentLanguage = (text: string): string => {
+  const hasArabic = ARABIC_SCRIPT_REGEX.test(text);
+  const hasLatin = LATIN_SCRIPT_REGEX.test(text);
+  if (hasArabic && hasLatin) return 'Mixed';
+  if (hasArabic) return 'Urdu';
+  return 'English';
+};
+
+// Narrows parsed JSON to an object whose fields can then be checked one by one
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampConfidence = (value: unknown): number => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || isNaN(num)) return 1;
+  // Some responses report a percentage instead of a 0-1 value
+  const normalized = num > 1 ? num / 100 : num;
+  return Math.min(1, Math.max(0, normalized));
+};
+
+const normalizeSegment = (raw: unknown): TranscriptSegment | null => {
+  if (!isRecord(raw)) return null;
+  const { text, spans } = extractUncertainSpans(typeof raw.text === 'string' ? raw.text.trim() : '');
+  if (!text) return null;
+
+  const start = parseTimeValue(raw.start);
+  const end = Math.max(start, parseTimeValue(raw.end));
+  const speaker = typeof raw.speaker === 'string' && raw.speaker.trim() ? raw.speaker.trim() : 'Speaker 1';
+  const language = typeof raw.language === 'string' && raw.language.trim()
+    ? raw.language.trim()
+    : detectSegmentLanguage(text);
+
+  return withUncertainSpans<TranscriptSegment>({
+    id: createSegmentId(),
+    start,
+    end,
+    speaker,
+    language,
+    confidence: clampConfidence(raw.confidence),
+    text,
+  }, spans);
+};
+
+// Strips markdown code fences the model sometimes wraps around JSON
+export const extractJsonPayload = (raw: string): string => {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : raw).trim();
+};
+
+const parseJsonSegments = (raw: string): TranscriptSegment[] | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonPayload(raw));
+  } catch {
+    return null;
+  }
+
+  const items = Array.isArray(data) ? data : isRecord(data) ? data.segments : undefined;
+  if (!Array.isArray(items)) return null;
+
+  return items
+    .map(normalizeSegment)
+    .filter((segment): segment is TranscriptSegment => segment !== null);
+};
+
+// Fallback for plain "Speaker 1: ..." scripts (older prompts or non-JSON responses)
+export const parseSpeakerText = (raw: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let currentSpeaker = 'Speaker 1';
+
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+
+    const match = line.match(SPEAKER_LINE_REGEX);
+    let text = line.trim();
+    let start = 0;
+
+    if (match && SPEAKER_LABEL_REGEX.test(match[2].trim()) && match[3].trim()) {
+      currentSpeaker = match[2].trim();
+      text = match[3].trim();
+      start = match[1] ? parseTimeValue(match[1]) : 0;
+    }
+
+    const { text: cleanText, spans } = extractUncertainSpans(text);
+    segments.push(withUncertainSpans<TranscriptSegment>({
+      id: createSegmentId(),
+      start,
+      end: start,
+      speaker: currentSpeaker,
+      language: detectSegmentLanguage(cleanText),
+      confidence: 1,
+      text: cleanText,
+    }, spans));
+  }
+
+  return segments;
+};
+
+// Parses the model response into segments, preferring the JSON schema output. Valid JSON with no
+// turns (silence) gives no segments; only responses that are not JSON at all are read as a script.
+export const parseTranscriptResponse = (raw: string): TranscriptSegment[] => {
+  const jsonSegments = parseJsonSegments(raw);
+  if (jsonSegments) return jsonSegments;
+  return parseSpeakerText(raw);
+};
+
+export const segmentToLine = (segment: TranscriptSegment): string => {
+  return `${segment.speaker}: ${segment.text}`;
+};
+
+// Plain-text rendering used for copy-to-clipboard and speech generation
+export const transcriptToPlainText = (result: TranscriptionResult, includeSpeakers: boolean = true): string => {
+  return result.segments
+    .map(segment => includeSpeakers ? segmentToLine(segment) : segment.text)
+    .join('\n');
+};
+
+// Spreads segments across `duration` by text length when the model returned no usable timings
+export const distributeTimings = (segments: TranscriptSegment[], duration: number): TranscriptSegment[] => {
+  const hasTimings = segments.some(segment => segment.end > 0);
+  if (hasTimings || duration <= 0) return segments;
+
+  const totalChars = segments.reduce((sum, segment) => sum + segment.text.length, 0) || 1;
+  let cursor = 0;
+  return segments.map(segment => {
+    const length = (segment.text.length / totalChars) * duration;
+    const timed = { ...segment, start: cursor, end: cursor + length };
+    cursor += length;
+    return timed;
+  });
+};
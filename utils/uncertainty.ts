@@ -0,0 +1,144 @@
+import { TranscriptSegment, TranscriptionResult, UncertainSpan } from "../types";
+
+// Turns below this confidence are offered for review as a whole
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Audio played either side of a region, since span times are only estimated from the text position
+const REVIEW_PADDING_SECONDS = 1.5;
+
+// "[unclear: best guess]" or "[inaudible]" as asked for in the prompt; models mix the two words up
+const UNCLEAR_MARKER_REGEX = /\[\s*(unclear|inaudible)\s*(?::\s*([^\]]*))?\]/gi;
+
+// Replaces the model's markers with the guessed words (bare markers stay, e.g. "[inaudible]") and records where they are
+export const extractUncertainSpans = (text: string): { text: string; spans: UncertainSpan[] } => {
+  const spans: UncertainSpan[] = [];
+  let output = '';
+  let last = 0;
+
+  for (const match of text.matchAll(UNCLEAR_MARKER_REGEX)) {
+    const guess = match[2]?.trim() || `[${match[1].toLowerCase()}]`;
+    output += text.slice(last, match.index);
+    spans.push({ start: output.length, end: output.length + guess.length });
+    output += guess;
+    last = match.index! + match[0].length;
+  }
+
+  return { text: output + text.slice(last), spans };
+};
+
+// Sets a segment's spans, leaving the field off when there are none
+export const withUncertainSpans = <T extends { uncertain?: UncertainSpan[] }>(segment: T, spans?: UncertainSpan[]): T => {
+  const { uncertain, ...rest } = segment;
+  return (spans && spans.length > 0 ? { ...rest, uncertain: spans } : rest) as T;
+};
+
+/**
+ * Moves spans to follow an edit of the text. Spans before and after the changed region shift with it; spans
+ * inside it are kept only if their words are still there, so correcting an uncertain word clears its mark.
+ */
+export const remapUncertainSpans = (oldText: string, newText: string, spans?: UncertainSpan[]): UncertainSpan[] | undefined => {
+  if (!spans || spans.length === 0 || oldText === newText) return spans;
+
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix && suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) suffix++;
+
+  const oldEnd = oldText.length - suffix;
+  const newEnd = newText.length - suffix;
+  const shift = newText.length - oldText.length;
+
+  return spans.flatMap(span => {
+    if (span.end <= prefix) return [span];
+    if (span.start >= oldEnd) return [{ start: span.start + shift, end: span.end + shift }];
+
+    // Several edits at once (replace all, replacement rules): look for the words inside the changed region
+    const words = oldText.slice(span.start, span.end);
+    let best = -1;
+    for (let index = newText.indexOf(words, prefix); index !== -1 && index + words.length <= newEnd; index = newText.indexOf(words, index + 1)) {
+      if (best === -1 || Math.abs(index - span.start) < Math.abs(best - span.start)) best = index;
+    }
+    return best === -1 ? [] : [{ start: best, end: best + words.length }];
+  });
+};
+
+export const isLowConfidence = (segment: TranscriptSegment): boolean =>
+  !segment.reviewed && segment.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+export interface ReviewItem {
+  key: string;
+  segmentId: string;
+  span?: UncertainSpan; // absent when the whole turn is uncertain
+  start: number; // seconds of audio to play for this item
+  end: number;
+}
+
+// Span times are estimated by where the words sit in the turn's text
+const getItemTimes = (segment: TranscriptSegment, span?: UncertainSpan): { start: number; end: number } => {
+  if (!span || segment.text.length === 0) return { start: segment.start, end: segment.end };
+  const duration = segment.end - segment.start;
+  const at = (offset: number) => segment.start + duration * (offset / segment.text.length);
+  return {
+    start: Math.max(0, at(span.start) - REVIEW_PADDING_SECONDS),
+    end: at(span.end) + REVIEW_PADDING_SECONDS,
+  };
+};
+
+// Everything left to review, in transcript order: a low-confidence turn first, then its uncertain words
+export const getReviewItems = (transcript: TranscriptionResult): ReviewItem[] =>
+  transcript.segments.flatMap(segment => {
+    const items: ReviewItem[] = [];
+    if (isLowConfidence(segment)) {
+      items.push({ key: segment.id, segmentId: segment.id, ...getItemTimes(segment) });
+    }
+    [...(segment.uncertain || [])]
+      .sort((a, b) => a.start - b.start)
+      .forEach(span => items.push({
+        key: `${segment.id}:${span.start}`,
+        segmentId: segment.id,
+        span,
+        ...getItemTimes(segment, span),
+      }));
+    return items;
+  });
+
+const updateItemSegment = (
+  transcript: TranscriptionResult,
+  item: ReviewItem,
+  fn: (segment: TranscriptSegment) => TranscriptSegment
+): TranscriptionResult => ({
+  ...transcript,
+  segments: transcript.segments.map(segment => (segment.id === item.segmentId ? fn(segment) : segment)),
+});
+
+const isSameSpan = (a: UncertainSpan, b: UncertainSpan) => a.start === b.start && a.end === b.end;
+
+// Keeps the text as transcribed and clears the item
+export const acceptReviewItem = (transcript: TranscriptionResult, item: ReviewItem): TranscriptionResult =>
+  updateItemSegment(transcript, item, segment => {
+    const span = item.span;
+    if (!span) return { ...segment, reviewed: true };
+    return withUncertainSpans(segment, segment.uncertain?.filter(other => !isSameSpan(other, span)));
+  });
+
+// Replaces the uncertain words (or the whole turn) with the reviewer's text and clears the item
+export const correctReviewItem = (transcript: TranscriptionResult, item: ReviewItem, correction: string): TranscriptionResult =>
+  updateItemSegment(transcript, item, segment => {
+    const span = item.span;
+    const text = span
+      ? segment.text.slice(0, span.start) + correction + segment.text.slice(span.end)
+      : correction.trim();
+    if (!text.trim()) return segment;
+
+    const others = segment.uncertain?.filter(other => !span || !isSameSpan(other, span));
+    // The translation no longer matches the corrected text
+    const { translation, ...rest } = segment;
+    const corrected = withUncertainSpans({ ...rest, text }, remapUncertainSpans(segment.text, text, others));
+    return span ? corrected : { ...corrected, reviewed: true };
+  });
+
+export const getReviewText = (segment: TranscriptSegment, item: ReviewItem): string =>
+  item.span ? segment.text.slice(item.span.start, item.span.end) : segment.text;
@@ -0,0 +1,125 @@
+// Minimal WebM (Matroska) writer for a single audio track. Enough to wrap the Opus
+// packets WebCodecs produces in a file browsers and media players can open.
+
+export interface WebmAudioTrack {
+  codecId: string; // Matroska codec ID, e.g. "A_OPUS"
+  codecPrivate: Uint8Array;
+  sampleRate: number;
+  channels: number;
+}
+
+export interface WebmFrame {
+  data: Uint8Array;
+  timestamp: number; // milliseconds from the start
+}
+
+// Block timestamps are 16-bit offsets from their cluster, so clusters must stay well under 32 s
+const CLUSTER_MS = 5000;
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// Variable-length size: the position of the leading 1 bit gives the byte count
+const encodeSize = (size: number): Uint8Array => {
+  for (let length = 1; length <= 8; length++) {
+    if (size < 2 ** (7 * length) - 1) {
+      const bytes = new Uint8Array(length);
+      let value = size;
+      for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value % 256;
+        value = Math.floor(value / 256);
+      }
+      bytes[0] |= 0x80 >> (length - 1);
+      return bytes;
+    }
+  }
+  throw new Error("WebM element too large.");
+};
+
+const uint = (value: number): Uint8Array => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return Uint8Array.from(bytes);
+};
+
+const float64 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+};
+
+const element = (id: number[], ...children: Uint8Array[]): Uint8Array => {
+  const payload = concat(children);
+  return concat([Uint8Array.from(id), encodeSize(payload.length), payload]);
+};
+
+const simpleBlock = (relativeTime: number, data: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // track number 1
+  new DataView(header.buffer).setInt16(1, relativeTime);
+  header[3] = 0x80; // keyframe; every audio frame decodes on its own
+  return element([0xA3], header, data);
+};
+
+const buildClusters = (frames: WebmFrame[]): Uint8Array[] => {
+  const clusters: Uint8Array[] = [];
+  let start = 0;
+  while (start < frames.length) {
+    const clusterTime = frames[start].timestamp;
+    let end = start;
+    while (end < frames.length && frames[end].timestamp - clusterTime < CLUSTER_MS) end++;
+
+    const blocks = frames.slice(start, end).map(frame => simpleBlock(frame.timestamp - clusterTime, frame.data));
+    clusters.push(element([0x1F, 0x43, 0xB6, 0x75], element([0xE7], uint(clusterTime)), ...blocks));
+    start = end;
+  }
+  return clusters;
+};
+
+export const createWebmAudio = (track: WebmAudioTrack, frames: WebmFrame[], duration: number): Blob => {
+  const header = element([0x1A, 0x45, 0xDF, 0xA3],
+    element([0x42, 0x86], uint(1)), // EBMLVersion
+    element([0x42, 0xF7], uint(1)), // EBMLReadVersion
+    element([0x42, 0xF2], uint(4)), // EBMLMaxIDLength
+    element([0x42, 0xF3], uint(8)), // EBMLMaxSizeLength
+    element([0x42, 0x82], encoder.encode('webm')), // DocType
+    element([0x42, 0x87], uint(4)), // DocTypeVersion
+    element([0x42, 0x85], uint(2)), // DocTypeReadVersion
+  );
+
+  const info = element([0x15, 0x49, 0xA9, 0x66],
+    element([0x2A, 0xD7, 0xB1], uint(1_000_000)), // TimecodeScale: timestamps in ms
+    element([0x4D, 0x80], encoder.encode('ScribeFlow')), // MuxingApp
+    element([0x57, 0x41], encoder.encode('ScribeFlow')), // WritingApp
+    element([0x44, 0x89], float64(duration)),
+  );
+
+  const tracks = element([0x16, 0x54, 0xAE, 0x6B],
+    element([0xAE], // TrackEntry
+      element([0xD7], uint(1)), // TrackNumber
+      element([0x73, 0xC5], uint(1)), // TrackUID
+      element([0x83], uint(2)), // TrackType: audio
+      element([0x86], encoder.encode(track.codecId)),
+      element([0x63, 0xA2], track.codecPrivate),
+      element([0xE1], // Audio
+        element([0xB5], float64(track.sampleRate)),
+        element([0x9F], uint(track.channels)),
+      ),
+    ),
+  );
+
+  const segment = element([0x18, 0x53, 0x80, 0x67], info, tracks, ...buildClusters(frames));
+  return new Blob([header, segment], { type: 'audio/webm' });
+};
@@ -4,15 +4,34 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a proxy server the Gemini key stays on the server and out of the bundle
+    const geminiKey = env.GEMINI_PROXY_URL ? '' : env.GEMINI_API_KEY;
+    // A same-origin proxy path such as "/api" is forwarded to a locally running server during development
+    const devProxy = env.GEMINI_PROXY_URL?.startsWith('/')
+      ? {
+          [env.GEMINI_PROXY_URL]: {
+            target: env.PROXY_DEV_TARGET || 'http://localhost:8787',
+            rewrite: (requestPath: string) => requestPath.slice(env.GEMINI_PROXY_URL.length) || '/',
+          },
+        }
+      : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: devProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(geminiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(geminiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        // Default transcription provider: 'gemini', 'openai' or 'mock' (can be changed in the UI)
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_TRANSCRIPTION_MODEL': JSON.stringify(env.OPENAI_TRANSCRIPTION_MODEL),
+        'process.env.OPENAI_SPEECH_MODEL': JSON.stringify(env.OPENAI_SPEECH_MODEL),
+        'process.env.OPENAI_CHAT_MODEL': JSON.stringify(env.OPENAI_CHAT_MODEL)
       },
       resolve: {
         alias: {